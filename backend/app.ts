@@ -1,10 +1,9 @@
+import './config/env';
 import express, { Request, Response, NextFunction } from 'express';
 import ErrorHandler from './middleware/error';
 import cookieParser from 'cookie-parser';
 import bodyParser from 'body-parser';
 import cors from 'cors';
-import dotenv from 'dotenv';
-import swaggerJsdoc from 'swagger-jsdoc'
 import * as swaggerUi from 'swagger-ui-express';
 import basicAuth from 'express-basic-auth';
 
@@ -19,34 +18,63 @@ import order from './controller/order';
 import conversation from './controller/conversation';
 import message from './controller/message';
 import withdraw from './controller/withdraw';
+import role from './controller/role';
+import staff from './controller/staff';
+import category from './controller/category';
+import notification from './controller/notification';
+import shipment from './controller/shipment';
+import returnRequest from './controller/returnRequest';
+import ledger from './controller/ledger';
+import commission from './controller/commission';
 import chalk from 'chalk';
+import { buildOpenApiSpec, MountedRouter } from './utils/openapi';
 const logEndpoints = require('custom-logger-node')
 const app = express();
 
 
-const options = {
-  definition: {
-    openapi: "3.1.0",
-    info: {
-      title: "Oshop Express API with Swagger",
-      version: "0.1.0",
-      description:
-        "This is a simple CRUD API application made with Express and documented with Swagger",
-      license: {
-        name: "MIT",
-        url: "https://spdx.org/licenses/MIT.html",
-      },
-      contact: {
-        name: "Splax",
-        url: "",
-        email: "shakaikhanoba@gmail.com",
-      },
+const routes: MountedRouter[] = [
+  { path: "/user", router: user },
+  { path: "/conversation", router: conversation },
+  { path: "/message", router: message },
+  { path: "/order", router: order },
+  { path: "/shop", router: shop },
+  { path: "/product", router: product },
+  { path: "/event", router: event },
+  { path: "/coupon", router: coupon },
+  { path: "/payment", router: payment },
+  { path: "/withdraw", router: withdraw },
+  { path: "/role", router: role },
+  { path: "/staff", router: staff },
+  { path: "/category", router: category },
+  { path: "/notification", router: notification },
+  { path: "/shipment", router: shipment },
+  { path: "/return", router: returnRequest },
+  { path: "/ledger", router: ledger },
+  { path: "/commission", router: commission },
+];
+
+const definition = {
+  openapi: "3.0.3",
+  info: {
+    title: "Oshop Express API with Swagger",
+    version: "0.1.0",
+    description:
+      "This is a simple CRUD API application made with Express and documented with Swagger",
+    license: {
+      name: "MIT",
+      url: "https://spdx.org/licenses/MIT.html",
     },
-    servers: [
-      {
-        url: "http://localhost:8000/api/v2",
-      },
-    ],
+    contact: {
+      name: "Splax",
+      url: "",
+      email: "shakaikhanoba@gmail.com",
+    },
+  },
+  servers: [
+    {
+      url: "http://localhost:8000/api/v2",
+    },
+  ],
   components: {
     securitySchemes: {
       bearerAuth: { // name of the security scheme
@@ -60,9 +88,34 @@ const options = {
         bearerFormat: 'JWT',
       }
     },
+    schemas: {
+      Error: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          message: { type: "string" },
+        },
+      },
+      ValidationError: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          message: { type: "string" },
+          errors: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                location: { type: "string", enum: ["params", "query", "body"] },
+                path: { type: "string" },
+                message: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
   },
-  },
-  apis: ["./controller/*.ts"],
 };
 
 // const basicAuthMiddleware = basicAuth({
@@ -83,7 +136,8 @@ const options = {
 //   next();
 // };
 
-const specs = swaggerJsdoc(options);
+// generated from the validate() schema on every route
+const specs = buildOpenApiSpec(definition, routes);
 
 const corsOptions = {
   origin: 'http://localhost:3000', // Replace with your frontend origin
@@ -92,6 +146,8 @@ const corsOptions = {
 
 app.use(cors(corsOptions));
 
+// Stripe signs the exact bytes it sent, so its webhook skips the JSON parser
+app.use("/api/v2/payment/webhook", express.raw({ type: "application/json" }));
 app.use(express.json());
 app.use(cookieParser());
 app.use(express.json({ limit: '100mb' }));
@@ -103,29 +159,13 @@ app.use("/test", (req: Request, res: Response) => {
   res.send("Hello world!");
 });
 
-// config
-if (process.env.NODE_ENV !== 'PRODUCTION') {
-  dotenv.config({
-    path: 'config/.env',
-  });
-}
-
 // apply routes
 app.use(
   "/api-docs",
   swaggerUi.serve,
   swaggerUi.setup(specs, { explorer: true })
 );
-app.use("/api/v2/user", user);
-app.use("/api/v2/conversation", conversation);
-app.use("/api/v2/message", message);
-app.use("/api/v2/order", order);
-app.use("/api/v2/shop", shop);
-app.use("/api/v2/product", product);
-app.use("/api/v2/event", event);
-app.use("/api/v2/coupon", coupon);
-app.use("/api/v2/payment", payment);
-app.use("/api/v2/withdraw", withdraw);
+routes.forEach(({ path, router }) => app.use(`/api/v2${path}`, router));
 
 // Error Handling middleware
 app.use(ErrorHandler);
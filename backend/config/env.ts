@@ -0,0 +1,8 @@
+import dotenv from "dotenv";
+
+// imported before anything else, so every module can read its settings when it loads
+if (process.env.NODE_ENV !== 'PRODUCTION') {
+  dotenv.config({
+    path: 'config/.env',
+  });
+}
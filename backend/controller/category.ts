@@ -0,0 +1,208 @@
+import express, { Request, Response, NextFunction } from "express";
+import cloudinary from "cloudinary";
+import catchAsyncErrors from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { isAuthenticated, hasPermission } from "../middleware/auth";
+import { PERMISSIONS } from "../utils/permissions";
+import { buildCategoryTree, slugify } from "../utils/categories";
+import Category from "../model/category";
+import Product from "../model/product";
+import Event from "../model/event";
+import { validate, ValidatedBody } from "../middleware/validate";
+import * as schema from "../schemas/category";
+
+const router = express.Router();
+
+router.get(
+  "/get-category-tree",
+  validate(schema.categoryTree),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const categories = await Category.find();
+
+      res.status(200).json({
+        success: true,
+        categories: buildCategoryTree(categories),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.post(
+  "/create-category",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.CATEGORIES_MANAGE),
+  validate(schema.createCategory),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, parentId, icon, sortOrder, ...body }: ValidatedBody<typeof schema.createCategory> = req.body;
+      const slug = body.slug || slugify(name);
+
+      if (await Category.exists({ slug })) {
+        return next(new ErrorHandler(`Slug ${slug} is already used`, 400));
+      }
+
+      const parent = parentId ? await Category.findById(parentId) : null;
+      if (parentId && !parent) {
+        return next(new ErrorHandler("Parent category not found", 400));
+      }
+
+      const myCloud = icon
+        ? await cloudinary.v2.uploader.upload(icon, { folder: "categories" })
+        : null;
+
+      const category = await Category.create({
+        name,
+        slug,
+        parent: parent ? parent._id : null,
+        ancestors: parent ? [...parent.ancestors, parent._id] : [],
+        icon: myCloud ? { public_id: myCloud.public_id, url: myCloud.secure_url } : undefined,
+        sortOrder,
+      });
+
+      res.status(201).json({
+        success: true,
+        category,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.put(
+  "/update-category/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.CATEGORIES_MANAGE),
+  validate(schema.updateCategory),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const category = await Category.findById(req.params.id);
+
+      if (!category) {
+        return next(new ErrorHandler("Category not found with this id", 404));
+      }
+
+      const { name, slug, parentId, icon, sortOrder }: ValidatedBody<typeof schema.updateCategory> = req.body;
+
+      if (slug !== undefined && slug !== category.slug) {
+        if (await Category.exists({ slug })) {
+          return next(new ErrorHandler(`Slug ${slug} is already used`, 400));
+        }
+        category.slug = slug;
+      }
+
+      if (parentId !== undefined && String(parentId) !== String(category.parent)) {
+        const parent = parentId ? await Category.findById(parentId) : null;
+
+        if (parentId && !parent) {
+          return next(new ErrorHandler("Parent category not found", 400));
+        }
+
+        if (parent && (parent.id === category.id || parent.ancestors.some((id) => id.equals(category._id)))) {
+          return next(new ErrorHandler("A category can't be moved inside itself", 400));
+        }
+
+        const previousPath = [...category.ancestors, category._id];
+        category.parent = parent ? parent._id : null;
+        category.ancestors = parent ? [...parent.ancestors, parent._id] : [];
+        const nextPath = [...category.ancestors, category._id];
+
+        // subcategories keep their place below the moved category
+        const descendants = await Category.find({ ancestors: category._id });
+        for (const descendant of descendants) {
+          descendant.ancestors = [...nextPath, ...descendant.ancestors.slice(previousPath.length)];
+          await descendant.save();
+        }
+      }
+
+      if (icon) {
+        const myCloud = await cloudinary.v2.uploader.upload(icon, { folder: "categories" });
+        if (category.icon?.public_id) {
+          await cloudinary.v2.uploader.destroy(category.icon.public_id);
+        }
+        category.icon = { public_id: myCloud.public_id, url: myCloud.secure_url };
+      }
+
+      if (name !== undefined) {
+        category.name = name;
+      }
+
+      if (sortOrder !== undefined) {
+        category.sortOrder = sortOrder;
+      }
+
+      category.updatedAt = new Date();
+      await category.save();
+
+      res.status(200).json({
+        success: true,
+        category,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.delete(
+  "/delete-category/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.CATEGORIES_MANAGE),
+  validate(schema.deleteCategory),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const category = await Category.findById(req.params.id);
+
+      if (!category) {
+        return next(new ErrorHandler("Category not found with this id", 404));
+      }
+
+      const [children, products, events] = await Promise.all([
+        Category.countDocuments({ parent: category._id }),
+        Product.countDocuments({ category: category._id }),
+        Event.countDocuments({ category: category._id }),
+      ]);
+
+      if (children || products || events) {
+        return next(new ErrorHandler(
+          `Category still has ${children} subcategories, ${products} products and ${events} events`,
+          400
+        ));
+      }
+
+      if (category.icon?.public_id) {
+        await cloudinary.v2.uploader.destroy(category.icon.public_id);
+      }
+
+      await category.deleteOne();
+
+      res.status(200).json({
+        success: true,
+        message: "Category deleted successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,254 @@
+import express, { Response, NextFunction } from "express";
+import catchAsyncErrors from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { isAuthenticated, isSeller, sellerCan, hasPermission, RequestUser } from "../middleware/auth";
+import { PERMISSIONS } from "../utils/permissions";
+import CommissionRule from "../model/commissionRule";
+import Category from "../model/category";
+import Product from "../model/product";
+import Shop from "../model/shop";
+import { categoryPath, commissionOn, pickRule, rulesInEffect } from "../utils/commission";
+import { roundMoney } from "../utils/pricing";
+import { validate, ValidatedBody, ValidatedRequest } from "../middleware/validate";
+import * as schema from "../schemas/commission";
+
+const router = express.Router();
+
+// the conditions a rule points at have to exist
+const checkConditions = async (body: { categoryId?: string | null; shopId?: string | null }): Promise<ErrorHandler | null> => {
+  if (body.categoryId && !(await Category.exists({ _id: body.categoryId }))) {
+    return new ErrorHandler("Category not found", 400);
+  }
+
+  if (body.shopId && !(await Shop.exists({ _id: body.shopId }))) {
+    return new ErrorHandler("Shop not found", 400);
+  }
+
+  return null;
+};
+
+router.get(
+  "/all-rules",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.COMMISSION_MANAGE),
+  validate(schema.allRules),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.allRules, RequestUser>, res: Response, next: NextFunction) => {
+    try {
+      const { includeEnded } = req.query;
+
+      const filter = includeEnded ? {} : { $or: [{ effectiveTo: null }, { effectiveTo: { $gt: new Date() } }] };
+      const rules = await CommissionRule.find(filter).sort({ priority: -1, effectiveFrom: -1 });
+
+      res.status(200).json({
+        success: true,
+        rules,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.post(
+  "/create-rule",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.COMMISSION_MANAGE),
+  validate(schema.createRule),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const body: ValidatedBody<typeof schema.createRule> = req.body;
+
+      const invalid = await checkConditions(body);
+      if (invalid) {
+        return next(invalid);
+      }
+
+      const rule = await CommissionRule.create({
+        ...body,
+        createdBy: { id: String(req.user._id), name: req.user.name },
+      });
+
+      res.status(201).json({
+        success: true,
+        rule,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.put(
+  "/update-rule/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.COMMISSION_MANAGE),
+  validate(schema.updateRule),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const rule = await CommissionRule.findById(req.params.id);
+
+      if (!rule) {
+        return next(new ErrorHandler("Commission rule not found", 404));
+      }
+
+      const body: ValidatedBody<typeof schema.updateRule> = req.body;
+
+      const invalid = await checkConditions(body);
+      if (invalid) {
+        return next(invalid);
+      }
+
+      // null drops a condition or the end date
+      for (const [field, value] of Object.entries(body)) {
+        if (value !== undefined) {
+          rule.set(field, value === null ? undefined : value);
+        }
+      }
+
+      if (rule.effectiveTo && rule.effectiveTo <= rule.effectiveFrom) {
+        return next(new ErrorHandler("effectiveTo must be after effectiveFrom", 400));
+      }
+
+      rule.updatedAt = new Date();
+      await rule.save();
+
+      res.status(200).json({
+        success: true,
+        rule,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.delete(
+  "/delete-rule/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.COMMISSION_MANAGE),
+  validate(schema.deleteRule),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const rule = await CommissionRule.findByIdAndDelete(req.params.id);
+
+      if (!rule) {
+        return next(new ErrorHandler("Commission rule not found", 404));
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Commission rule deleted successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.put(
+  "/shop-tier/:shopId",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.COMMISSION_MANAGE),
+  validate(schema.updateShopTier),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { tier }: ValidatedBody<typeof schema.updateShopTier> = req.body;
+
+      const shop = await Shop.findByIdAndUpdate(req.params.shopId, { tier }, { new: true });
+
+      if (!shop) {
+        return next(new ErrorHandler("Shop not found with this id", 404));
+      }
+
+      res.status(200).json({
+        success: true,
+        shopId: String(shop._id),
+        tier: shop.tier,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// commission on the shop's products at today's rules ---- seller
+router.get(
+  "/preview",
+  isSeller,
+  sellerCan("catalog"),
+  validate(schema.commissionPreview),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.commissionPreview, RequestUser>, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query;
+      const shopId = String(req.seller._id);
+      const now = new Date();
+
+      const [products, total, rules] = await Promise.all([
+        Product.find({ shopId }).select("name discountPrice category").sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+        Product.countDocuments({ shopId }),
+        rulesInEffect(now),
+      ]);
+
+      // products of a shop tend to share a few categories
+      const paths = new Map<string, string[]>();
+
+      const preview = [];
+      for (const product of products) {
+        const category = String(product.category);
+        if (!paths.has(category)) {
+          paths.set(category, await categoryPath(product.category));
+        }
+
+        const rule = pickRule(rules, req.seller, paths.get(category)!, now);
+        const commission = commissionOn(product.discountPrice, rule);
+
+        preview.push({
+          productId: String(product._id),
+          name: product.name,
+          price: product.discountPrice,
+          rate: commission.rate,
+          rule: commission.ruleName || null,
+          commission: commission.amount,
+          net: roundMoney(product.discountPrice - commission.amount),
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        tier: req.seller.tier || "standard",
+        products: preview,
+        total,
+        page,
+        pages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+export default router;
@@ -2,39 +2,17 @@ import { Request, Response, NextFunction } from 'express';
 import Conversation from '../model/conversation';
 import ErrorHandler from '../utils/ErrorHandler';
 import catchAsyncErrors from '../middleware/catchAsyncErrors';
-import { isSeller, isAuthenticated } from '../middleware/auth';
+import { isSeller, isAuthenticated, sellerCan } from '../middleware/auth';
 import express from 'express';
+import { validate } from "../middleware/validate";
+import * as schema from "../schemas/conversation";
 
 const router = express.Router();
 
-/**
- * @swagger
- * components:
- *   schemas:
- *     IConversation:
- *       type: object
- *       properties:
- *         groupTitle:
- *           type: string
- *         members:
- *           type: array
- *           items:
- *             type: string
- *         lastMessage:
- *           type: string
- *         lastMessageId:
- *           type: string
- *       example:
- *         groupTitle: Family Chat
- *         members: ["user1", "user2", "user3"]
- *         lastMessage: Hello everyone!
- *         lastMessageId: abc123
- */
-
-
 // Create a new conversation
 router.post(
   "/create-new-conversation",
+  validate(schema.createNewConversation),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { groupTitle, userId, sellerId } = req.body;
@@ -72,6 +50,8 @@ router.post(
 router.get(
   "/get-all-conversation-seller/:id",
   isSeller,
+  sellerCan("inbox"),
+  validate(schema.getAllConversationSeller),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const conversations = await Conversation.find({
@@ -98,6 +78,7 @@ router.get(
 router.get(
   "/get-all-conversation-user/:id",
   isAuthenticated,
+  validate(schema.getAllConversationUser),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const conversations = await Conversation.find({
@@ -123,6 +104,7 @@ router.get(
 // Update the last message
 router.put(
   "/update-last-message/:id",
+  validate(schema.updateLastMessage),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { lastMessage, lastMessageId } = req.body;
@@ -146,160 +128,4 @@ router.put(
   })
 );
 
-/**
- * @swagger
- * tags:
- *   name: Conversations
- *   description: API endpoints for managing conversations
- */
-
-/**
- * @swagger
- * /conversation/create-new-conversation:
- *   post:
- *     summary: Create a new conversation
- *     tags: [Conversations]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               groupTitle:
- *                 type: string
- *               userId:
- *                 type: string
- *               sellerId:
- *                 type: string
- *             required:
- *               - groupTitle
- *               - userId
- *               - sellerId
- *     responses:
- *       201:
- *         description: New conversation created successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: true
- *                 conversation:
- *                   $ref: '#/components/schemas/IConversation'
- *       500:
- *         description: Internal server error
- */
-
-/**
- * @swagger
- * /conversation/get-all-conversation-seller/{id}:
- *   get:
- *     summary: Get seller conversations
- *     tags: [Conversations]
- *     parameters:
- *       - name: id
- *         in: path
- *         description: Seller ID
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       201:
- *         description: Successfully fetched seller conversations
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: true
- *                 conversations:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/IConversation'
- *       500:
- *         description: Internal server error
- */
-
-/**
- * @swagger
- * /conversation/get-all-conversation-user/{id}:
- *   get:
- *     summary: Get user conversations
- *     tags: [Conversations]
- *     parameters:
- *       - name: id
- *         in: path
- *         description: User ID
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       201:
- *         description: Successfully fetched user conversations
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: true
- *                 conversations:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/IConversation'
- *       500:
- *         description: Internal server error
- */
-
-/**
- * @swagger
- * /conversation/update-last-message/{id}:
- *   put:
- *     summary: Update the last message of a conversation
- *     tags: [Conversations]
- *     parameters:
- *       - name: id
- *         in: path
- *         description: Conversation ID
- *         required: true
- *         schema:
- *           type: string
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               lastMessage:
- *                 type: string
- *               lastMessageId:
- *                 type: string
- *             required:
- *               - lastMessage
- *               - lastMessageId
- *     responses:
- *       201:
- *         description: Last message updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: true
- *                 conversation:
- *                   $ref: '#/components/schemas/IConversation'
- *       500:
- *         description: Internal server error
- */
-
-
 export default router;
@@ -2,237 +2,29 @@ import express, { Request, Response, NextFunction } from "express";
 import catchAsyncErrors from "../middleware/catchAsyncErrors";
 import Shop from "../model/shop";
 import Event, { IEvent } from "../model/event";
+import Category from "../model/category";
 import ErrorHandler from "../utils/ErrorHandler";
-import { isSeller, isAdmin, isAuthenticated } from "../middleware/auth";
+import { isSeller, hasPermission, isAuthenticated } from "../middleware/auth";
+import { PERMISSIONS } from "../utils/permissions";
 import cloudinary, { UploadApiResponse } from "cloudinary";
+import { categoryFilter } from "../utils/categories";
+import { validate, ValidatedRequest } from "../middleware/validate";
+import * as schema from "../schemas/event";
 
 const router = express.Router();
-/**
- * @swagger
- * components:
- *   schemas:
- *     IEvent:
- *       type: object
- *       properties:
- *         name:
- *           type: string
- *         description:
- *           type: string
- *         category:
- *           type: string
- *         start_Date:
- *           type: string
- *           format: date
- *         Finish_Date:
- *           type: string
- *           format: date
- *         status:
- *           type: string
- *         tags:
- *           type: string
- *         originalPrice:
- *           type: number
- *         discountPrice:
- *           type: number
- *         stock:
- *           type: number
- *         images:
- *           type: array
- *           items:
- *             type: object
- *             properties:
- *               public_id:
- *                 type: string
- *               url:
- *                 type: string
- *         shopId:
- *           type: string
- *         shop:
- *           type: object
- *         sold_out:
- *           type: number
- *         createdAt:
- *           type: string
- *           format: date-time
- *
- * /event/create-event:
- *   post:
- *     summary: Create a new event
- *     tags: [Events]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/IEvent'
- *     responses:
- *       201:
- *         description: Event created successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: true
- *                 event:
- *                   $ref: '#/components/schemas/IEvent'
- *       400:
- *         description: Missing required fields or invalid Shop ID
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: false
- *                 error:
- *                   type: string
- *       500:
- *         description: An unknown error occurred
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: false
- *                 error:
- *                   type: string
- *
- * /event/get-all-events:
- *   get:
- *     summary: Get all events
- *     tags: [Events]
- *     responses:
- *       200:
- *         description: List of all events
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: true
- *                 events:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/IEvent'
- *       500:
- *         description: An unknown error occurred
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: false
- *                 error:
- *                   type: string
- *
- * /event/get-all-events/:id:
- *   get:
- *     summary: Get all events of a shop
- *     tags: [Events]
- *     parameters:
- *       - in: path
- *         name: id
- *         schema:
- *           type: string
- *         required: true
- *         description: ID of the shop
- *     responses:
- *       200:
- *         description: List of all events of the shop
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: true
- *                 events:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/IEvent'
- *       400:
- *         description: Invalid Shop ID
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: false
- *                 error:
- *                   type: string
- *       500:
- *         description: An unknown error occurred
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: false
- *                 error:
- *                   type: string
- *
- * /event/delete-shop-event/:id:
- *   delete:
- *     summary: Delete an event of a shop
- *     tags: [Events]
- *     parameters:
- *       - in: path
- *         name: id
- *         schema:
- *           type: string
- *         required: true
- *         description: ID of the event
- *     responses:
- *       200:
- *         description: Event deleted successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: true
- *                 message:
- *                   type: string
- *       400:
- *         description: Event not found with the given ID
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   default: false
- *                 error:
- *                   type: string
- */
 
 // create event
 router.post(
   "/create-event",
+  validate(schema.createEvent),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const shopId: string = req.body.shopId;
       const shop = await Shop.findById(shopId);
       if (!shop) {
         return next(new ErrorHandler("Shop Id is invalid!", 400));
+      } else if (!(await Category.exists({ _id: req.body.category }))) {
+        return next(new ErrorHandler("Category not found", 400));
       } else {
         let images: string[] = [];
 
@@ -273,21 +65,29 @@ router.post(
 );
 
 // get all events
-router.get("/get-all-events", async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const events = await Event.find();
-    res.status(200).json({
-      success: true,
-      events,
-    });
-  } catch (error: any) {
-    return next(new ErrorHandler(error, 400));
-  }
-});
+router.get(
+  "/get-all-events",
+  validate(schema.getAllEvents),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.getAllEvents>, res: Response, next: NextFunction) => {
+    try {
+      const { category, includeSubcategories } = req.query;
+      const filter = category ? { category: { $in: await categoryFilter([category], includeSubcategories) } } : {};
+
+      const events = await Event.find(filter);
+      res.status(200).json({
+        success: true,
+        events,
+      });
+    } catch (error: any) {
+      return next(new ErrorHandler(error, 400));
+    }
+  })
+);
 
 // get all events of a shop
 router.get(
   "/get-all-events/:id",
+  validate(schema.getShopEvents),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const events = await Event.find({ shopId: req.params.id });
@@ -305,6 +105,7 @@ router.get(
 // delete event of a shop
 router.delete(
   "/delete-shop-event/:id",
+  validate(schema.deleteShopEvent),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const event = await Event.findById(req.params.id);
@@ -339,7 +140,8 @@ router.delete(
 router.get(
   "/admin-all-events",
   isAuthenticated,
-  isAdmin("Admin"),
+  hasPermission(PERMISSIONS.CATALOG_VIEW),
+  validate(schema.adminAllEvents),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const events = await Event.find().sort({
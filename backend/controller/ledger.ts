@@ -0,0 +1,93 @@
+import express, { Response, NextFunction } from "express";
+import catchAsyncErrors from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { isAuthenticated, isSeller, isShopOwner, hasPermission, RequestUser } from "../middleware/auth";
+import { PERMISSIONS } from "../utils/permissions";
+import Shop from "../model/shop";
+import { ledgerStatement, postAdjustment, reconcileLedger } from "../utils/ledger";
+import { validate, ValidatedBody, ValidatedRequest } from "../middleware/validate";
+import * as schema from "../schemas/ledger";
+
+const router = express.Router();
+
+// statement of the shop with running balances ---- seller
+router.get(
+  "/statement",
+  isSeller,
+  isShopOwner,
+  validate(schema.getStatement),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.getStatement, RequestUser>, res: Response, next: NextFunction) => {
+    try {
+      const { from, to } = req.query;
+
+      const statement = await ledgerStatement(String(req.seller._id), from, to);
+
+      res.status(200).json({
+        success: true,
+        ...statement,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// reconciliation report --- for admin
+router.get(
+  "/admin-reconciliation",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.LEDGER_VIEW),
+  validate(schema.getReconciliation),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const report = await reconcileLedger();
+
+      res.status(200).json({
+        success: true,
+        ...report,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// book an adjustment --- for admin
+router.post(
+  "/admin-adjustment",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.LEDGER_ADJUST),
+  validate(schema.createAdjustment),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { shopId, amount, note }: ValidatedBody<typeof schema.createAdjustment> = req.body;
+
+      if (!(await Shop.exists({ _id: shopId }))) {
+        return next(new ErrorHandler("Shop not found with this id", 404));
+      }
+
+      const entry = await postAdjustment(shopId, amount, note, { id: String(req.user._id), name: req.user.name });
+
+      res.status(201).json({
+        success: true,
+        entry,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+export default router;
@@ -3,116 +3,18 @@ import cloudinary, { UploadApiResponse } from "cloudinary";
 import Messages, { IMessage } from "../model/messages";
 import ErrorHandler from "../utils/ErrorHandler";
 import catchAsyncErrors from "../middleware/catchAsyncErrors";
+import { loadSeller, sellerActor, RequestUser } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import * as schema from "../schemas/message";
 
 const router = express.Router();
 
-/**
- * @swagger
- * components:
- *   schemas:
- *     Image:
- *       type: object
- *       properties:
- *         public_id:
- *           type: string
- *           description: The public ID of the image
- *         url:
- *           type: string
- *           description: The URL of the image
- *     Message:
- *       type: object
- *       properties:
- *         id:
- *           type: string
- *           description: The unique ID of the message
- *           required: true
- *         conversationId:
- *           type: string
- *           description: The ID of the conversation to which the message belongs
- *         text:
- *           type: string
- *           description: The text content of the message
- *         sender:
- *           type: string
- *           description: The sender of the message
- *         images:
- *           $ref: '#/components/schemas/Image'
- *           description: The images associated with the message
- *       required:
- *         - id
- */
-
-/**
- * @swagger
- * tags:
- *   name: Messages
- *   description: Endpoints for managing messages
- */
-
-/**
- * @swagger
- * /message/create-new-message:
- *   post:
- *     summary: Create a new message
- *     tags: [Messages]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/Message'
- *     responses:
- *       201:
- *         description: Message created successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 message:
- *                   $ref: '#/components/schemas/Message'
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /message/get-all-messages/{id}:
- *   get:
- *     summary: Get all messages with a specific conversation ID
- *     tags: [Messages]
- *     parameters:
- *       - in: path
- *         name: id
- *         schema:
- *           type: string
- *         required: true
- *         description: The conversation ID
- *     responses:
- *       200:
- *         description: Messages retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 messages:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Message'
- *       500:
- *         description: An unknown error occurred
- */
-
-
 // create new message
 router.post(
   "/create-new-message",
-  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+  loadSeller,
+  validate(schema.createNewMessage),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
     try {
       const messageData: IMessage = req.body;
 
@@ -131,6 +33,9 @@ router.post(
         text: messageData.text,
         sender: messageData.sender,
         images: messageData.images || undefined,
+        sentBy: req.seller && String(req.seller._id) === messageData.sender
+          ? sellerActor(req)
+          : undefined,
       });
 
       const savedMessage = await message.save();
@@ -152,6 +57,7 @@ router.post(
 // get all messages with conversation id
 router.get(
   "/get-all-messages/:id",
+  validate(schema.getAllMessages),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const messages: IMessage[] = await Messages.find({
@@ -0,0 +1,74 @@
+import express, { Response, NextFunction } from "express";
+import catchAsyncErrors from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { isSeller, RequestUser } from "../middleware/auth";
+import Notification from "../model/notification";
+import { validate, ValidatedBody, ValidatedRequest } from "../middleware/validate";
+import * as schema from "../schemas/notification";
+
+const router = express.Router();
+
+// dashboard notifications of the shop
+router.get(
+  "/get-notifications",
+  isSeller,
+  validate(schema.getNotifications),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.getNotifications, RequestUser>, res: Response, next: NextFunction) => {
+    try {
+      const { unread, limit } = req.query;
+      const shopId = String(req.seller._id);
+
+      const filter: Record<string, unknown> = { shopId };
+      if (unread !== undefined) {
+        filter.read = !unread;
+      }
+
+      const notifications = await Notification.find(filter).sort({ createdAt: -1 }).limit(limit);
+      const unreadCount = await Notification.countDocuments({ shopId, read: false });
+
+      res.status(200).json({
+        success: true,
+        notifications,
+        unreadCount,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// mark notifications as read
+router.put(
+  "/mark-notifications-read",
+  isSeller,
+  validate(schema.markNotificationsRead),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { ids }: ValidatedBody<typeof schema.markNotificationsRead> = req.body;
+
+      const filter: Record<string, unknown> = { shopId: String(req.seller._id), read: false };
+      if (ids) {
+        filter._id = { $in: ids };
+      }
+
+      const result = await Notification.updateMany(filter, { $set: { read: true } });
+
+      res.status(200).json({
+        success: true,
+        updated: result.modifiedCount,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+export default router;
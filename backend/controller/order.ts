@@ -2,389 +2,131 @@ import express, { Request, Response, NextFunction } from "express";
 import cloudinary, { UploadApiResponse } from "cloudinary";
 import ErrorHandler from "../utils/ErrorHandler";
 import catchAsyncErrors from "../middleware/catchAsyncErrors";
-import { isAuthenticated, isSeller, isAdmin } from "../middleware/auth";
-import Order from "../model/order";
-import Shop, { IShop } from "../model/shop";
+import { isAuthenticated, isSeller, hasPermission, sellerCan, sellerActor, RequestUser } from "../middleware/auth";
+import { PERMISSIONS, getRolePermissions } from "../utils/permissions";
+import Order, { IOrder } from "../model/order";
+import Shop from "../model/shop";
 import Product from "../model/product";
+import Event from "../model/event";
+import CouponCode from "../model/couponCode";
+import { reserveCart, releaseStock, reservationExpiry } from "../utils/inventory";
+import { orderTimeline, sellerStatusActor } from "../utils/orderStatus";
+import { orderShopId, advanceOrder } from "../utils/orders";
+import { assignInvoiceNumber, renderInvoice, renderPackingSlip, sendOrderConfirmations } from "../utils/invoices";
+import { providerFor } from "../utils/paymentProviders";
+import { applyCommission } from "../utils/commission";
+import { isPaid } from "../utils/payments";
+import { priceCart, priceOrders, roundMoney } from "../utils/pricing";
+import { isAwaitingPayment } from "../utils/reservations";
+import { validate, ValidatedBody } from "../middleware/validate";
+import * as schema from "../schemas/order";
 
 const router = express.Router();
 
-/**
- * @swagger
- * components:
- *   schemas:
- *     Order:
- *       type: object
- *       required:
- *         - cart
- *         - shippingAddress
- *         - user
- *         - totalPrice
- *       properties:
- *         cart:
- *           type: array
- *           description: The items in the cart
- *           items:
- *             type: object
- *         shippingAddress:
- *           type: object
- *           description: The shipping address for the order
- *         user:
- *           type: object
- *           description: The user who placed the order
- *         totalPrice:
- *           type: number
- *           description: The total price of the order
- *         status:
- *           type: string
- *           description: The status of the order
- *           default: Processing
- *         paymentInfo:
- *           type: object
- *           properties:
- *             id:
- *               type: string
- *               description: Payment ID
- *             status:
- *               type: string
- *               description: Payment status
- *             type:
- *               type: string
- *               description: Payment type
- *         paidAt:
- *           type: string
- *           format: date-time
- *           description: The date and time when the order was paid
- *           default: The current date and time
- *         deliveredAt:
- *           type: string
- *           format: date-time
- *           description: The date and time when the order was delivered
- *         createdAt:
- *           type: string
- *           format: date-time
- *           description: The date and time when the order was created
- *           default: The current date and time
- */
-
-
-/**
- * @swagger
- * tags:
- *   - name: Orders
- *     description: Order management
- *   - name: Admin
- *     description: Admin operations
- */
-
-/**
- * @swagger
- * /order/create-order:
- *   post:
- *     summary: Create a new order
- *     tags: [Orders]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               cart:
- *                 type: array
- *               shippingAddress:
- *                 type: object
- *               user:
- *                 type: object
- *               totalPrice:
- *                 type: number
- *               paymentInfo:
- *                 type: object
- *     responses:
- *       201:
- *         description: Order created successfully
- */
-
-/**
- * @swagger
- * /order/get-all-orders/{userId}:
- *   get:
- *     summary: Get all orders of a user
- *     tags: [Orders]
- *     parameters:
- *       - in: path
- *         name: userId
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       200:
- *         description: Orders retrieved successfully
- */
-
-/**
- * @swagger
- * /order/get-seller-all-orders/{shopId}:
- *   get:
- *     summary: Get all orders of a seller
- *     tags: [Orders]
- *     parameters:
- *       - in: path
- *         name: shopId
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       200:
- *         description: Orders retrieved successfully
- */
-
-/**
- * @swagger
- * /order/update-order-status/{id}:
- *   put:
- *     summary: Update order status for seller
- *     tags: [Orders]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               status:
- *                 type: string
- *     responses:
- *       200:
- *         description: Order status updated successfully
- */
-
-/**
- * @swagger
- * /order/order-refund/{id}:
- *   put:
- *     summary: Request a refund for an order (user)
- *     tags: [Orders]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               status:
- *                 type: string
- *     responses:
- *       200:
- *         description: Refund request successful
- */
-
-/**
- * @swagger
- * /order/order-refund-success/{id}:
- *   put:
- *     summary: Accept the refund request (seller)
- *     tags: [Orders]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               status:
- *                 type: string
- *     responses:
- *       200:
- *         description: Refund successful
- */
-
-/**
- * @swagger
- * /order/admin-all-orders:
- *   get:
- *     summary: Get all orders (admin)
- *     tags: [Admin]
- *     responses:
- *       201:
- *         description: Orders retrieved successfully
- */
-
-/**
- * @swagger
- * components:
- *   responses:
- *     BadRequest:
- *       description: Missing required fields
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               message:
- *                 type: string
- *     NotFound:
- *       description: Resource not found
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               message:
- *                 type: string
- *     InternalServerError:
- *       description: An unknown error occurred
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               message:
- *                 type: string
- */
-
-/**
- * @swagger
- * /order/create-order:
- *   post:
- *     responses:
- *       201:
- *         description: Order created successfully
- *       400:
- *         $ref: '#/components/responses/BadRequest'
- *       500:
- *         $ref: '#/components/responses/InternalServerError'
- */
-
-/**
- * @swagger
- * /order/get-all-orders/{userId}:
- *   get:
- *     responses:
- *       200:
- *         description: All orders of user retrieved successfully
- *       500:
- *         $ref: '#/components/responses/InternalServerError'
- */
-
-/**
- * @swagger
- * /order/get-seller-all-orders/{shopId}:
- *   get:
- *     responses:
- *       200:
- *         description: All orders of seller retrieved successfully
- *       500:
- *         $ref: '#/components/responses/InternalServerError'
- */
-
-/**
- * @swagger
- * /order/update-order-status/{id}:
- *   put:
- *     responses:
- *       200:
- *         description: Order status updated successfully
- *       400:
- *         $ref: '#/components/responses/NotFound'
- *       500:
- *         $ref: '#/components/responses/InternalServerError'
- */
-
-/**
- * @swagger
- * /order/order-refund/{id}:
- *   put:
- *     responses:
- *       200:
- *         description: Order refund request successfully
- *       400:
- *         $ref: '#/components/responses/NotFound'
- *       500:
- *         $ref: '#/components/responses/InternalServerError'
- */
-
-/**
- * @swagger
- * /order/order-refund-success/{id}:
- *   put:
- *     responses:
- *       200:
- *         description: Order refund successful
- *       400:
- *         $ref: '#/components/responses/NotFound'
- *       500:
- *         $ref: '#/components/responses/InternalServerError'
- */
-
-/**
- * @swagger
- * /order/admin-all-orders:
- *   get:
- *     responses:
- *       201:
- *         description: All orders retrieved successfully for admin
- *       500:
- *         $ref: '#/components/responses/InternalServerError'
- */
-
-
-interface RequestWithSeller extends Request {
-  seller?: IShop; // Replace 'IShop' with the actual type of the seller property
-}
-
 // create new order
 router.post(
   "/create-order",
-  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+  isAuthenticated,
+  validate(schema.createOrder),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
     try {
-      const { cart, shippingAddress, user, totalPrice, paymentInfo } = req.body;
-      if (!cart || !shippingAddress || !user || !totalPrice || !paymentInfo) {
-        return next(new ErrorHandler("Missing required fields", 400));
+      const { cart, shippingAddress, totalPrice, couponCode, paymentInfo }: ValidatedBody<typeof schema.createOrder> = req.body;
+
+      if (providerFor(paymentInfo).devOnly && process.env.NODE_ENV === "PRODUCTION") {
+        return next(new ErrorHandler(`${providerFor(paymentInfo).label} aren't available in production`, 400));
+      }
+
+      // prices, shops and variants come from the database, not from the client
+      const { lines, error } = await priceCart(cart);
+
+      if (error) {
+        return next(new ErrorHandler(error, 400));
+      }
+
+      const coupon = couponCode ? await CouponCode.findOne({ name: couponCode }) : null;
+
+      if (couponCode && !coupon) {
+        return next(new ErrorHandler("Coupon code doesn't exist!", 400));
+      }
+
+      const shopOrders = priceOrders(lines, coupon);
+      const total = roundMoney(shopOrders.reduce((sum, shopOrder) => sum + shopOrder.totalPrice, 0));
+
+      // the buyer has to have seen the price they're charged
+      if (Math.abs(total - totalPrice) > 0.01) {
+        return next(new ErrorHandler(`Prices have changed, the order total is now ${total.toFixed(2)}`, 400));
       }
 
-      //   group cart items by shopId
-      const shopItemsMap = new Map();
+      // hold the stock before any order exists, so a short cart creates nothing
+      const short = await reserveCart(lines);
+
+      if (short) {
+        const product = short.kind === "event" ? await Event.findById(short._id) : await Product.findById(short._id);
+        const stock = short.variantId && product instanceof Product ? product.variants.id(short.variantId) : product;
+
+        if (!product || !stock) {
+          return next(new ErrorHandler("A product in your cart is no longer available", 400));
+        }
 
-      for (const item of cart) {// Log individual item
-  const shopId = item.shopId;
-  const itemsForShop = shopItemsMap.get(shopId) || [];
-  itemsForShop.push(item);
-  shopItemsMap.set(shopId, itemsForShop);
+        return next(new ErrorHandler(`Only ${Math.max(stock.stock - (stock.reserved || 0), 0)} of ${product.name} left in stock`, 400));
       }
 
+      const reservation = {
+        status: "held",
+        expiresAt: isAwaitingPayment(paymentInfo) ? reservationExpiry() : undefined,
+      };
+
+      // paid through /payment/process and marked paid by the provider's webhook
+      const payment = { type: paymentInfo.type, status: "Pending" };
+
+      const user = {
+        _id: String(req.user._id),
+        name: req.user.name,
+        email: req.user.email,
+        phoneNumber: req.user.phoneNumber,
+      };
 
       // create an order for each shop
-      const orders = [];
-
-      for (const [shopId, items] of shopItemsMap) {
-        const order = await Order.create({
-          cart: items,
-          shippingAddress,
-          user,
-          totalPrice,
-          paymentInfo,
-        });
+      const orders: IOrder[] = [];
+      const usedCoupons: string[] = [];
+
+      try {
+        for (const { shopId, ...totals } of shopOrders) {
+          await applyCommission(shopId, totals.cart, totals.discount);
+
+          const order = await Order.create({
+            ...totals,
+            shippingAddress,
+            user,
+            paymentInfo: payment,
+            reservation,
+            statusHistory: [{ status: "Processing", at: new Date(), actor: { role: "buyer", id: user._id, name: user.name } }],
+          });
+
+          orders.push(order);
+
+          if (totals.couponCode) {
+            await CouponCode.updateOne({ name: totals.couponCode }, { $inc: { usedCount: 1 } });
+            usedCoupons.push(totals.couponCode);
+          }
+        }
+      } catch (error) {
+        // the buyer never saw these orders, so the whole checkout is undone and can simply be tried again
+        await Order.deleteMany({ _id: { $in: orders.map((order) => order._id) } });
+        for (const name of usedCoupons) {
+          await CouponCode.updateOne({ name, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+        }
+        for (const line of lines) {
+          await releaseStock(line);
+        }
+        throw error;
+      }
 
-        orders.push(order);
+      // orders paid by card are confirmed once the provider's webhook says they're paid
+      if (!isAwaitingPayment(paymentInfo)) {
+        sendOrderConfirmations(orders).catch((error: Error) => {
+          console.log(`Error sending order confirmation: ${error.message}`);
+        });
       }
 
       res.status(201).json({
@@ -404,6 +146,7 @@ router.post(
 // get all orders of user
 router.get(
   "/get-all-orders/:userId",
+  validate(schema.getAllOrders),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const orders = await Order.find({ "user._id": req.params.userId }).sort({
@@ -427,6 +170,7 @@ router.get(
 // get all orders of seller
 router.get(
   "/get-seller-all-orders/:shopId",
+  validate(schema.getSellerAllOrders),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const orders  = await Order.find({
@@ -453,55 +197,76 @@ router.get(
 router.put(
   "/update-order-status/:id",
   isSeller,
-  catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
+  sellerCan("orders"),
+  validate(schema.updateOrderStatus),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
     try {
+      const { status, note }: ValidatedBody<typeof schema.updateOrderStatus> = req.body;
       const order = await Order.findById(req.params.id);
 
       if (!order) {
         return next(new ErrorHandler("Order not found with this id", 400));
       }
-      if (req.body.status === "Transferred to delivery partner") {
-        for (const o of order.cart) {
-          await updateOrder(o._id, o.qty);
-        }
-      }
 
-      order.status = req.body.status;
+      if (orderShopId(order) !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only update orders of your own shop", 403));
+      }
 
-      if (req.body.status === "Delivered") {
-        order.deliveredAt = new Date()
-        order.paymentInfo.status = "Succeeded";
-        const serviceCharge = order.totalPrice * 0.10;
-        await updateSellerInfo(order.totalPrice - serviceCharge);
+      const actor = sellerActor(req)!;
+      const invalid = await advanceOrder(order, status, sellerStatusActor(actor), note);
+      if (invalid) {
+        return next(invalid);
       }
 
+      order.updatedBy = actor;
       await order.save({ validateBeforeSave: false });
 
       res.status(200).json({
         success: true,
         order,
       });
+    } catch (error) {
+       if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
 
-      async function updateOrder(id: string, qty: number) {
-        const product = await Product.findById(id);
+// give a refund ----- user
+router.put(
+  "/order-refund/:id",
+  isAuthenticated,
+  validate(schema.orderRefund),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { status, note }: ValidatedBody<typeof schema.orderRefund> = req.body;
+      const order = await Order.findById(req.params.id);
 
-       if (product && product.sold_out !== undefined) {
-    product.stock -= qty;
-    product.sold_out += qty;
-    await product.save({ validateBeforeSave: false });
-  }
+      if (!order) {
+        return next(new ErrorHandler("Order not found with this id", 400));
       }
 
-      async function updateSellerInfo(amount: number) {
-        const seller = await Shop.findById(req?.seller?.id);
+      if (order.user?._id !== String(req.user._id)) {
+        return next(new ErrorHandler("You can only request refunds for your own orders", 403));
+      }
 
-        if (seller) {
-          seller.availableBalance = amount;
-          await seller.save();
-        }
+      const invalid = await advanceOrder(order, status, { role: "buyer", id: String(req.user._id), name: req.user.name }, note);
+      if (invalid) {
+        return next(invalid);
       }
+
+      await order.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        order,
+        message: "Order Refund Request successfully!",
+      });
     } catch (error) {
-       if (error instanceof Error) {
+      if (error instanceof Error) {
         return next(new ErrorHandler(error.message, 500));
       } else {
         return next(new ErrorHandler('An unknown error occurred', 500));
@@ -510,25 +275,35 @@ router.put(
   })
 );
 
-// give a refund ----- user
+// cancel an order before it ships ----- user
 router.put(
-  "/order-refund/:id",
-  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+  "/cancel-order/:id",
+  isAuthenticated,
+  validate(schema.cancelOrder),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
     try {
+      const { reason }: ValidatedBody<typeof schema.cancelOrder> = req.body;
       const order = await Order.findById(req.params.id);
 
       if (!order) {
-        return next(new ErrorHandler("Order not found with this id", 400));
+        return next(new ErrorHandler("Order not found with this id", 404));
+      }
+
+      if (order.user?._id !== String(req.user._id)) {
+        return next(new ErrorHandler("You can only cancel your own orders", 403));
       }
 
-      order.status = req.body.status;
+      const invalid = await advanceOrder(order, "Cancelled", { role: "buyer", id: String(req.user._id), name: req.user.name }, reason);
+      if (invalid) {
+        return next(invalid);
+      }
 
       await order.save({ validateBeforeSave: false });
 
       res.status(200).json({
         success: true,
         order,
-        message: "Order Refund Request successfully!",
+        message: "Order cancelled successfully!",
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -544,38 +319,223 @@ router.put(
 router.put(
   "/order-refund-success/:id",
   isSeller,
-  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+  sellerCan("orders"),
+  validate(schema.orderRefundSuccess),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
     try {
+      const { status, note, amount }: ValidatedBody<typeof schema.orderRefundSuccess> = req.body;
       const order = await Order.findById(req.params.id);
 
       if (!order) {
         return next(new ErrorHandler("Order not found with this id", 400));
       }
 
-      order.status = req.body.status;
+      if (orderShopId(order) !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only refund orders of your own shop", 403));
+      }
+
+      const actor = sellerActor(req)!;
+      const invalid = await advanceOrder(order, status, sellerStatusActor(actor), note, amount);
+      if (invalid) {
+        return next(invalid);
+      }
 
+      order.updatedBy = actor;
       await order.save();
 
+      const refund = order.refunds[order.refunds.length - 1];
+
       res.status(200).json({
         success: true,
-        message: "Order Refund successful!",
+        order,
+        message: refund?.status === "retrying"
+          ? "Refund approved, the payment provider is unavailable so it will be retried"
+          : "Order Refund successful!",
       });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
 
-      if (req.body.status === "Refund Success") {
-        for (const o of order.cart) {
-          await updateOrder(o._id, o.qty);
-        }
+// status history of an order ---- user
+router.get(
+  "/order-timeline/:id",
+  isAuthenticated,
+  validate(schema.orderTimeline),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const order = await Order.findById(req.params.id);
+
+      if (!order) {
+        return next(new ErrorHandler("Order not found with this id", 404));
       }
 
-      async function updateOrder(id: string, qty: number) {
-        const product = await Product.findById(id);
+      if (order.user?._id !== String(req.user._id)) {
+        return next(new ErrorHandler("You can only view your own orders", 403));
+      }
 
-        if (product) {
-          product.stock += qty;
-          product.sold_out = (product.sold_out || 0) + qty;
-          await product.save({ validateBeforeSave: false });
-        }
+      res.status(200).json({
+        success: true,
+        status: order.status,
+        timeline: orderTimeline(order),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// status history of an order ---- seller
+router.get(
+  "/seller-order-timeline/:id",
+  isSeller,
+  sellerCan("orders"),
+  validate(schema.sellerOrderTimeline),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const order = await Order.findById(req.params.id);
+
+      if (!order) {
+        return next(new ErrorHandler("Order not found with this id", 404));
+      }
+
+      if (orderShopId(order) !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only view orders of your own shop", 403));
+      }
+
+      res.status(200).json({
+        success: true,
+        status: order.status,
+        timeline: orderTimeline(order),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// invoice of an order ---- user
+router.get(
+  "/invoice/:id",
+  isAuthenticated,
+  validate(schema.orderInvoice),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const order = await Order.findById(req.params.id);
+
+      if (!order) {
+        return next(new ErrorHandler("Order not found with this id", 404));
+      }
+
+      if (order.user?._id !== String(req.user._id)) {
+        return next(new ErrorHandler("You can only view your own orders", 403));
+      }
+
+      const shop = await Shop.findById(orderShopId(order));
+
+      if (!shop) {
+        return next(new ErrorHandler("Shop of this order no longer exists", 404));
+      }
+
+      // the invoice is issued once the order is paid, or placed to be paid on delivery
+      if (!order.invoiceNumber && isAwaitingPayment(order.paymentInfo) && !isPaid(order.paymentInfo)) {
+        return next(new ErrorHandler("The invoice is available once the order is paid", 400));
+      }
+
+      await assignInvoiceNumber(order);
+      const pdf = await renderInvoice(order, shop);
+
+      res.setHeader("Content-Disposition", `attachment; filename="invoice-${order.invoiceNumber}.pdf"`);
+      res.type("application/pdf").status(200).send(pdf);
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// packing slip of an order ---- seller
+router.get(
+  "/packing-slip/:id",
+  isSeller,
+  sellerCan("orders"),
+  validate(schema.packingSlip),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const order = await Order.findById(req.params.id);
+
+      if (!order) {
+        return next(new ErrorHandler("Order not found with this id", 404));
       }
+
+      if (orderShopId(order) !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only view orders of your own shop", 403));
+      }
+
+      const pdf = await renderPackingSlip(order, req.seller);
+
+      res.setHeader("Content-Disposition", `attachment; filename="packing-slip-${order._id}.pdf"`);
+      res.type("application/pdf").status(200).send(pdf);
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// update order status --- for admin
+router.put(
+  "/admin-update-order-status/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ORDERS_MANAGE),
+  validate(schema.adminUpdateOrderStatus),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { status, note }: ValidatedBody<typeof schema.adminUpdateOrderStatus> = req.body;
+      const order = await Order.findById(req.params.id);
+
+      if (!order) {
+        return next(new ErrorHandler("Order not found with this id", 404));
+      }
+
+      // both give the buyer their money back
+      if (
+        (status === "Cancelled" || status === "Refund Success") &&
+        !(await getRolePermissions(req.user.role)).includes(PERMISSIONS.ORDERS_REFUND)
+      ) {
+        return next(new ErrorHandler(`${req.user.role} can not refund orders`, 403));
+      }
+
+      const invalid = await advanceOrder(order, status, { role: "admin", id: String(req.user._id), name: req.user.name }, note);
+      if (invalid) {
+        return next(invalid);
+      }
+
+      await order.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        order,
+      });
     } catch (error) {
       if (error instanceof Error) {
         return next(new ErrorHandler(error.message, 500));
@@ -590,7 +550,8 @@ router.put(
 router.get(
   "/admin-all-orders",
   isAuthenticated,
-  isAdmin("Admin"),
+  hasPermission(PERMISSIONS.ORDERS_VIEW),
+  validate(schema.adminAllOrders),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const orders = await Order.find().sort({
@@ -1,100 +1,116 @@
 import express, { Request, Response, NextFunction } from "express";
 import catchAsyncErrors from "../middleware/catchAsyncErrors";
-import Stripe from "stripe";
+import { isAuthenticated, RequestUser } from "../middleware/auth";
+import ErrorHandler from "../utils/ErrorHandler";
+import Order from "../model/order";
+import { createOrderPayment, isPaid } from "../utils/payments";
+import { isAwaitingPayment } from "../utils/reservations";
+import { PAYMENT_PROVIDERS, completeMockPayment, providerFor } from "../utils/paymentProviders";
+import { handlePaymentEvent } from "../utils/paymentWebhooks";
+import { validate, ValidatedBody } from "../middleware/validate";
+import * as schema from "../schemas/payment";
 
 const router = express.Router();
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
-  apiVersion: "2022-11-15",
-});
-
-/**
- * @swagger
- * components:
- *   responses:
- *     InternalServerError:
- *       description: An unknown error occurred
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               message:
- *                 type: string
- */
-
-/**
- * @swagger
- * tags:
- *   name: Payments
- *   description: Endpoints for managing payment
- */
-
-/**
- * @swagger
- * /payment/process:
- *   post:
- *     summary: Create a payment intent
- *     parameters:
- *       - in: body
- *         name: amount
- *         required: true
- *         schema:
- *           type: integer
- *           description: The amount to be processed
- *     responses:
- *       200:
- *         description: Payment intent created successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 client_secret:
- *                   type: string
- *       500:
- *         $ref: '#/components/responses/InternalServerError'
- */
-
-/**
- * @swagger
- * /payment/stripeapikey:
- *   get:
- *     summary: Get the Stripe API key
- *     responses:
- *       200:
- *         description: Stripe API key retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 stripeApikey:
- *                   type: string
- *       500:
- *         $ref: '#/components/responses/InternalServerError'
- */
-
-
-// Route to create a payment intent
+
+// Route to start the payment of the user's unpaid orders
 router.post(
   "/process",
+  isAuthenticated,
+  validate(schema.processPayment),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { orderIds }: ValidatedBody<typeof schema.processPayment> = req.body;
+
+      const orders = await Order.find({ _id: { $in: orderIds }, "user._id": String(req.user._id) });
+      const payable = orders.filter(
+        (order) => order.status === "Processing" && !isPaid(order.paymentInfo) && isAwaitingPayment(order.paymentInfo)
+      );
+
+      if (payable.length !== new Set(orderIds).size) {
+        return next(new ErrorHandler("Some of these orders aren't yours or don't need paying", 400));
+      }
+
+      // one payment goes to one provider
+      if (new Set(payable.map((order) => providerFor(order.paymentInfo).name)).size > 1) {
+        return next(new ErrorHandler("These orders are paid in different ways, please pay them one at a time", 400));
+      }
+
+      // the amount comes from the orders, the webhook marks them paid
+      const myPayment = await createOrderPayment(payable);
+
+      if (!myPayment) {
+        return next(new ErrorHandler("These orders aren't paid at checkout", 400));
+      }
+
+      res.status(200).json({
+        success: true,
+        provider: providerFor(payable[0].paymentInfo).name,
+        paymentId: myPayment.id,
+        client_secret: myPayment.clientSecret,
+        amount: myPayment.amount,
+        currency: myPayment.currency,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  })
+);
+
+// payment provider events --- the raw body is kept in app.ts for the signature
+router.post(
+  "/webhook/:provider",
+  validate(schema.providerWebhook),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    const provider = PAYMENT_PROVIDERS[req.params.provider];
+
+    if (!provider.parseWebhook) {
+      return next(new ErrorHandler(`${provider.label} doesn't send payment events`, 404));
+    }
+
+    let event;
+
+    try {
+      event = await provider.parseWebhook(req.body, req.headers);
+    } catch (error) {
+      return next(new ErrorHandler("Webhook could not be verified", 400));
+    }
+
     try {
-      const { amount } = req.body;
-
-      const myPayment = await stripe.paymentIntents.create({
-        amount,
-        currency: "usd",
-        metadata: {
-          company: "oshop",
-        },
+      const handled = await handlePaymentEvent(provider, event);
+
+      res.status(200).json({
+        success: true,
+        received: event.id,
+        duplicate: !handled,
       });
+    } catch (error) {
+      return next(error);
+    }
+  })
+);
+
+// pay or fail a mock payment, as the buyer would --- development only
+router.post(
+  "/mock/complete/:paymentId",
+  validate(schema.completeMockPayment),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (process.env.NODE_ENV === "PRODUCTION") {
+        return next(new ErrorHandler("Mock payments aren't available in production", 404));
+      }
+
+      const { outcome }: ValidatedBody<typeof schema.completeMockPayment> = req.body;
+      const event = completeMockPayment(req.params.paymentId, outcome);
+
+      if (!event) {
+        return next(new ErrorHandler("No pending mock payment with this id", 404));
+      }
+
+      await handlePaymentEvent(PAYMENT_PROVIDERS.mock, event);
 
       res.status(200).json({
         success: true,
-        client_secret: myPayment.client_secret,
+        event,
       });
     } catch (error) {
       return next(error);
@@ -105,6 +121,7 @@ router.post(
 // Route to get the Stripe API key
 router.get(
   "/stripeapikey",
+  validate(schema.stripeApiKey),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       res.status(200).json({ stripeApikey: process.env.STRIPE_API_KEY });
@@ -1,239 +1,37 @@
 import express, { Request, Response, NextFunction } from "express";
+import { isValidObjectId } from "mongoose";
 import catchAsyncErrors from "../middleware/catchAsyncErrors";
 import cloudinary from "cloudinary";
 import ErrorHandler from "../utils/ErrorHandler";
-import { isSeller, isAuthenticated, isAdmin } from "../middleware/auth";
-import Product from "../model/product";
+import { isSeller, isAuthenticated, hasPermission, sellerCan, sellerActor, RequestUser } from "../middleware/auth";
+import { PERMISSIONS } from "../utils/permissions";
+import Product, { IProduct } from "../model/product";
 import Order from "../model/order";
 import Shop from "../model/shop";
+import ProductRevision from "../model/productRevision";
+import Category from "../model/category";
+import { diffProductFields, recordProductRevision, summarizeVariants } from "../utils/productRevision";
+import { checkVariantOptions, saveVariants, VariantFields } from "../utils/variants";
+import { categoryFilter } from "../utils/categories";
+import { lowStockThreshold, availableOf, salesSince, checkStockEdit } from "../utils/stockAlerts";
+import {
+  parseCatalogCsv,
+  parseCatalogJson,
+  rowOfIssue,
+  toCatalogItem,
+  catalogToCsv,
+  saveCatalogItem,
+  MAX_CATALOG_ITEMS,
+  CatalogAction,
+  CatalogEntry,
+  CatalogError,
+  CatalogItem,
+} from "../utils/catalog";
+import { buildProductSearch, encodeCursor, PRICE_BUCKETS } from "../utils/productSearch";
+import { validate, ValidatedBody, ValidatedRequest } from "../middleware/validate";
+import * as schema from "../schemas/product";
 
 const router = express.Router();
-/**
- * @swagger
- * components:
- *   schemas:
- *     Image:
- *       type: object
- *       properties:
- *         public_id:
- *           type: string
- *           description: The public ID of the image
- *         url:
- *           type: string
- *           description: The URL of the image
- *     Review:
- *       type: object
- *       properties:
- *         user:
- *           type: object
- *           description: The user who wrote the review
- *         rating:
- *           type: number
- *           description: The rating given by the user
- *         comment:
- *           type: string
- *           description: The comment made by the user
- *         productId:
- *           type: string
- *           description: The ID of the product being reviewed
- *         createdAt:
- *           type: string
- *           format: date-time
- *           description: The creation date of the review
- *     Product:
- *       type: object
- *       properties:
- *         name:
- *           type: string
- *           description: The name of the product
- *         description:
- *           type: string
- *           description: The description of the product
- *         category:
- *           type: string
- *           description: The category of the product
- *         tags:
- *           type: string
- *           description: The tags associated with the product
- *         originalPrice:
- *           type: number
- *           description: The original price of the product
- *         discountPrice:
- *           type: number
- *           description: The discounted price of the product
- *         stock:
- *           type: number
- *           description: The stock of the product
- *         images:
- *           type: array
- *           items:
- *             $ref: '#/components/schemas/Image'
- *           description: The images of the product
- *         reviews:
- *           type: array
- *           items:
- *             $ref: '#/components/schemas/Review'
- *           description: The reviews of the product
- *         ratings:
- *           type: number
- *           description: The ratings of the product
- *         shopId:
- *           type: string
- *           description: The ID of the shop
- *         shop:
- *           type: object
- *           description: The shop object
- *         sold_out:
- *           type: number
- *           description: The sold-out status of the product
- *         createdAt:
- *           type: string
- *           format: date-time
- *           description: The creation date of the product
- *       required:
- *         - name
- *         - description
- *         - category
- *         - discountPrice
- *         - stock
- *         - images
- *         - shopId
- *         - shop
- */
-
-
-/**
- * @swagger
- * /product/create-product:
- *   post:
- *     summary: Create a new product
- *     tags: [Products]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/Product'
- *     responses:
- *       201:
- *         description: The product was successfully created
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Product'
- *       400:
- *         description: Invalid shop ID
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /product/get-all-products-shop/{id}:
- *   get:
- *     summary: Get all products of a shop
- *     tags: [Products]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: The shop ID
- *     responses:
- *       201:
- *         description: Successfully retrieved products
- *         content:
- *           application/json:
- *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Product'
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /product/delete-shop-product/{id}:
- *   delete:
- *     summary: Delete a product of a shop
- *     tags: [Products]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: The product ID
- *     responses:
- *       201:
- *         description: Product deleted successfully
- *       404:
- *         description: Product not found with this ID
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /product/get-all-products:
- *   get:
- *     summary: Get all products
- *     tags: [Products]
- *     responses:
- *       201:
- *         description: Successfully retrieved products
- *         content:
- *           application/json:
- *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Product'
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /product/create-new-review:
- *   put:
- *     summary: Create a new review for a product
- *     tags: [Reviews]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/Review'
- *     responses:
- *       200:
- *         description: Reviewed successfully
- *       404:
- *         description: Product not found with this ID
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /product/admin-all-products:
- *   get:
- *     summary: Get all products (for admin)
- *     tags: [Products]
- *     responses:
- *       201:
- *         description: Successfully retrieved products
- *         content:
- *           application/json:
- *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Product'
- *       500:
- *         description: An unknown error occurred
- */
-
 
 interface Review {
   _id: string; // Add the _id property
@@ -254,15 +52,41 @@ interface AuthenticatedRequest extends Request {
   user?: User;
 }
 
+interface ProductImage {
+  public_id: string;
+  url: string;
+}
+
+// uploads go into `uploaded` as well, so callers can remove them again on failure
+const uploadImages = async (images: string[], uploaded: ProductImage[] = []): Promise<ProductImage[]> => {
+  const links: ProductImage[] = [];
+
+  for (const image of images) {
+    const result = await cloudinary.v2.uploader.upload(image, {
+      folder: "products",
+    });
+
+    const link = { public_id: result.public_id, url: result.secure_url };
+    links.push(link);
+    uploaded.push(link);
+  }
+
+  return links;
+};
+
 // create product
 router.post(
   "/create-product",
-  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+  isSeller,
+  sellerCan("catalog"),
+  validate(schema.createProduct),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
     try {
-      const shopId = req.body.shopId;
-      const shop = await Shop.findById(shopId);
+      const shop = await Shop.findById(req.seller._id);
       if (!shop) {
         return next(new ErrorHandler("Shop Id is invalid!", 400));
+      } else if (!(await Category.exists({ _id: req.body.category }))) {
+        return next(new ErrorHandler("Category not found", 400));
       } else {
         let images: string[] = [];
 
@@ -287,7 +111,14 @@ router.post(
 
         const productData = req.body;
         productData.images = imagesLinks;
+
+        for (const variant of productData.variants) {
+          variant.images = await uploadImages(variant.images || []);
+        }
+
+        productData.shopId = String(shop._id);
         productData.shop = shop;
+        productData.updatedBy = sellerActor(req);
 
         const product = await Product.create(productData);
 
@@ -309,6 +140,7 @@ router.post(
 // get all products of a shop
 router.get(
   "/get-all-products-shop/:id",
+  validate(schema.getAllProductsShop),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const products = await Product.find({ shopId: req.params.id });
@@ -331,7 +163,9 @@ router.get(
 router.delete(
   "/delete-shop-product/:id",
   isSeller,
-  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+  sellerCan("catalog"),
+  validate(schema.deleteShopProduct),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
     try {
       const product = await Product.findById(req.params.id);
 
@@ -339,7 +173,11 @@ router.delete(
         return next(new ErrorHandler("Product is not found with this id", 404));
       }
 
-      for (let i = 0; 1 < product.images.length; i++) {
+      if (product.shopId !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only delete products of your own shop", 403));
+      }
+
+      for (let i = 0; i < product.images.length; i++) {
         const result = await cloudinary.v2.uploader.destroy(
           product.images[i].public_id
         );
@@ -362,12 +200,456 @@ router.delete(
   })
 );
 
+// update product of a shop
+router.put(
+  "/update-product/:id",
+  isSeller,
+  sellerCan("catalog"),
+  validate(schema.updateProduct),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const product = await Product.findById(req.params.id);
+
+      if (!product) {
+        return next(new ErrorHandler("Product not found with this id", 404));
+      }
+
+      if (product.shopId !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only update products of your own shop", 403));
+      }
+
+      const { addImages = [], removeImages = [], imageOrder, options, variants, ...fields }: ValidatedBody<typeof schema.updateProduct> = req.body;
+
+      const nextOptions = options || product.options;
+
+      if (fields.category && !(await Category.exists({ _id: fields.category }))) {
+        return next(new ErrorHandler("Category not found", 400));
+      }
+
+      const variantError = checkVariantOptions(nextOptions, variants || product.variants);
+      if (variantError) {
+        return next(new ErrorHandler(variantError, 400));
+      }
+
+      const unknownVariants = (variants || []).filter((variant) => variant._id && !product.variants.id(variant._id));
+      if (unknownVariants.length) {
+        return next(new ErrorHandler(`Unknown variants: ${unknownVariants.map((variant) => variant.sku).join(", ")}`, 400));
+      }
+
+      // stock and price of a product with variants come from the variants
+      if ((variants || product.variants).length) {
+        delete fields.stock;
+        delete fields.discountPrice;
+      }
+
+      const changes = diffProductFields(product, fields);
+      // the product as it was, for the stock alerts
+      const previous = Product.hydrate(product.toObject());
+
+      const previousImageIds = product.images.map((image) => image.public_id);
+      const unknownImages = [...removeImages, ...(imageOrder || [])].filter((id) => !previousImageIds.includes(id));
+
+      if (unknownImages.length) {
+        return next(new ErrorHandler(`Unknown images: ${unknownImages.join(", ")}`, 400));
+      }
+
+      let images = product.images.filter((image) => !removeImages.includes(image.public_id));
+
+      if (imageOrder) {
+        const complete = imageOrder.length === images.length &&
+          images.every((image) => imageOrder.includes(image.public_id));
+
+        if (!complete) {
+          return next(new ErrorHandler("Image order must list every remaining image once", 400));
+        }
+
+        images = imageOrder.map((id) => images.find((image) => image.public_id === id)!);
+      }
+
+      if (!images.length && !addImages.length) {
+        return next(new ErrorHandler("A product needs at least one image", 400));
+      }
+
+      // new uploads, cleaned up again if the update fails
+      const uploaded: ProductImage[] = [];
+      // replaced images, deleted from Cloudinary once the update is saved
+      const replaced = [...removeImages];
+      let nextVariants: VariantFields[] | undefined;
+
+      try {
+        const added = await uploadImages(addImages, uploaded);
+        const nextImageIds = [...images, ...added].map((image) => image.public_id);
+
+        if (nextImageIds.join() !== previousImageIds.join()) {
+          changes.push({ field: "images", from: previousImageIds, to: nextImageIds });
+        }
+
+        if (options && JSON.stringify(options) !== JSON.stringify(product.options)) {
+          changes.push({ field: "options", from: product.options, to: options });
+        }
+
+        if (variants) {
+          nextVariants = [];
+
+          for (const { images: variantImages, ...variant } of variants) {
+            const existing = variant._id ? product.variants.id(variant._id) : null;
+
+            if (variantImages && existing) {
+              replaced.push(...existing.images.map((image) => image.public_id));
+            }
+
+            nextVariants.push({
+              ...variant,
+              images: variantImages ? await uploadImages(variantImages, uploaded) : existing?.images || [],
+            });
+          }
+
+          for (const existing of product.variants) {
+            if (!variants.some((variant) => variant._id === String(existing._id))) {
+              replaced.push(...existing.images.map((image) => image.public_id));
+            }
+          }
+
+          const from = summarizeVariants(product.variants);
+          const to = summarizeVariants(nextVariants);
+          const newVariantImages = variants.some((variant) => variant.images);
+          if (JSON.stringify(from) !== JSON.stringify(to) || newVariantImages) {
+            changes.push({ field: "variants", from, to });
+          }
+        }
+
+        if (!changes.length) {
+          return res.status(200).json({
+            success: true,
+            product,
+          });
+        }
+
+        product.set(fields);
+        if (options) {
+          product.set("options", options);
+        }
+        product.images = [...images, ...added];
+        product.updatedBy = sellerActor(req);
+
+        await product.save();
+
+        if (nextVariants) {
+          await saveVariants(product._id, nextVariants);
+        }
+      } catch (error) {
+        // don't leave orphaned uploads behind when the update fails
+        await Promise.all(uploaded.map((image) => cloudinary.v2.uploader.destroy(image.public_id).catch(() => undefined)));
+        throw error;
+      }
+
+      await recordProductRevision(product, changes, product.updatedBy);
+
+      await Promise.all(replaced.map((id) => cloudinary.v2.uploader.destroy(id).catch(() => undefined)));
+
+      checkStockEdit(previous, fields.stock, nextVariants).catch((error: Error) => {
+        console.log(`Error sending stock alert: ${error.message}`);
+      });
+
+      res.status(200).json({
+        success: true,
+        product: nextVariants ? await Product.findById(product._id) : product,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// change history of a product --- seller
+router.get(
+  "/product-revisions/:id",
+  isSeller,
+  sellerCan("catalog"),
+  validate(schema.productRevisions),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const product = await Product.findById(req.params.id);
+
+      if (!product) {
+        return next(new ErrorHandler("Product not found with this id", 404));
+      }
+
+      if (product.shopId !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only view products of your own shop", 403));
+      }
+
+      const revisions = await ProductRevision.find({ productId: req.params.id }).sort({ createdAt: -1 });
+
+      res.status(200).json({
+        success: true,
+        revisions,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// products running out, with how fast they sell --- seller
+router.get(
+  "/low-stock",
+  isSeller,
+  sellerCan("catalog"),
+  validate(schema.lowStock),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.lowStock, RequestUser>, res: Response, next: NextFunction) => {
+    try {
+      const { days } = req.query;
+      const shopId = String(req.seller._id);
+
+      const products = await Product.find({ shopId });
+      const sales = await salesSince(shopId, new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+      const items = [];
+
+      for (const product of products) {
+        const threshold = lowStockThreshold(product, req.seller);
+        // variants run out one by one, so they're listed on their own
+        const lines = product.variants.length
+          ? product.variants.map((variant) => ({ variant, stock: variant }))
+          : [{ variant: null, stock: product }];
+
+        for (const { variant, stock } of lines) {
+          const availableStock = availableOf(stock);
+
+          if (availableStock > threshold) {
+            continue;
+          }
+
+          const sold = sales
+            .filter((line) => line.productId === String(product._id) && (!variant || line.variantId === String(variant._id)))
+            .reduce((total, line) => total + line.sold, 0);
+          const dailySales = sold / days;
+
+          items.push({
+            _id: product._id,
+            name: product.name,
+            sku: variant ? variant.sku : product.sku,
+            variantId: variant?._id,
+            options: variant?.options,
+            stock: stock.stock,
+            reserved: stock.reserved || 0,
+            availableStock: Math.max(availableStock, 0),
+            threshold,
+            status: availableStock <= 0 ? "out_of_stock" : "low_stock",
+            dailySales: Math.round(dailySales * 100) / 100,
+            // null when nothing sold in the period
+            daysLeft: dailySales ? Math.floor(Math.max(availableStock, 0) / dailySales) : null,
+          });
+        }
+      }
+
+      // what runs out first comes first
+      items.sort((a, b) => (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity) || a.availableStock - b.availableStock);
+
+      res.status(200).json({
+        success: true,
+        days,
+        products: items,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// bulk import products --- seller
+router.post(
+  "/import-products",
+  isSeller,
+  sellerCan("catalog"),
+  validate(schema.importProducts),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { format, data, dryRun }: ValidatedBody<typeof schema.importProducts> = req.body;
+      const shopId = String(req.seller._id);
+
+      const parsed = format === "csv" ? parseCatalogCsv(data as string) : parseCatalogJson(data);
+      const errors: CatalogError[] = [...parsed.errors];
+
+      if (parsed.entries.length > MAX_CATALOG_ITEMS) {
+        return next(new ErrorHandler(`You can import up to ${MAX_CATALOG_ITEMS} products at once`, 400));
+      }
+
+      const valid: { entry: CatalogEntry; item: CatalogItem }[] = [];
+
+      for (const entry of parsed.entries) {
+        const result = schema.catalogItem.safeParse(entry.item);
+
+        if (result.success) {
+          valid.push({ entry, item: result.data });
+        } else {
+          errors.push(...result.error.issues.map((issue) => ({
+            row: rowOfIssue(entry, issue.path),
+            sku: entry.item?.sku,
+            path: issue.path.join("."),
+            message: issue.message,
+          })));
+        }
+      }
+
+      const products = await Product.find({ shopId });
+      const categoryKeys = valid.map(({ item }) => item.category);
+      const categories = await Category.find({
+        $or: [
+          { slug: { $in: categoryKeys.map((key) => key.toLowerCase()) } },
+          { _id: { $in: categoryKeys.filter((key) => isValidObjectId(key)) } },
+        ],
+      });
+
+      const seenSkus = new Map<string, number>();
+      const plan: { item: CatalogItem; row: number; existing: IProduct | null; categoryId: string }[] = [];
+
+      for (const { entry, item } of valid) {
+        const rowErrors: CatalogError[] = [];
+
+        const category = categories.find((candidate) =>
+          candidate.slug === item.category.toLowerCase() || String(candidate._id) === item.category
+        );
+        if (!category) {
+          rowErrors.push({ row: entry.row, sku: item.sku, path: "category", message: `Unknown category ${item.category}` });
+        }
+
+        // products exported before they had a SKU come back keyed on their id
+        const existing = products.find((product) => product.sku === item.sku) ||
+          products.find((product) => !product.sku && String(product._id) === item.sku) ||
+          null;
+
+        const skus = [item.sku, ...item.variants.map((variant) => variant.sku)];
+        skus.forEach((sku, index) => {
+          const row = index ? rowOfIssue(entry, ["variants", index - 1]) : entry.row;
+
+          if (seenSkus.has(sku)) {
+            rowErrors.push({ row, sku, path: "sku", message: `SKU ${sku} is also used on row ${seenSkus.get(sku)}` });
+          }
+          seenSkus.set(sku, row);
+
+          const owner = products.find((product) =>
+            product !== existing && (product.sku === sku || product.variants.some((variant) => variant.sku === sku))
+          );
+          if (owner && index) {
+            rowErrors.push({ row, sku, path: "sku", message: `SKU ${sku} already belongs to ${owner.name}` });
+          }
+          if (owner && !index && owner.sku !== sku) {
+            rowErrors.push({ row, sku, path: "sku", message: `SKU ${sku} is a variant of ${owner.name}` });
+          }
+        });
+
+        errors.push(...rowErrors);
+
+        if (!rowErrors.length && category) {
+          plan.push({ item, row: entry.row, existing, categoryId: String(category._id) });
+        }
+      }
+
+      errors.sort((a, b) => a.row - b.row);
+
+      if (errors.length && !dryRun) {
+        return next(new ErrorHandler("Import has errors, nothing was imported", 422, errors));
+      }
+
+      const rows: { row: number; sku: string; action: CatalogAction | "create" | "update" | "failed"; error?: string }[] = [];
+
+      for (const { item, row, existing, categoryId } of plan) {
+        if (dryRun) {
+          rows.push({ row, sku: item.sku, action: existing ? "update" : "create" });
+          continue;
+        }
+
+        try {
+          const action = await saveCatalogItem(existing, item, categoryId, req.seller, sellerActor(req));
+          rows.push({ row, sku: item.sku, action });
+        } catch (error) {
+          // most often an image URL that couldn't be fetched
+          rows.push({ row, sku: item.sku, action: "failed", error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      const count = (...actions: string[]) => rows.filter((row) => actions.includes(row.action)).length;
+
+      res.status(200).json({
+        success: !errors.length && !count("failed"),
+        dryRun,
+        created: count("created", "create"),
+        updated: count("updated", "update"),
+        unchanged: count("unchanged"),
+        failed: count("failed"),
+        rows,
+        errors,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// export the shop catalog --- seller
+router.get(
+  "/export-products",
+  isSeller,
+  sellerCan("catalog"),
+  validate(schema.exportProducts),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.exportProducts, RequestUser>, res: Response, next: NextFunction) => {
+    try {
+      const { format } = req.query;
+
+      const products = await Product.find({ shopId: String(req.seller._id) }).sort({ createdAt: 1 });
+      const categories = await Category.find({ _id: { $in: products.map((product) => product.category) } });
+      const slugs = new Map(categories.map((category) => [String(category._id), category.slug]));
+
+      const items = products.map((product) =>
+        toCatalogItem(product, slugs.get(String(product.category)) || String(product.category))
+      );
+
+      const filename = `catalog-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+      if (format === "csv") {
+        res.type("text/csv").status(200).send(catalogToCsv(items));
+      } else {
+        res.status(200).json(items);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
 // get all products
 router.get(
   "/get-all-products",
-  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+  validate(schema.getAllProducts),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.getAllProducts>, res: Response, next: NextFunction) => {
     try {
-      const products = await Product.find().sort({ createdAt: -1 });
+      const { category, includeSubcategories } = req.query;
+      const filter = category ? { category: { $in: await categoryFilter([category], includeSubcategories) } } : {};
+
+      const products = await Product.find(filter).sort({ createdAt: -1 });
 
       res.status(201).json({
         success: true,
@@ -383,10 +665,60 @@ router.get(
   })
 );
 
+// search products
+router.get(
+  "/search",
+  validate(schema.searchProducts),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.searchProducts>, res: Response, next: NextFunction) => {
+    try {
+      const { includeSubcategories, ...query } = req.query;
+      const category = query.category && await categoryFilter(query.category, includeSubcategories);
+
+      const [result] = await Product.aggregate(buildProductSearch({ ...query, category }));
+
+      const hasMore = result.products.length > query.limit;
+      const page = result.products.slice(0, query.limit);
+      const last = page[page.length - 1];
+
+      const facetCategories = await Category.find({ _id: { $in: result.categories.map((facet: { _id: string }) => facet._id) } });
+      const categoryNames = new Map(facetCategories.map((facetCategory) => [String(facetCategory._id), facetCategory.name]));
+
+      res.status(200).json({
+        success: true,
+        products: page.map(({ sortValue, ...product }: { sortValue: unknown }) => product),
+        total: result.total[0]?.count || 0,
+        facets: {
+          categories: result.categories.map(({ _id, count }: { _id: string; count: number }) => ({
+            category: _id,
+            name: categoryNames.get(String(_id)),
+            count,
+          })),
+          prices: result.prices.map(({ _id, count }: { _id: number | string; count: number }) => {
+            const index = PRICE_BUCKETS.indexOf(_id as number);
+            return {
+              min: index === -1 ? PRICE_BUCKETS[PRICE_BUCKETS.length - 1] : _id,
+              max: index === -1 ? null : PRICE_BUCKETS[index + 1],
+              count,
+            };
+          }),
+        },
+        nextCursor: hasMore ? encodeCursor(last.sortValue, last._id) : null,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
 // review for a product
 router.put(
   "/create-new-review",
   isAuthenticated,
+  validate(schema.createNewReview),
   catchAsyncErrors(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const { user, rating, comment, productId, orderId } = req.body;
@@ -405,7 +737,6 @@ router.put(
         createdAt: new Date(), // Add the createdAt property here
       };
 
-
       let isReviewed = false;
       let totalRatings = 0;
       let numReviews = product.reviews.length;
@@ -455,12 +786,12 @@ router.put(
   })
 );
 
-
 // all products --- for admin
 router.get(
   "/admin-all-products",
   isAuthenticated,
-  isAdmin("Admin"),
+  hasPermission(PERMISSIONS.CATALOG_VIEW),
+  validate(schema.adminAllProducts),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const products = await Product.find().sort({
@@ -479,4 +810,28 @@ router.get(
     }
   })
 );
+
+// change history of a product --- for admin
+router.get(
+  "/admin-product-revisions/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.CATALOG_VIEW),
+  validate(schema.adminProductRevisions),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const revisions = await ProductRevision.find({ productId: req.params.id }).sort({ createdAt: -1 });
+
+      res.status(200).json({
+        success: true,
+        revisions,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
 export default router;
@@ -0,0 +1,411 @@
+import express, { Response, NextFunction } from "express";
+import cloudinary from "cloudinary";
+import catchAsyncErrors from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { isAuthenticated, isSeller, sellerCan, sellerActor, RequestUser } from "../middleware/auth";
+import Order, { IOrder } from "../model/order";
+import ReturnRequest from "../model/returnRequest";
+import sendMail from "../utils/sendMail";
+import { applyStockChange } from "../utils/inventory";
+import { isPaid, refundableAmount } from "../utils/payments";
+import { roundMoney } from "../utils/pricing";
+import { orderShopId, refundOrder } from "../utils/orders";
+import { returnItems, moveReturn, receivedValue } from "../utils/returns";
+import { validate, ValidatedBody, ValidatedRequest } from "../middleware/validate";
+import * as schema from "../schemas/returnRequest";
+
+const router = express.Router();
+
+// keeps the buyer posted on their return
+const mailBuyer = (order: IOrder | null, subject: string, message: string) => {
+  if (!order?.user?.email) {
+    return;
+  }
+
+  sendMail({ email: order.user.email, subject, message: `Hello ${order.user.name}, ${message}` }).catch((error: Error) => {
+    console.log(`Error sending return update: ${error.message}`);
+  });
+};
+
+// ask for a return ----- user
+router.post(
+  "/create-return/:id",
+  isAuthenticated,
+  validate(schema.createReturn),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { items: requested, reason, comment, images }: ValidatedBody<typeof schema.createReturn> = req.body;
+      const order = await Order.findById(req.params.id);
+
+      if (!order) {
+        return next(new ErrorHandler("Order not found with this id", 404));
+      }
+
+      if (order.user?._id !== String(req.user._id)) {
+        return next(new ErrorHandler("You can only return items of your own orders", 403));
+      }
+
+      if (order.status !== "Delivered") {
+        return next(new ErrorHandler("Only delivered orders can be returned", 400));
+      }
+
+      const returns = await ReturnRequest.find({ orderId: String(order._id) });
+      const { items, error } = returnItems(order, returns, requested);
+
+      if (error) {
+        return next(new ErrorHandler(error, 400));
+      }
+
+      const imagesLinks: { public_id: string; url: string }[] = [];
+
+      for (const image of images) {
+        const result = await cloudinary.v2.uploader.upload(image, {
+          folder: "returns",
+        });
+
+        imagesLinks.push({
+          public_id: result.public_id,
+          url: result.secure_url,
+        });
+      }
+
+      const returnRequest = await ReturnRequest.create({
+        orderId: String(order._id),
+        shopId: orderShopId(order),
+        userId: String(req.user._id),
+        items,
+        reason,
+        comment,
+        images: imagesLinks,
+        history: [{ status: "requested", at: new Date(), actor: { role: "buyer", id: String(req.user._id), name: req.user.name }, note: comment }],
+      });
+
+      res.status(201).json({
+        success: true,
+        returnRequest,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// returns of the user
+router.get(
+  "/get-user-returns",
+  isAuthenticated,
+  validate(schema.getUserReturns),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const returns = await ReturnRequest.find({ userId: String(req.user._id) }).sort({ createdAt: -1 });
+
+      res.status(200).json({
+        success: true,
+        returns,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// returns of the shop --- seller
+router.get(
+  "/get-shop-returns",
+  isSeller,
+  sellerCan("orders"),
+  validate(schema.getShopReturns),
+  catchAsyncErrors(async (req: ValidatedRequest<typeof schema.getShopReturns, RequestUser>, res: Response, next: NextFunction) => {
+    try {
+      const { status } = req.query;
+
+      const filter: Record<string, unknown> = { shopId: String(req.seller._id) };
+      if (status) {
+        filter.status = status;
+      }
+
+      const returns = await ReturnRequest.find(filter).sort({ createdAt: -1 });
+
+      res.status(200).json({
+        success: true,
+        returns,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// approve a return --- seller
+router.put(
+  "/approve-return/:id",
+  isSeller,
+  sellerCan("orders"),
+  validate(schema.approveReturn),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { instructions, labelUrl, note }: ValidatedBody<typeof schema.approveReturn> = req.body;
+      const returnRequest = await ReturnRequest.findById(req.params.id);
+
+      if (!returnRequest) {
+        return next(new ErrorHandler("Return not found with this id", 404));
+      }
+
+      if (returnRequest.shopId !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only handle returns of your own shop", 403));
+      }
+
+      const invalid = moveReturn(returnRequest, "approved", sellerActor(req), note);
+      if (invalid) {
+        return next(invalid);
+      }
+
+      returnRequest.instructions = instructions;
+      returnRequest.labelUrl = labelUrl;
+      await returnRequest.save();
+
+      const order = await Order.findById(returnRequest.orderId);
+      mailBuyer(
+        order,
+        "Your return was approved",
+        `your return for order ${returnRequest.orderId} was approved. ${instructions}${labelUrl ? `\n\nReturn label: ${labelUrl}` : ""}`
+      );
+
+      res.status(200).json({
+        success: true,
+        returnRequest,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// reject a return --- seller
+router.put(
+  "/reject-return/:id",
+  isSeller,
+  sellerCan("orders"),
+  validate(schema.rejectReturn),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { note }: ValidatedBody<typeof schema.rejectReturn> = req.body;
+      const returnRequest = await ReturnRequest.findById(req.params.id);
+
+      if (!returnRequest) {
+        return next(new ErrorHandler("Return not found with this id", 404));
+      }
+
+      if (returnRequest.shopId !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only handle returns of your own shop", 403));
+      }
+
+      const invalid = moveReturn(returnRequest, "rejected", sellerActor(req), note);
+      if (invalid) {
+        return next(invalid);
+      }
+
+      await returnRequest.save();
+
+      const order = await Order.findById(returnRequest.orderId);
+      mailBuyer(order, "Your return was rejected", `your return for order ${returnRequest.orderId} was rejected. Reason: ${note}`);
+
+      res.status(200).json({
+        success: true,
+        returnRequest,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// inspect the returned goods --- seller
+router.put(
+  "/receive-return/:id",
+  isSeller,
+  sellerCan("orders"),
+  validate(schema.receiveReturn),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { items: inspected, note }: ValidatedBody<typeof schema.receiveReturn> = req.body;
+      const returnRequest = await ReturnRequest.findById(req.params.id);
+
+      if (!returnRequest) {
+        return next(new ErrorHandler("Return not found with this id", 404));
+      }
+
+      if (returnRequest.shopId !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only handle returns of your own shop", 403));
+      }
+
+      for (const item of inspected) {
+        const returned = returnRequest.items.find((candidate) => candidate.line === item.line);
+
+        if (!returned) {
+          return next(new ErrorHandler(`Line ${item.line} isn't part of this return`, 400));
+        }
+        if (item.receivedQty > returned.qty) {
+          return next(new ErrorHandler(`Only ${returned.qty} of ${returned.name || `line ${item.line}`} were returned`, 400));
+        }
+      }
+
+      const order = await Order.findById(returnRequest.orderId);
+
+      if (!order) {
+        return next(new ErrorHandler("Order of this return no longer exists", 400));
+      }
+
+      const invalid = moveReturn(returnRequest, "received", sellerActor(req), note);
+      if (invalid) {
+        return next(invalid);
+      }
+
+      // a second submit of the same inspection must not restock again
+      const claimed = await ReturnRequest.findOneAndUpdate(
+        { _id: returnRequest._id, status: "approved" },
+        { $set: { status: "received" } }
+      );
+      if (!claimed) {
+        return next(new ErrorHandler("This return was already handled", 400));
+      }
+
+      for (const returned of returnRequest.items) {
+        const item = inspected.find((candidate) => candidate.line === returned.line);
+        returned.receivedQty = item ? item.receivedQty : returned.qty;
+        returned.restockQty = item ? item.restockQty : returned.qty;
+      }
+
+      returnRequest.inspectionNote = note;
+      returnRequest.markModified("items");
+      await returnRequest.save();
+
+      // only what came back in a sellable state goes on the shelf
+      for (const returned of returnRequest.items) {
+        if (returned.restockQty) {
+          const line = order.cart[returned.line];
+          await applyStockChange(line, -returned.restockQty);
+        }
+      }
+
+      res.status(200).json({
+        success: true,
+        returnRequest,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// refund a return --- seller
+router.put(
+  "/refund-return/:id",
+  isSeller,
+  sellerCan("orders"),
+  validate(schema.refundReturn),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { amount: requestedAmount, note }: ValidatedBody<typeof schema.refundReturn> = req.body;
+      const returnRequest = await ReturnRequest.findById(req.params.id);
+
+      if (!returnRequest) {
+        return next(new ErrorHandler("Return not found with this id", 404));
+      }
+
+      if (returnRequest.shopId !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only handle returns of your own shop", 403));
+      }
+
+      const order = await Order.findById(returnRequest.orderId);
+
+      if (!order) {
+        return next(new ErrorHandler("Order of this return no longer exists", 400));
+      }
+
+      const invalid = moveReturn(returnRequest, "refunded", sellerActor(req), note);
+      if (invalid) {
+        return next(invalid);
+      }
+
+      const amount = roundMoney(requestedAmount ?? receivedValue(returnRequest.items));
+      const refundable = refundableAmount(order);
+
+      if (amount > refundable) {
+        return next(new ErrorHandler(`Only ${refundable.toFixed(2)} of this order can still be refunded`, 400));
+      }
+
+      // orders that weren't paid have nothing to give back
+      if (!isPaid(order.paymentInfo) || amount <= 0) {
+        return next(new ErrorHandler("This order wasn't paid, there's nothing to refund", 400));
+      }
+
+      // a second submit of the same refund must not pay the buyer again
+      const claimed = await ReturnRequest.findOneAndUpdate(
+        { _id: returnRequest._id, status: "received" },
+        { $set: { status: "refunded" } }
+      );
+      if (!claimed) {
+        return next(new ErrorHandler("This return was already handled", 400));
+      }
+
+      // a refund the provider fails on is retried, the return is done either way
+      const refund = (await refundOrder(
+        order,
+        amount,
+        `Return ${returnRequest._id}`,
+        returnRequest.items.map((item) => ({ line: item.line, qty: item.receivedQty ?? item.qty }))
+      ))!;
+
+      await order.save({ validateBeforeSave: false });
+
+      returnRequest.refund = {
+        provider: refund.provider,
+        id: refund.id,
+        amount,
+        sellerAmount: refund.sellerAmount || 0,
+        createdAt: refund.createdAt,
+      };
+      await returnRequest.save();
+
+      mailBuyer(order, "Your return was refunded", `${amount.toFixed(2)} of order ${returnRequest.orderId} was refunded.`);
+
+      res.status(200).json({
+        success: true,
+        returnRequest,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+export default router;
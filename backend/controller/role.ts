@@ -0,0 +1,203 @@
+import express, { Request, Response, NextFunction } from "express";
+import catchAsyncErrors from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { isAuthenticated, hasPermission, RequestUser } from "../middleware/auth";
+import { PERMISSIONS, ALL_PERMISSIONS } from "../utils/permissions";
+import Role from "../model/role";
+import User from "../model/user";
+import { validate } from "../middleware/validate";
+import * as schema from "../schemas/role";
+
+const router = express.Router();
+
+router.get(
+  "/permissions",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ROLES_MANAGE),
+  validate(schema.listPermissions),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    res.status(200).json({
+      success: true,
+      permissions: ALL_PERMISSIONS,
+    });
+  })
+);
+
+router.get(
+  "/all-roles",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ROLES_MANAGE),
+  validate(schema.allRoles),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const roles = await Role.find().sort({ system: -1, name: 1 });
+
+      res.status(200).json({
+        success: true,
+        roles,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.post(
+  "/create-role",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ROLES_MANAGE),
+  validate(schema.createRole),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, description, permissions } = req.body;
+
+      const roleExists = await Role.findOne({ name });
+      if (roleExists) {
+        return next(new ErrorHandler("Role already exists", 400));
+      }
+
+      const role = await Role.create({
+        name,
+        description,
+        permissions,
+      });
+
+      res.status(201).json({
+        success: true,
+        role,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.put(
+  "/update-role/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ROLES_MANAGE),
+  validate(schema.updateRole),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const role = await Role.findById(req.params.id);
+
+      if (!role) {
+        return next(new ErrorHandler("Role not found with this id", 404));
+      }
+
+      if (role.system) {
+        return next(new ErrorHandler("Built-in roles can't be changed", 400));
+      }
+
+      const { description, permissions } = req.body;
+
+      if (permissions !== undefined) {
+        role.permissions = permissions;
+      }
+
+      if (description !== undefined) {
+        role.description = description;
+      }
+
+      role.updatedAt = new Date();
+      await role.save();
+
+      res.status(200).json({
+        success: true,
+        role,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.delete(
+  "/delete-role/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ROLES_MANAGE),
+  validate(schema.deleteRole),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const role = await Role.findById(req.params.id);
+
+      if (!role) {
+        return next(new ErrorHandler("Role not found with this id", 404));
+      }
+
+      if (role.system) {
+        return next(new ErrorHandler("Built-in roles can't be deleted", 400));
+      }
+
+      const assigned = await User.countDocuments({ role: role.name });
+      if (assigned > 0) {
+        return next(new ErrorHandler(`Role is still assigned to ${assigned} users`, 400));
+      }
+
+      await Role.deleteOne({ _id: role._id });
+
+      res.status(200).json({
+        success: true,
+        message: "Role deleted successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+router.put(
+  "/assign-role/:userId",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ROLES_MANAGE),
+  validate(schema.assignRole),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { role } = req.body;
+
+      if (String(req.user._id) === req.params.userId) {
+        return next(new ErrorHandler("You can't change your own role", 400));
+      }
+
+      const roleExists = await Role.findOne({ name: role });
+      if (!roleExists) {
+        return next(new ErrorHandler("Role not found", 400));
+      }
+
+      const user = await User.findByIdAndUpdate(req.params.userId, { role }, { new: true });
+
+      if (!user) {
+        return next(new ErrorHandler("User not found", 404));
+      }
+
+      res.status(200).json({
+        success: true,
+        user,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,179 @@
+import express, { Request, Response, NextFunction } from "express";
+import catchAsyncErrors from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { isSeller, sellerCan, sellerActor, RequestUser } from "../middleware/auth";
+import Order from "../model/order";
+import { CARRIERS, SHIPMENT_STATUSES, ShipmentStatus } from "../utils/carriers";
+import { canShip, shipmentItems, applyTrackingEvent } from "../utils/shipments";
+import { sellerStatusActor } from "../utils/orderStatus";
+import { orderShopId, advanceOrder } from "../utils/orders";
+import { validate, ValidatedBody } from "../middleware/validate";
+import * as schema from "../schemas/shipment";
+
+const router = express.Router();
+
+// ship items of an order --- seller
+router.post(
+  "/create-shipment/:id",
+  isSeller,
+  sellerCan("orders"),
+  validate(schema.createShipment),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { carrier: carrierName, trackingNumber, items: requested, estimatedDelivery }: ValidatedBody<typeof schema.createShipment> = req.body;
+      const carrier = CARRIERS[carrierName];
+
+      const order = await Order.findById(req.params.id);
+
+      if (!order) {
+        return next(new ErrorHandler("Order not found with this id", 404));
+      }
+
+      if (orderShopId(order) !== String(req.seller._id)) {
+        return next(new ErrorHandler("You can only ship orders of your own shop", 403));
+      }
+
+      if (!canShip(order.status)) {
+        return next(new ErrorHandler(`Orders that are "${order.status}" can't ship`, 400));
+      }
+
+      const { items, error } = shipmentItems(order, requested);
+      if (error) {
+        return next(new ErrorHandler(error, 400));
+      }
+
+      const number = trackingNumber || carrier.createTrackingNumber?.();
+      if (!number) {
+        return next(new ErrorHandler(`Please enter the ${carrier.label} tracking number`, 400));
+      }
+
+      const actor = sellerActor(req)!;
+
+      order.shipments.push({
+        carrier: carrier.name,
+        trackingNumber: number,
+        trackingUrl: carrier.trackingUrl(number),
+        items,
+        estimatedDelivery,
+        events: [{ status: "pre_transit", at: new Date(), description: "Shipment created" }],
+        createdBy: actor,
+      });
+
+      if (order.status === "Processing") {
+        const invalid = await advanceOrder(order, "Transferred to delivery partner", sellerStatusActor(actor), `Shipped with ${carrier.label}`);
+        if (invalid) {
+          return next(invalid);
+        }
+      }
+
+      order.updatedBy = actor;
+      await order.save({ validateBeforeSave: false });
+
+      res.status(201).json({
+        success: true,
+        shipment: order.shipments[order.shipments.length - 1],
+        order,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// tracking events --- carriers
+router.post(
+  "/webhook/:carrier",
+  validate(schema.carrierWebhook),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const carrier = CARRIERS[req.params.carrier];
+
+      if (!carrier.webhook) {
+        return next(new ErrorHandler(`${carrier.label} doesn't send tracking events`, 404));
+      }
+
+      if (!carrier.webhook.verify(req)) {
+        return next(new ErrorHandler("Webhook could not be verified", 401));
+      }
+
+      let applied = 0;
+      for (const event of carrier.webhook.parse(req.body)) {
+        if (await applyTrackingEvent(carrier, event)) {
+          applied++;
+        }
+      }
+
+      // carriers retry anything but a 2xx, unknown parcels included
+      res.status(200).json({
+        success: true,
+        applied,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// move a mock parcel along, as the carrier would --- development only
+router.post(
+  "/mock-carrier/advance/:trackingNumber",
+  validate(schema.advanceMockShipment),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (process.env.NODE_ENV === "PRODUCTION") {
+        return next(new ErrorHandler("The mock carrier isn't available in production", 404));
+      }
+
+      // anyone who can reach the server could otherwise deliver parcels
+      if (!CARRIERS.mock.webhook!.verify(req)) {
+        return next(new ErrorHandler("Mock carrier secret is missing or wrong", 401));
+      }
+
+      const { status, location }: ValidatedBody<typeof schema.advanceMockShipment> = req.body;
+      const { trackingNumber } = req.params;
+
+      const order = await Order.findOne({
+        shipments: { $elemMatch: { carrier: "mock", trackingNumber } },
+      });
+      const shipment = order?.shipments.find(
+        (candidate: { carrier: string; trackingNumber: string }) => candidate.carrier === "mock" && candidate.trackingNumber === trackingNumber
+      );
+
+      if (!shipment) {
+        return next(new ErrorHandler("No mock carrier parcel with this tracking number", 404));
+      }
+
+      if (shipment.status === "delivered") {
+        return next(new ErrorHandler("Parcel is already delivered", 400));
+      }
+
+      // by default the parcel takes the next step, an exception goes back on the road
+      const step = SHIPMENT_STATUSES.indexOf(shipment.status);
+      const nextStatus: ShipmentStatus = status || (shipment.status === "exception" ? "in_transit" : SHIPMENT_STATUSES[step + 1]);
+
+      const event = { trackingNumber, status: nextStatus, at: new Date(), description: "Mock carrier update", location };
+      await applyTrackingEvent(CARRIERS.mock, event);
+
+      res.status(200).json({
+        success: true,
+        event,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+export default router;
@@ -1,332 +1,46 @@
 import express, { Request, Response, NextFunction } from "express";
 import jwt, { Secret } from "jsonwebtoken";
+import crypto from "crypto";
 import cloudinary from "cloudinary";
 import Shop, { IShop } from "../model/shop";
-import { isAuthenticated, isSeller, isAdmin } from "../middleware/auth";
+import Staff from "../model/staff";
+import { isAuthenticated, isSeller, isShopOwner, hasPermission, RequestUser, requireSellerTotp } from "../middleware/auth";
+import { PERMISSIONS } from "../utils/permissions";
 import catchAsyncErrors from "../middleware/catchAsyncErrors";
 import ErrorHandler from "../utils/ErrorHandler";
-import sendShopToken from "../utils/shopToken";
+import sendShopToken, { sendStaffToken, clearShopToken } from "../utils/shopToken";
 import sendMail from "../utils/sendMail";
+import {
+  rotateSession,
+  revokeSessionByRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  getActiveSessions,
+} from "../utils/session";
+import {
+  generateTotpSecret,
+  buildOtpauthUrl,
+  verifyTotp,
+  generateRecoveryCodes,
+  verifySecondFactor,
+  createTwoFactorLoginToken,
+  verifyTwoFactorLoginToken,
+} from "../utils/totp";
+import { limitByIp, limitByEmail, resetEmailLimit } from "../middleware/rateLimit";
+import { isAccountLocked, lockedMessage, registerFailedLogin, clearFailedLogins } from "../utils/lockout";
+import { validate } from "../middleware/validate";
+import * as schema from "../schemas/shop";
 
 const router = express.Router();
 
 interface RequestWithSeller extends Request {
   seller?: IShop; // Replace 'IShop' with the actual type of the seller property
 }
-/**
- * @swagger
- * components:
- *   schemas:
- *     Shop:
- *       type: object
- *       properties:
- *         name:
- *           type: string
- *         email:
- *           type: string
- *         password:
- *           type: string
- *         avatar:
- *           type: object
- *           properties:
- *             public_id:
- *               type: string
- *             url:
- *               type: string
- *         address:
- *           type: string
- *         phoneNumber:
- *           type: number
- *         zipCode:
- *           type: number
- *       required:
- *         - name
- *         - email
- *         - password
- *         - avatar
- *         - address
- *         - phoneNumber
- *         - zipCode
- */
-
 
 // create shop
-/**
- * @swagger
- * tags:
- *   name: Shop
- *   description: Shop management
- * components:
- *   schemas:
- *     Shop:
- *       type: object
- *       properties:
- *         name:
- *           type: string
- *         email:
- *           type: string
- *         password:
- *           type: string
- *         avatar:
- *           type: object
- *           properties:
- *             public_id:
- *               type: string
- *             url:
- *               type: string
- *         address:
- *           type: string
- *         phoneNumber:
- *           type: number
- *         zipCode:
- *           type: number
- *       required:
- *         - name
- *         - email
- *         - password
- *         - avatar
- *         - address
- *         - phoneNumber
- *         - zipCode
- */
-
-/**
- * @swagger
- * /shop/create-shop:
- *   post:
- *     summary: Create a new shop
- *     tags: [Shop]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/Shop'
- *     responses:
- *       201:
- *         description: Shop created successfully
- *       400:
- *         description: User already exists
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/activation:
- *   post:
- *     summary: Activate user
- *     tags: [Shop]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               activation_token:
- *                 type: string
- *     responses:
- *       201:
- *         description: Success
- *       400:
- *         description: Invalid token or User not found
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/login-shop:
- *   post:
- *     summary: Login shop
- *     tags: [Shop]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               email:
- *                 type: string
- *               password:
- *                 type: string
- *     responses:
- *       201:
- *         description: Success
- *       400:
- *         description: Invalid email or password or Missing fields
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/getSeller:
- *   get:
- *     summary: Get seller information
- *     tags: [Shop]
- *     security:
- *       - bearerAuth: []
- *     responses:
- *       200:
- *         description: Success
- *       400:
- *         description: User doesn't exist
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/logout:
- *   get:
- *     summary: Log out from shop
- *     tags: [Shop]
- *     responses:
- *       201:
- *         description: Log out successful
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/get-shop-info/{id}:
- *   get:
- *     summary: Get shop information
- *     tags: [Shop]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       201:
- *         description: Success
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/update-shop-avatar:
- *   put:
- *     summary: Update shop profile picture
- *     tags: [Shop]
- *     security:
- *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               avatar:
- *                 type: string
- *     responses:
- *       200:
- *         description: Success
- *       404:
- *         description: Seller not found
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/update-seller-info:
- *   put:
- *     summary: Update seller information
- *     tags: [Shop]
- *     security:
- *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/Shop'
- *     responses:
- *       201:
- *         description: Success
- *       400:
- *         description: User not found
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/admin-all-sellers:
- *   get:
- *     summary: Get all sellers (Admin only)
- *     tags: [Shop]
- *     security:
- *       - bearerAuth: []
- *     responses:
- *       201:
- *         description: Success
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/delete-seller/{id}:
- *   delete:
- *     summary: Delete seller (Admin only)
- *     tags: [Shop]
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       201:
- *         description: Seller deleted successfully
- *       400:
- *         description: Seller not available with this id
- *       500:
- *         description: An unknown error occurred
- */
-
-/**
- * @swagger
- * /shop/update-payment-methods:
- *   put:
- *     summary: Update seller withdraw methods
- *     tags: [Shop]
- *     security:
- *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               paymentMethods:
- *                 type: array
- *                 items:
- *                   type: string
- *     responses:
- *       201:
- *         description: Success
- *       400:
- *         description: User not found
- *       500:
- *         description: An unknown error occurred
- */
-
 router.post(
   "/create-shop",
+  validate(schema.createShop),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { email } = req.body;
@@ -356,7 +70,7 @@ router.post(
 
       const activationToken = createActivationToken(seller);
 
-      const activationUrl = `http://localhost:8000/api/v2/seller/activation/${activationToken}`;
+      const activationUrl = `http://localhost:3000/seller/activation/${activationToken}`;
 
       try {
         // Code for sending activation email goes here
@@ -397,6 +111,8 @@ const createActivationToken = (seller: IShop) => {
 // activate user
 router.post(
   "/activation",
+  limitByIp("shop-activation", 10),
+  validate(schema.activation),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { activation_token } = req.body;
@@ -416,7 +132,7 @@ router.post(
         return next(new ErrorHandler("User not found", 400));
       }
 
-      sendShopToken(seller, 201, res);
+      await sendShopToken(seller, 201, req, res);
     } catch (error) {
       if (error instanceof Error) {
         return next(new ErrorHandler(error.message, 500));
@@ -430,6 +146,9 @@ router.post(
 // login shop
 router.post(
   "/login-shop",
+  limitByIp("login-shop"),
+  limitByEmail("login-shop"),
+  validate(schema.loginShop),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { email, password } = req.body;
@@ -444,13 +163,243 @@ router.post(
         return next(new ErrorHandler("User doesn't exist!", 400));
       }
 
+      if (isAccountLocked(seller)) {
+        return next(new ErrorHandler(lockedMessage(seller), 423));
+      }
+
       const isPasswordValid = await seller.comparePassword(password);
 
       if (!isPasswordValid) {
+        await registerFailedLogin(seller);
         return next(new ErrorHandler("Invalid email or password", 400));
       }
 
-      sendShopToken(seller, 201, res);
+      if (seller.twoFactorEnabled) {
+        return res.status(200).json({
+          success: true,
+          twoFactorRequired: true,
+          loginToken: createTwoFactorLoginToken(String(seller._id), "Shop"),
+        });
+      }
+
+      await clearFailedLogins(seller);
+      await sendShopToken(seller, 201, req, res);
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// second step of shop login
+router.post(
+  "/login-2fa",
+  limitByIp("shop-login-2fa"),
+  validate(schema.loginTwoFactor),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { loginToken, code, recoveryCode } = req.body;
+
+      const sellerId = loginToken && verifyTwoFactorLoginToken(loginToken, "Shop");
+
+      if (!sellerId) {
+        return next(new ErrorHandler("Login has expired, please login again", 401));
+      }
+
+      const seller = await Shop.findById(sellerId).select(
+        "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastStep"
+      );
+
+      if (!seller) {
+        return next(new ErrorHandler("Invalid two-factor code", 401));
+      }
+
+      if (isAccountLocked(seller)) {
+        return next(new ErrorHandler(lockedMessage(seller), 423));
+      }
+
+      if (!verifySecondFactor(seller, { code, recoveryCode })) {
+        await registerFailedLogin(seller);
+        return next(new ErrorHandler("Invalid two-factor code", 401));
+      }
+
+      seller.failedLoginAttempts = 0;
+      seller.lockUntil = undefined;
+      await seller.save({ validateBeforeSave: false });
+
+      const loggedInSeller = await Shop.findById(sellerId);
+
+      if (!loggedInSeller) {
+        return next(new ErrorHandler("User doesn't exist!", 400));
+      }
+
+      await sendShopToken(loggedInSeller, 201, req, res);
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// start two-factor enrollment --- seller
+router.post(
+  "/2fa/setup",
+  isSeller,
+  isShopOwner,
+  validate(schema.twoFactorSetup),
+  catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
+    try {
+      const seller = await Shop.findById(req.seller?._id);
+
+      if (!seller) {
+        return next(new ErrorHandler("Seller not found", 404));
+      }
+
+      if (seller.twoFactorEnabled) {
+        return next(new ErrorHandler("Two-factor authentication is already enabled", 400));
+      }
+
+      const secret = generateTotpSecret();
+      seller.twoFactorSecret = secret;
+      seller.twoFactorLastStep = 0;
+
+      await seller.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        secret,
+        otpauthUrl: buildOtpauthUrl(secret, seller.email),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// confirm two-factor enrollment --- seller
+router.post(
+  "/2fa/verify",
+  isSeller,
+  isShopOwner,
+  validate(schema.twoFactorVerify),
+  catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
+    try {
+      const seller = await Shop.findById(req.seller?._id).select("+twoFactorSecret +twoFactorLastStep");
+
+      if (!seller || !seller.twoFactorSecret) {
+        return next(new ErrorHandler("Please start two-factor setup first", 400));
+      }
+
+      if (seller.twoFactorEnabled) {
+        return next(new ErrorHandler("Two-factor authentication is already enabled", 400));
+      }
+
+      const step = verifyTotp(seller.twoFactorSecret, req.body.code, seller.twoFactorLastStep);
+
+      if (step === null) {
+        return next(new ErrorHandler("Invalid two-factor code", 400));
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      seller.twoFactorEnabled = true;
+      seller.twoFactorLastStep = step;
+      seller.twoFactorRecoveryCodes = hashes;
+
+      await seller.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        recoveryCodes: codes,
+        message: "Two-factor authentication enabled!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// regenerate recovery codes --- seller
+router.post(
+  "/2fa/recovery-codes",
+  isSeller,
+  isShopOwner,
+  validate(schema.twoFactorRecoveryCodes),
+  catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
+    try {
+      const seller = await Shop.findById(req.seller?._id).select(
+        "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastStep"
+      );
+
+      if (!seller || !verifySecondFactor(seller, { code: req.body.code })) {
+        return next(new ErrorHandler("Invalid two-factor code", 400));
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      seller.twoFactorRecoveryCodes = hashes;
+
+      await seller.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        recoveryCodes: codes,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// turn off two-factor authentication --- seller
+router.post(
+  "/2fa/disable",
+  isSeller,
+  isShopOwner,
+  validate(schema.twoFactorDisableRoute),
+  catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
+    try {
+      const { password, code, recoveryCode } = req.body;
+
+      const seller = await Shop.findById(req.seller?._id).select(
+        "+password +twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastStep"
+      );
+
+      if (!seller || !(await seller.comparePassword(password || ""))) {
+        return next(new ErrorHandler("Invalid email or password", 400));
+      }
+
+      if (!verifySecondFactor(seller, { code, recoveryCode })) {
+        return next(new ErrorHandler("Invalid two-factor code", 400));
+      }
+
+      seller.twoFactorEnabled = false;
+      seller.twoFactorSecret = undefined;
+      seller.twoFactorRecoveryCodes = undefined;
+      seller.twoFactorLastStep = undefined;
+
+      await seller.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        message: "Two-factor authentication disabled!",
+      });
     } catch (error) {
       if (error instanceof Error) {
         return next(new ErrorHandler(error.message, 500));
@@ -465,7 +414,8 @@ router.post(
 router.get(
   "/getSeller",
   isSeller,
-  catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
+  validate(schema.getSeller),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
     try {
       const seller = await Shop.findById(req.seller?._id);
 
@@ -476,6 +426,7 @@ router.get(
       res.status(200).json({
         success: true,
         seller,
+        staff: req.staff,
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -492,14 +443,16 @@ router.get(
 // log out from shop
 router.get(
   "/logout",
+  validate(schema.logout),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
-      res.cookie("seller_token", null, {
-        expires: new Date(Date.now()),
-        httpOnly: true,
-        sameSite: "none",
-        secure: true,
-      });
+      const { seller_refresh_token } = req.cookies;
+
+      if (seller_refresh_token) {
+        await revokeSessionByRefreshToken(seller_refresh_token);
+      }
+
+      clearShopToken(res);
       res.status(201).json({
         success: true,
         message: "Log out successful!",
@@ -514,9 +467,143 @@ router.get(
   })
 );
 
+// refresh seller access token
+router.post(
+  "/refresh",
+  validate(schema.refresh),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { seller_refresh_token } = req.cookies;
+
+      if (!seller_refresh_token) {
+        return next(new ErrorHandler("Please login to continue", 401));
+      }
+
+      const issued = await rotateSession(seller_refresh_token, ["Shop", "Staff"]);
+
+      if (!issued) {
+        clearShopToken(res);
+        return next(new ErrorHandler("Session has expired, please login again", 401));
+      }
+
+      if (issued.session.ownerType === "Staff") {
+        const staff = await Staff.findOne({ _id: issued.session.owner, status: "active" });
+        const shop = staff && await Shop.findById(staff.shopId);
+
+        if (!staff || !shop) {
+          await revokeSession(String(issued.session._id), issued.session.owner);
+          clearShopToken(res);
+          return next(new ErrorHandler("Staff account is no longer active", 401));
+        }
+
+        return await sendStaffToken(staff, shop, 200, req, res, issued);
+      }
+
+      const seller = await Shop.findById(issued.session.owner);
+
+      if (!seller) {
+        await revokeSession(String(issued.session._id), issued.session.owner);
+        clearShopToken(res);
+        return next(new ErrorHandler("Seller not found", 401));
+      }
+
+      await sendShopToken(seller, 200, req, res, issued);
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// log out shop from every device
+router.post(
+  "/logout-all",
+  isSeller,
+  validate(schema.logoutAll),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const revoked = req.staff
+        ? await revokeAllSessions(String(req.staff._id), "Staff")
+        : await revokeAllSessions(req.seller._id, "Shop");
+
+      clearShopToken(res);
+      res.status(200).json({
+        success: true,
+        revoked,
+        message: "Logged out from all devices!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// active sessions of shop
+router.get(
+  "/sessions",
+  isSeller,
+  validate(schema.listSessions),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const sessions = req.staff
+        ? await getActiveSessions(String(req.staff._id), "Staff")
+        : await getActiveSessions(req.seller._id, "Shop");
+
+      res.status(200).json({
+        success: true,
+        sessions: sessions.map((session) => ({
+          ...session.toObject(),
+          current: String(session._id) === req.sellerSessionId,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// revoke a single shop session
+router.delete(
+  "/sessions/:id",
+  isSeller,
+  validate(schema.revokeSession),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const revoked = await revokeSession(req.params.id, req.staff ? String(req.staff._id) : req.seller._id);
+
+      if (!revoked) {
+        return next(new ErrorHandler("Session not found", 404));
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Session revoked successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
 // get shop info
 router.get(
   "/get-shop-info/:id",
+  validate(schema.getShopInfo),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const shop = await Shop.findById(req.params.id);
@@ -538,6 +625,8 @@ router.get(
 router.put(
   "/update-shop-avatar",
   isSeller,
+  isShopOwner,
+  validate(schema.updateShopAvatar),
   catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
     try {
         let existsSeller = await Shop.findById(req.seller?._id);
@@ -581,9 +670,11 @@ router.put(
 router.put(
   "/update-seller-info",
   isSeller,
+  isShopOwner,
+  validate(schema.updateSellerInfo),
   catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
     try {
-      const { name, description, address, phoneNumber, zipCode } = req.body;
+      const { name, description, address, phoneNumber, zipCode, lowStockThreshold } = req.body;
 
       const shop = await Shop.findById(req.seller?._id);
 
@@ -596,6 +687,9 @@ router.put(
       shop.address = address;
       shop.phoneNumber = phoneNumber;
       shop.zipCode = zipCode;
+      if (lowStockThreshold !== undefined) {
+        shop.lowStockThreshold = lowStockThreshold;
+      }
 
       await shop.save();
 
@@ -617,7 +711,8 @@ router.put(
 router.get(
   "/admin-all-sellers",
   isAuthenticated,
-  isAdmin("Admin"),
+  hasPermission(PERMISSIONS.SELLERS_VIEW),
+  validate(schema.adminAllSellers),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const sellers = await Shop.find().sort({
@@ -641,7 +736,8 @@ router.get(
 router.delete(
   "/delete-seller/:id",
   isAuthenticated,
-  isAdmin("Admin"),
+  hasPermission(PERMISSIONS.SELLERS_DELETE),
+  validate(schema.deleteSeller),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const seller = await Shop.findById(req.params.id);
@@ -668,10 +764,49 @@ router.delete(
   })
 );
 
+// unlock seller ---admin
+router.put(
+  "/admin-unlock-seller/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ACCOUNTS_UNLOCK),
+  validate(schema.adminUnlockSeller),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const seller = await Shop.findById(req.params.id);
+
+      if (!seller) {
+        return next(
+          new ErrorHandler("Seller not available with this id", 400)
+        );
+      }
+
+      seller.failedLoginAttempts = 0;
+      seller.lockUntil = undefined;
+      await seller.save({ validateBeforeSave: false });
+
+      await resetEmailLimit("login-shop", seller.email);
+
+      res.status(200).json({
+        success: true,
+        message: "Seller unlocked successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
 // update seller withdraw methods --- sellers
 router.put(
   "/update-payment-methods",
   isSeller,
+  isShopOwner,
+  validate(schema.updatePaymentMethods),
+  requireSellerTotp,
   catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
     try {
       const { withdrawMethod } = req.body;
@@ -698,6 +833,9 @@ router.put(
 router.delete(
   "/delete-withdraw-method/",
   isSeller,
+  isShopOwner,
+  validate(schema.deleteWithdrawMethod),
+  requireSellerTotp,
   catchAsyncErrors(async (req: RequestWithSeller, res: Response, next: NextFunction) => {
     try {
       const seller = await Shop.findById(req.seller?._id);
@@ -724,5 +862,107 @@ router.delete(
   })
 );
 
+// forgot password --- seller
+router.post(
+  "/forgot-password",
+  limitByIp("shop-forgot-password", 5),
+  validate(schema.forgotPassword),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return next(new ErrorHandler("Please provide your email!", 400));
+      }
+
+      const seller = await Shop.findOne({ email });
+
+      if (!seller) {
+        return next(new ErrorHandler("Shop not found with this email", 404));
+      }
+
+      const resetToken = seller.getResetPasswordToken();
+      await seller.save({ validateBeforeSave: false });
+
+      const resetUrl = `http://localhost:3000/shop-reset-password/${resetToken}`;
+
+      try {
+        await sendMail({
+          email: seller.email,
+          subject: "Reset your shop password",
+          message: `Hello ${seller.name}, please click on the link to reset your shop password: ${resetUrl}\n\nThe link expires in 15 minutes. If you did not request this, you can ignore this email.`,
+        });
+        res.status(200).json({
+          success: true,
+          message: `please check your email:- ${seller.email} to reset your password!`,
+        });
+      } catch (error) {
+        seller.resetPasswordToken = undefined;
+        seller.resetPasswordTime = undefined;
+        await seller.save({ validateBeforeSave: false });
+
+        if (error instanceof Error) {
+          return next(new ErrorHandler(error.message, 500));
+        } else {
+          return next(new ErrorHandler('An unknown error occurred', 500));
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// reset password --- seller
+router.put(
+  "/reset-password/:token",
+  validate(schema.resetPassword),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const resetPasswordToken = crypto
+        .createHash("sha256")
+        .update(req.params.token)
+        .digest("hex");
+
+      const seller = await Shop.findOne({
+        resetPasswordToken,
+        resetPasswordTime: { $gt: new Date() },
+      });
+
+      if (!seller) {
+        return next(new ErrorHandler("Reset password token is invalid or has expired", 400));
+      }
+
+      if (!req.body.password || req.body.password !== req.body.confirmPassword) {
+        return next(new ErrorHandler("Password doesn't match with each other!", 400));
+      }
+
+      seller.password = req.body.password;
+      seller.resetPasswordToken = undefined;
+      seller.resetPasswordTime = undefined;
+      seller.failedLoginAttempts = 0;
+      seller.lockUntil = undefined;
+
+      await seller.save();
+      await revokeAllSessions(String(seller._id), "Shop");
+
+      res.status(200).json({
+        success: true,
+        message: "Password reset successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
 export default router;
 
@@ -0,0 +1,313 @@
+import express, { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import Staff from "../model/staff";
+import Shop from "../model/shop";
+import { isAuthenticated, isSeller, isShopOwner, hasPermission, RequestUser } from "../middleware/auth";
+import { PERMISSIONS } from "../utils/permissions";
+import catchAsyncErrors from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import sendMail from "../utils/sendMail";
+import { sendStaffToken } from "../utils/shopToken";
+import { revokeAllSessions } from "../utils/session";
+import { limitByIp, limitByEmail, resetEmailLimit } from "../middleware/rateLimit";
+import { isAccountLocked, lockedMessage, registerFailedLogin, clearFailedLogins } from "../utils/lockout";
+import { validate } from "../middleware/validate";
+import * as schema from "../schemas/staff";
+
+const router = express.Router();
+
+// invite staff --- shop owner
+router.post(
+  "/invite-staff",
+  isSeller,
+  isShopOwner,
+  validate(schema.inviteStaff),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { email, role } = req.body;
+
+      const shopId = String(req.seller._id);
+      const existing = await Staff.findOne({ shopId, email: String(email).toLowerCase() });
+
+      if (existing && existing.status !== "invited") {
+        return next(new ErrorHandler("Staff member already exists", 400));
+      }
+
+      const staff = existing || new Staff({ shopId, email, role });
+      staff.role = role;
+      staff.invitedAt = new Date();
+      const inviteToken = staff.getInviteToken();
+
+      await staff.save();
+
+      const inviteUrl = `http://localhost:3000/staff-invitation/${inviteToken}`;
+
+      try {
+        await sendMail({
+          email: staff.email,
+          subject: `Join ${req.seller.name} on Oshop`,
+          message: `Hello, ${req.seller.name} has invited you to help run their shop. Please click on the link to accept the invitation: ${inviteUrl}\n\nThe link expires in 7 days.`,
+        });
+        res.status(201).json({
+          success: true,
+          staff,
+          message: `Invitation sent to ${staff.email}!`,
+        });
+      } catch (error) {
+        if (error instanceof Error) {
+          return next(new ErrorHandler(error.message, 500));
+        } else {
+          return next(new ErrorHandler('An unknown error occurred', 500));
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// accept invitation
+router.post(
+  "/accept-invite/:token",
+  validate(schema.acceptInvite),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, password } = req.body;
+
+      const inviteToken = crypto
+        .createHash("sha256")
+        .update(req.params.token)
+        .digest("hex");
+
+      const staff = await Staff.findOne({
+        inviteToken,
+        inviteExpires: { $gt: new Date() },
+        status: "invited",
+      });
+
+      if (!staff) {
+        return next(new ErrorHandler("Invitation is invalid or has expired", 400));
+      }
+
+      if (!password) {
+        return next(new ErrorHandler("Please provide a password!", 400));
+      }
+
+      staff.name = name;
+      staff.password = password;
+      staff.status = "active";
+      staff.joinedAt = new Date();
+      staff.inviteToken = undefined;
+      staff.inviteExpires = undefined;
+
+      await staff.save();
+
+      const shop = await Shop.findById(staff.shopId);
+
+      await sendStaffToken(staff, shop, 201, req, res);
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// login staff
+router.post(
+  "/login-staff",
+  limitByIp("login-staff"),
+  limitByEmail("login-staff"),
+  validate(schema.loginStaff),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { email, password, shopId } = req.body;
+
+      if (!email || !password) {
+        return next(new ErrorHandler("Please provide all fields!", 400));
+      }
+
+      const accounts = await Staff.find({
+        email: String(email).toLowerCase(),
+        status: "active",
+        ...(shopId ? { shopId } : {}),
+      }).select("+password");
+
+      if (accounts.length > 1) {
+        return next(new ErrorHandler("This email works for several shops, please choose a shop", 400));
+      }
+
+      const staff = accounts[0];
+
+      if (!staff) {
+        return next(new ErrorHandler("Invalid email or password", 400));
+      }
+
+      if (isAccountLocked(staff)) {
+        return next(new ErrorHandler(lockedMessage(staff), 423));
+      }
+
+      if (!(await staff.comparePassword(password))) {
+        await registerFailedLogin(staff);
+        return next(new ErrorHandler("Invalid email or password", 400));
+      }
+
+      const shop = await Shop.findById(staff.shopId);
+
+      if (!shop) {
+        return next(new ErrorHandler("Shop not found", 400));
+      }
+
+      await clearFailedLogins(staff);
+      await sendStaffToken(staff, shop, 201, req, res);
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// all staff of a shop --- shop owner
+router.get(
+  "/all-staff",
+  isSeller,
+  isShopOwner,
+  validate(schema.allStaff),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const staff = await Staff.find({ shopId: String(req.seller._id) }).sort({ createdAt: -1 });
+
+      res.status(200).json({
+        success: true,
+        staff,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// change staff role or status --- shop owner
+router.put(
+  "/update-staff/:id",
+  isSeller,
+  isShopOwner,
+  validate(schema.updateStaff),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { role, status } = req.body;
+
+      const staff = await Staff.findOne({ _id: req.params.id, shopId: String(req.seller._id) });
+
+      if (!staff) {
+        return next(new ErrorHandler("Staff member not found with this id", 404));
+      }
+
+      if (role !== undefined) {
+        staff.role = role;
+      }
+
+      if (status !== undefined) {
+        if (staff.status === "invited") {
+          return next(new ErrorHandler("Invalid staff status", 400));
+        }
+        staff.status = status;
+      }
+
+      await staff.save();
+
+      // a changed role or a disabled account must not keep its old sessions
+      await revokeAllSessions(String(staff._id), "Staff");
+
+      res.status(200).json({
+        success: true,
+        staff,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// remove staff --- shop owner
+router.delete(
+  "/remove-staff/:id",
+  isSeller,
+  isShopOwner,
+  validate(schema.removeStaff),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const staff = await Staff.findOneAndDelete({ _id: req.params.id, shopId: String(req.seller._id) });
+
+      if (!staff) {
+        return next(new ErrorHandler("Staff member not found with this id", 404));
+      }
+
+      await revokeAllSessions(String(staff._id), "Staff");
+
+      res.status(200).json({
+        success: true,
+        message: "Staff member removed successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// unlock staff ---admin
+router.put(
+  "/admin-unlock-staff/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ACCOUNTS_UNLOCK),
+  validate(schema.adminUnlockStaff),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const staff = await Staff.findById(req.params.id);
+
+      if (!staff) {
+        return next(new ErrorHandler("Staff member not found with this id", 404));
+      }
+
+      staff.failedLoginAttempts = 0;
+      staff.lockUntil = undefined;
+      await staff.save({ validateBeforeSave: false });
+
+      await resetEmailLimit("login-staff", staff.email);
+
+      res.status(200).json({
+        success: true,
+        message: "Staff member unlocked successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+export default router;
@@ -4,9 +4,31 @@ import cloudinary from "cloudinary";
 import ErrorHandler from "../utils/ErrorHandler";
 import catchAsyncErrors from "../middleware/catchAsyncErrors";
 import jwt from "jsonwebtoken";
+import crypto from "crypto";
 import sendMail from "../utils/sendMail";
-import sendToken from "../utils/jwtToken";
-import { isAuthenticated, isAdmin } from "../middleware/auth";
+import sendToken, { clearToken } from "../utils/jwtToken";
+import { isAuthenticated, hasPermission, RequestUser } from "../middleware/auth";
+import { PERMISSIONS } from "../utils/permissions";
+import {
+  rotateSession,
+  revokeSessionByRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  getActiveSessions,
+} from "../utils/session";
+import {
+  generateTotpSecret,
+  buildOtpauthUrl,
+  verifyTotp,
+  generateRecoveryCodes,
+  verifySecondFactor,
+  createTwoFactorLoginToken,
+  verifyTwoFactorLoginToken,
+} from "../utils/totp";
+import { limitByIp, limitByEmail, resetEmailLimit } from "../middleware/rateLimit";
+import { isAccountLocked, lockedMessage, registerFailedLogin, clearFailedLogins } from "../utils/lockout";
+import { validate } from "../middleware/validate";
+import * as schema from "../schemas/user";
 
 const router: Router = express.Router();
 
@@ -22,77 +44,6 @@ const router: Router = express.Router();
 //     comparePassword?: (password: string) => Promise<boolean>;
 // }
 
-/**
- * @swagger
- * components:
- *   schemas:
- *     User:
- *       type: object
- *       properties:
- *         _id:
- *           type: string
- *           description: The auto-generated ID of the user
- *         name:
- *           type: string
- *           description: The name of the user
- *         email:
- *           type: string
- *           description: The email address of the user
- *         password:
- *           type: string
- *           description: The password for the user
- *         phoneNumber:
- *           type: number
- *           description: The phone number of the user
- *         addresses:
- *           type: array
- *           items:
- *             type: object
- *             properties:
- *               country:
- *                 type: string
- *               city:
- *                 type: string
- *               address1:
- *                 type: string
- *               address2:
- *                 type: string
- *               zipCode:
- *                 type: number
- *               addressType:
- *                 type: string
- *           description: The addresses of the user
- *         role:
- *           type: string
- *           description: The role of the user (default is "user")
- *         avatar:
- *           type: object
- *           properties:
- *             public_id:
- *               type: string
- *               description: The public ID of the avatar
- *             url:
- *               type: string
- *               description: The URL of the avatar
- *         createdAt:
- *           type: string
- *           format: date-time
- *           description: The creation date of the user
- *         resetPasswordToken:
- *           type: string
- *           description: The reset password token for the user
- *         resetPasswordTime:
- *           type: string
- *           format: date-time
- *           description: The reset password time for the user
- *       required:
- *         - name
- *         - email
- *         - password
- *         - avatar
- */
-
-
 interface IRequestWithUser extends Request {
   user: {
     id?: string;
@@ -100,101 +51,63 @@ interface IRequestWithUser extends Request {
   };
 }
 
-/**
- * @openapi
- * /user/create-user:
- *   post:
- *     summary: Create a new user account
- *     description: This endpoint allows for the creation of a new user account.
- *     tags:
- *       - Users
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - name
- *               - email
- *               - password
- *               - avatar
- *             properties:
- *               name:
- *                 type: string
- *               email:
- *                 type: string
- *               password:
- *                 type: string
- *               avatar:
- *                 type: object
- *                 properties:
- *                   public_id:
- *                     type: string
- *                   url:
- *                     type: string
- *     responses:
- *       201:
- *         description: User created successfully
- *       400:
- *         description: User already exists or other client error
- *       500:
- *         description: Server error
- */
-router.post("/create-user", async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const { name, email, password, avatar } = req.body as IUser;
-    const userEmail = await User.findOne({ email });
-
-
-    if (userEmail) {
-      return next(new ErrorHandler("User already exists", 400));
-    }
+router.post(
+  "/create-user",
+  validate(schema.createUser),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, email, password, avatar } = req.body as IUser;
+      const userEmail = await User.findOne({ email });
 
-      const myCloud = await cloudinary.v2.uploader.upload(req.body.avatar, {
-        folder: "avatars",
-      });
+      if (userEmail) {
+        return next(new ErrorHandler("User already exists", 400));
+      }
 
+        const myCloud = await cloudinary.v2.uploader.upload(req.body.avatar, {
+          folder: "avatars",
+        });
 
-    const user: IUser = new User({
-      name: name,
-      email: email,
-      password: password,
-      avatar: {
-        public_id: myCloud.public_id,
-        url: myCloud.secure_url,
-      },
-    });
-    await user.save();
+      const user: IUser = new User({
+        name: name,
+        email: email,
+        password: password,
+        avatar: {
+          public_id: myCloud.public_id,
+          url: myCloud.secure_url,
+        },
+      });
+      await user.save();
 
-    const activationToken = createActivationToken(user);
+      const activationToken = createActivationToken(user);
 
-    const activationUrl = `http://localhost:8000/api/v2/user/activation/${activationToken}`;
+      const activationUrl = `http://localhost:3000/activation/${activationToken}`;
 
-    try {
-      await sendMail({
-        email: user.email,
-        subject: "Activate your account",
-        message: `Hello ${user.name}, please click on the link to activate your account: ${activationUrl}`,
-      });
-      res.status(201).json({
-        success: true,
-        message: `please check your email:- ${user.email} to activate your account!`,
-      });
+      try {
+        await sendMail({
+          email: user.email,
+          subject: "Activate your account",
+          message: `Hello ${user.name}, please click on the link to activate your account: ${activationUrl}`,
+        });
+        res.status(201).json({
+          success: true,
+          message: `please check your email:- ${user.email} to activate your account!`,
+        });
+      } catch (error) {
+        if (error instanceof Error) {
+          return next(new ErrorHandler(error.message, 500));
+        } else {
+          return next(new ErrorHandler('An unknown error occurred', 500));
+        }
+      }
     } catch (error) {
       if (error instanceof Error) {
-        return next(new ErrorHandler(error.message, 500));
-      } else {
-        return next(new ErrorHandler('An unknown error occurred', 500));
-      }
+          return next(new ErrorHandler(error.message, 500));
+        } else {
+          return next(new ErrorHandler('An unknown error occurred', 500));
+        }
     }
-  } catch (error) {
-    if (error instanceof Error) {
-        return next(new ErrorHandler(error.message, 500));
-      } else {
-        return next(new ErrorHandler('An unknown error occurred', 500));
-      }
   }
-});
+);
 
 // create activation token
 const createActivationToken = (user: IUser): string => {
@@ -203,34 +116,10 @@ const createActivationToken = (user: IUser): string => {
   });
 };
 
-/**
- * @swagger
- * /user/activation:
- *   post:
- *     summary: Activate a user account
- *     description: This endpoint allows for the activation of a user account using an activation token.
- *     tags:
- *       - Users
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - activation_token
- *             properties:
- *               activation_token:
- *                 type: string
- *     responses:
- *       201:
- *         description: User activated successfully
- *       400:
- *         description: Invalid token or user already exists
- *       500:
- *         description: Server error
- */
 router.post(
   "/activation",
+  limitByIp("user-activation", 10),
+  validate(schema.activation),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { activation_token } = req.body;
@@ -257,7 +146,7 @@ router.post(
         password,
       });
 
-      sendToken(user, 201, res);
+      await sendToken(user, 201, req, res);
     } catch (error) {
       if (error instanceof Error) {
         return next(new ErrorHandler(error.message, 500));
@@ -268,37 +157,11 @@ router.post(
   })
 );
 
-/**
- * @swagger
- * /user/login-user:
- *   post:
- *     summary: Log in a user
- *     description: This endpoint allows for the login of a user using email and password.
- *     tags:
- *       - Users
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - email
- *               - password
- *             properties:
- *               email:
- *                 type: string
- *               password:
- *                 type: string
- *     responses:
- *       201:
- *         description: User logged in successfully
- *       400:
- *         description: Please provide all fields or user doesn't exist or incorrect information
- *       500:
- *         description: Server error
- */
 router.post(
   "/login-user",
+  limitByIp("login-user"),
+  limitByEmail("login-user"),
+  validate(schema.loginUser),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { email, password } = req.body;
@@ -313,19 +176,31 @@ router.post(
         return next(new ErrorHandler("User doesn't exist!", 400));
       }
 
+      if (isAccountLocked(user)) {
+        return next(new ErrorHandler(lockedMessage(user), 423));
+      }
+
         if (user.comparePassword) {
   const isPasswordValid = await user.comparePassword(password);
             // rest of the code
              if (!isPasswordValid) {
+        await registerFailedLogin(user);
         return next(new ErrorHandler("Please provide the correct information", 400));
       }
 } else {
   // handle the error
 }
 
+      if (user.twoFactorEnabled) {
+        return res.status(200).json({
+          success: true,
+          twoFactorRequired: true,
+          loginToken: createTwoFactorLoginToken(String(user._id), "User"),
+        });
+      }
 
-
-      sendToken(user, 201, res);
+      await clearFailedLogins(user);
+      await sendToken(user, 201, req, res);
     } catch (error) {
      if (error instanceof Error) {
         return next(new ErrorHandler(error.message, 500));
@@ -336,28 +211,219 @@ router.post(
   })
 );
 
+// second step of login when two-factor authentication is enabled
+router.post(
+  "/login-2fa",
+  limitByIp("login-2fa"),
+  validate(schema.loginTwoFactor),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { loginToken, code, recoveryCode } = req.body;
+
+      const userId = loginToken && verifyTwoFactorLoginToken(loginToken, "User");
+
+      if (!userId) {
+        return next(new ErrorHandler("Login has expired, please login again", 401));
+      }
+
+      const user = await User.findById(userId).select(
+        "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastStep"
+      );
+
+      if (!user) {
+        return next(new ErrorHandler("Invalid two-factor code", 401));
+      }
+
+      if (isAccountLocked(user)) {
+        return next(new ErrorHandler(lockedMessage(user), 423));
+      }
+
+      if (!verifySecondFactor(user, { code, recoveryCode })) {
+        await registerFailedLogin(user);
+        return next(new ErrorHandler("Invalid two-factor code", 401));
+      }
+
+      user.failedLoginAttempts = 0;
+      user.lockUntil = undefined;
+      await user.save({ validateBeforeSave: false });
+
+      const loggedInUser = await User.findById(userId);
+
+      await sendToken(loggedInUser, 201, req, res);
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// start two-factor enrollment
+router.post(
+  "/2fa/setup",
+  isAuthenticated,
+  validate(schema.twoFactorSetup),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const user = await User.findById(req.user._id);
+
+      if (!user) {
+        return next(new ErrorHandler("User not found", 400));
+      }
+
+      if (user.twoFactorEnabled) {
+        return next(new ErrorHandler("Two-factor authentication is already enabled", 400));
+      }
+
+      const secret = generateTotpSecret();
+      user.twoFactorSecret = secret;
+      user.twoFactorLastStep = 0;
+
+      await user.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        secret,
+        otpauthUrl: buildOtpauthUrl(secret, user.email),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// confirm two-factor enrollment
+router.post(
+  "/2fa/verify",
+  isAuthenticated,
+  validate(schema.twoFactorVerify),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const user = await User.findById(req.user._id).select("+twoFactorSecret +twoFactorLastStep");
+
+      if (!user || !user.twoFactorSecret) {
+        return next(new ErrorHandler("Please start two-factor setup first", 400));
+      }
+
+      if (user.twoFactorEnabled) {
+        return next(new ErrorHandler("Two-factor authentication is already enabled", 400));
+      }
+
+      const step = verifyTotp(user.twoFactorSecret, req.body.code, user.twoFactorLastStep);
+
+      if (step === null) {
+        return next(new ErrorHandler("Invalid two-factor code", 400));
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      user.twoFactorEnabled = true;
+      user.twoFactorLastStep = step;
+      user.twoFactorRecoveryCodes = hashes;
+
+      await user.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        recoveryCodes: codes,
+        message: "Two-factor authentication enabled!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// regenerate recovery codes
+router.post(
+  "/2fa/recovery-codes",
+  isAuthenticated,
+  validate(schema.twoFactorRecoveryCodes),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const user = await User.findById(req.user._id).select(
+        "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastStep"
+      );
+
+      if (!user || !verifySecondFactor(user, { code: req.body.code })) {
+        return next(new ErrorHandler("Invalid two-factor code", 400));
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      user.twoFactorRecoveryCodes = hashes;
+
+      await user.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        recoveryCodes: codes,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// turn off two-factor authentication
+router.post(
+  "/2fa/disable",
+  isAuthenticated,
+  validate(schema.twoFactorDisableRoute),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const { password, code, recoveryCode } = req.body;
+
+      const user = await User.findById(req.user._id).select(
+        "+password +twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastStep"
+      );
+
+      if (!user || !user.comparePassword || !(await user.comparePassword(password || ""))) {
+        return next(new ErrorHandler("Please provide the correct information", 400));
+      }
+
+      if (!verifySecondFactor(user, { code, recoveryCode })) {
+        return next(new ErrorHandler("Invalid two-factor code", 400));
+      }
+
+      user.twoFactorEnabled = false;
+      user.twoFactorSecret = undefined;
+      user.twoFactorRecoveryCodes = undefined;
+      user.twoFactorLastStep = undefined;
+
+      await user.save({ validateBeforeSave: false });
+
+      res.status(200).json({
+        success: true,
+        message: "Two-factor authentication disabled!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
 // load user
-/**
- * @swagger
- * /user/getuser:
- *   get:
- *     summary: Get user information
- *     description: This endpoint retrieves the information of the authenticated user.
- *     tags:
- *       - Users
- *     security:
- *       - Bearer: []
- *     responses:
- *       200:
- *         description: User information retrieved successfully
- *       400:
- *         description: User doesn't exist
- *       500:
- *         description: Server error
- */
 router.get(
   "/getuser",
   isAuthenticated,
+  validate(schema.getUser),
   catchAsyncErrors(async (req: IRequestWithUser, res: Response, next: NextFunction) => {
     try {
       const user = await User.findById(req.user.id);
@@ -381,30 +447,18 @@ if (error instanceof Error) {
 );
 
 // log out user
-/**
- * @swagger
- * /user/logout:
- *   get:
- *     summary: Log out a user
- *     description: This endpoint logs out the authenticated user.
- *     tags:
- *       - Users
- *     responses:
- *       201:
- *         description: Log out successful
- *       500:
- *         description: Server error
- */
 router.get(
   "/logout",
+  validate(schema.logout),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
-      res.cookie("token", null, {
-        expires: new Date(Date.now()),
-        httpOnly: true,
-        sameSite: "none",
-        secure: true,
-      });
+      const { refresh_token } = req.cookies;
+
+      if (refresh_token) {
+        await revokeSessionByRefreshToken(refresh_token);
+      }
+
+      clearToken(res);
       res.status(201).json({
         success: true,
         message: "Log out successful!",
@@ -423,42 +477,127 @@ router.get(
   })
 );
 
+// refresh access token
+router.post(
+  "/refresh",
+  validate(schema.refresh),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { refresh_token } = req.cookies;
+
+      if (!refresh_token) {
+        return next(new ErrorHandler("Please login to continue", 401));
+      }
+
+      const issued = await rotateSession(refresh_token, "User");
+
+      if (!issued) {
+        clearToken(res);
+        return next(new ErrorHandler("Session has expired, please login again", 401));
+      }
+
+      const user = await User.findById(issued.session.owner);
+
+      if (!user) {
+        await revokeSession(String(issued.session._id), issued.session.owner);
+        clearToken(res);
+        return next(new ErrorHandler("User doesn't exist", 401));
+      }
+
+      await sendToken(user, 200, req, res, issued);
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// log out from every device
+router.post(
+  "/logout-all",
+  isAuthenticated,
+  validate(schema.logoutAll),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const revoked = await revokeAllSessions(req.user._id, "User");
+
+      clearToken(res);
+      res.status(200).json({
+        success: true,
+        revoked,
+        message: "Logged out from all devices!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// active sessions of user
+router.get(
+  "/sessions",
+  isAuthenticated,
+  validate(schema.listSessions),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const sessions = await getActiveSessions(req.user._id, "User");
+
+      res.status(200).json({
+        success: true,
+        sessions: sessions.map((session) => ({
+          ...session.toObject(),
+          current: String(session._id) === req.sessionId,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// revoke a single session
+router.delete(
+  "/sessions/:id",
+  isAuthenticated,
+  validate(schema.revokeSession),
+  catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const revoked = await revokeSession(req.params.id, req.user._id);
+
+      if (!revoked) {
+        return next(new ErrorHandler("Session not found", 404));
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Session revoked successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
 // update user info
-/**
- * @swagger
- * /user/update-user-info:
- *   put:
- *     summary: Update user information
- *     description: This endpoint updates the information of the authenticated user.
- *     tags:
- *       - Users
- *     security:
- *       - Bearer: []
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               email:
- *                 type: string
- *               password:
- *                 type: string
- *               phoneNumber:
- *                 type: string
- *               name:
- *                 type: string
- *     responses:
- *       201:
- *         description: User information updated successfully
- *       400:
- *         description: User not found or incorrect information
- *       500:
- *         description: Server error
- */
 router.put(
   "/update-user-info",
   isAuthenticated,
+  validate(schema.updateUserInfo),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { email, password, phoneNumber, name } = req.body;
@@ -503,36 +642,11 @@ router.put(
   })
 );
 
-/**
- * @swagger
- * /user/update-avatar:
- *   put:
- *     summary: Update user avatar
- *     description: This endpoint updates the avatar of the authenticated user.
- *     tags:
- *       - Users
- *     security:
- *       - Bearer: []
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               avatar:
- *                 type: string
- *     responses:
- *       200:
- *         description: Avatar updated successfully
- *       400:
- *         description: User not found
- *       500:
- *         description: Server error
- */
 // update user avatar
 router.put(
   "/update-avatar",
   isAuthenticated,
+  validate(schema.updateAvatar),
   catchAsyncErrors(async (req: any, res: Response, next: NextFunction) => {
     try {
       let existsUser = await User.findById(req.user.id);
@@ -573,37 +687,10 @@ router.put(
 );
 
 // update user addresses
-/**
- * @swagger
- * /user/update-user-addresses:
- *   put:
- *     summary: Update user addresses
- *     description: This endpoint updates the addresses of the authenticated user.
- *     tags:
- *       - Users
- *     security:
- *       - Bearer: []
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               addressType:
- *                 type: string
- *               _id:
- *                 type: string
- *     responses:
- *       200:
- *         description: Addresses updated successfully
- *       400:
- *         description: User doesn't exist or address already exists
- *       500:
- *         description: Server error
- */
 router.put(
   "/update-user-addresses",
   isAuthenticated,
+  validate(schema.updateUserAddresses),
   catchAsyncErrors(async (req: any, res: Response, next: NextFunction) => {
     try {
       const user = await User.findById(req.user.id);
@@ -647,34 +734,10 @@ router.put(
 );
 
 // delete user address
-/**
- * @swagger
- * /user/delete-user-address/{id}:
- *   delete:
- *     summary: Delete user address
- *     description: This endpoint deletes a specific address of the authenticated user.
- *     tags:
- *       - Users
- *     security:
- *       - Bearer: []
- *     parameters:
- *       - name: id
- *         in: path
- *         required: true
- *         description: ID of the address to delete
- *         schema:
- *           type: string
- *     responses:
- *       200:
- *         description: Address deleted successfully
- *       400:
- *         description: User doesn't exist
- *       500:
- *         description: Server error
- */
 router.delete(
   "/delete-user-address/:id",
   isAuthenticated,
+  validate(schema.deleteUserAddress),
   catchAsyncErrors(async (req: any, res: Response, next: NextFunction) => {
     try {
       const userId = req.user._id;
@@ -705,39 +768,10 @@ router.delete(
 );
 
 // update user password
-/**
- * @swagger
- * /user/update-user-password:
- *   put:
- *     summary: Update user password
- *     description: This endpoint updates the password of the authenticated user.
- *     tags:
- *       - Users
- *     security:
- *       - Bearer: []
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               oldPassword:
- *                 type: string
- *               newPassword:
- *                 type: string
- *               confirmPassword:
- *                 type: string
- *     responses:
- *       200:
- *         description: Password updated successfully
- *       400:
- *         description: Old password is incorrect or passwords don't match
- *       500:
- *         description: Server error
- */
 router.put(
   "/update-user-password",
   isAuthenticated,
+  validate(schema.updateUserPassword),
   catchAsyncErrors(async (req: any, res: Response, next: NextFunction) => {
     try {
       const user = await User.findById(req.user.id).select("+password");
@@ -746,7 +780,6 @@ router.put(
         return next(new ErrorHandler("User not found", 400));
       }
 
-
         if (user.comparePassword) {
             const isPasswordMatched = await user.comparePassword(req.body.oldPassword);
             // rest of the code
@@ -779,33 +812,112 @@ router.put(
   })
 );
 
-// find user information with the userId
-/**
- * @swagger
- * /user/user-info/{id}:
- *   get:
- *     summary: Retrieve user information
- *     description: This endpoint retrieves information about a specific user by ID.
- *     tags:
- *       - Users
- *     parameters:
- *       - name: id
- *         in: path
- *         required: true
- *         description: ID of the user to retrieve
- *         schema:
- *           type: string
- *     responses:
- *       201:
- *         description: User information retrieved successfully
- *       400:
- *         description: User not found
- *       500:
- *         description: Server error
- */
+// forgot password
+router.post(
+  "/forgot-password",
+  limitByIp("user-forgot-password", 5),
+  validate(schema.forgotPassword),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return next(new ErrorHandler("Please provide your email!", 400));
+      }
+
+      const user = await User.findOne({ email });
+
+      if (!user || !user.getResetPasswordToken) {
+        return next(new ErrorHandler("User not found with this email", 404));
+      }
+
+      const resetToken = user.getResetPasswordToken();
+      await user.save({ validateBeforeSave: false });
+
+      const resetUrl = `http://localhost:3000/reset-password/${resetToken}`;
+
+      try {
+        await sendMail({
+          email: user.email,
+          subject: "Reset your password",
+          message: `Hello ${user.name}, please click on the link to reset your password: ${resetUrl}\n\nThe link expires in 15 minutes. If you did not request this, you can ignore this email.`,
+        });
+        res.status(200).json({
+          success: true,
+          message: `please check your email:- ${user.email} to reset your password!`,
+        });
+      } catch (error) {
+        user.resetPasswordToken = undefined;
+        user.resetPasswordTime = undefined;
+        await user.save({ validateBeforeSave: false });
+
+        if (error instanceof Error) {
+          return next(new ErrorHandler(error.message, 500));
+        } else {
+          return next(new ErrorHandler('An unknown error occurred', 500));
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// reset password
+router.put(
+  "/reset-password/:token",
+  validate(schema.resetPassword),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const resetPasswordToken = crypto
+        .createHash("sha256")
+        .update(req.params.token)
+        .digest("hex");
+
+      const user = await User.findOne({
+        resetPasswordToken,
+        resetPasswordTime: { $gt: new Date() },
+      });
+
+      if (!user) {
+        return next(new ErrorHandler("Reset password token is invalid or has expired", 400));
+      }
+
+      if (!req.body.password || req.body.password !== req.body.confirmPassword) {
+        return next(new ErrorHandler("Password doesn't match with each other!", 400));
+      }
+
+      user.password = req.body.password;
+      user.resetPasswordToken = undefined;
+      user.resetPasswordTime = undefined;
+      user.failedLoginAttempts = 0;
+      user.lockUntil = undefined;
+
+      await user.save();
+      await revokeAllSessions(String(user._id), "User");
 
+      res.status(200).json({
+        success: true,
+        message: "Password reset successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
+
+// find user information with the userId
 router.get(
   "/user-info/:id",
+  validate(schema.userInfo),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const user = await User.findById(req.params.id);
@@ -829,27 +941,11 @@ router.get(
 );
 
 // all users --- for admin
-/**
- * @swagger
- * /user/admin-all-users:
- *   get:
- *     summary: Retrieve all users (Admin only)
- *     description: This endpoint retrieves all users. Accessible only by admins.
- *     tags:
- *       - Admin
- *     security:
- *       - Bearer: []
- *     responses:
- *       201:
- *         description: Users retrieved successfully
- *       500:
- *         description: Server error
- */
-
 router.get(
   "/admin-all-users",
   isAuthenticated,
-  isAdmin("Admin"),
+  hasPermission(PERMISSIONS.USERS_VIEW),
+  validate(schema.adminAllUsers),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const users = await User.find().sort({
@@ -869,38 +965,11 @@ router.get(
   })
 );
 
-
-
-/**
- * @swagger
- * /user/delete-user/{id}:
- *   delete:
- *     summary: Delete user (Admin only)
- *     description: This endpoint deletes a specific user by ID. Accessible only by admins.
- *     tags:
- *       - Admin
- *     security:
- *       - Bearer: []
- *     parameters:
- *       - name: id
- *         in: path
- *         required: true
- *         description: ID of the user to delete
- *         schema:
- *           type: string
- *     responses:
- *       201:
- *         description: User deleted successfully
- *       400:
- *         description: User is not available with this ID
- *       500:
- *         description: Server error
- */
-
 router.delete(
   "/delete-user/:id",
   isAuthenticated,
-  isAdmin("Admin"),
+  hasPermission(PERMISSIONS.USERS_DELETE),
+  validate(schema.deleteUser),
   catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const user = await User.findById(req.params.id);
@@ -931,6 +1000,38 @@ router.delete(
   })
 );
 
+// unlock a locked user account --- for admin
+router.put(
+  "/admin-unlock-user/:id",
+  isAuthenticated,
+  hasPermission(PERMISSIONS.ACCOUNTS_UNLOCK),
+  validate(schema.adminUnlockUser),
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await User.findById(req.params.id);
+
+      if (!user) {
+        return next(new ErrorHandler("User is not available with this id", 400));
+      }
+
+      user.failedLoginAttempts = 0;
+      user.lockUntil = undefined;
+      await user.save({ validateBeforeSave: false });
+
+      await resetEmailLimit("login-user", user.email);
 
+      res.status(200).json({
+        success: true,
+        message: "User unlocked successfully!",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  })
+);
 
 export default router;
@@ -1,10 +1,12 @@
 import mongoose from 'mongoose';
+import { ensureSystemRoles } from '../utils/permissions';
 
 const connectDatabase = () => {
   mongoose
     .connect(process.env.DB_URL as string)
     .then((data) => {
       console.log(`MongoDB connected with server: ${data.connection.host}`);
+      return ensureSystemRoles();
     })
     .catch((err) => {
       console.error(`Error: ${err.message}`);
@@ -4,10 +4,17 @@ import catchAsyncErrors from './catchAsyncErrors';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import User, { IUser } from '../model/user';
 import Shop from '../model/shop';
+import Staff, { IStaff, StaffRole, StaffScope, STAFF_ROLE_SCOPES } from '../model/staff';
+import { isSessionActive } from '../utils/session';
+import { verifySecondFactor } from '../utils/totp';
+import { getRolePermissions, Permission } from '../utils/permissions';
 
 export interface RequestUser extends Request {
   user?: any,
   seller?: any,
+  staff?: IStaff,
+  sessionId?: string,
+  sellerSessionId?: string,
 }
 
 export const isAuthenticated = catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
@@ -19,7 +26,13 @@ export const isAuthenticated = catchAsyncErrors(async (req: RequestUser, res: Re
 
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET_KEY as string) as JwtPayload;
+
+    if (!decoded.sid || !(await isSessionActive(decoded.sid, decoded.id))) {
+      return next(new ErrorHandler("Session has expired, please login again", 401));
+    }
+
     req.user = await User.findById(decoded.id) as IUser;
+    req.sessionId = decoded.sid;
     next();
   } catch (error) {
     return next(new ErrorHandler("Invalid token", 401));
@@ -34,11 +47,26 @@ export const isSeller = catchAsyncErrors(async (req: RequestUser, res: Response,
   }
     try {
     const decoded = jwt.verify(seller_token, process.env.JWT_SECRET_KEY as string) as JwtPayload;
+
+    if (!decoded.sid || !(await isSessionActive(decoded.sid, decoded.staffId || decoded.id))) {
+      return next(new ErrorHandler("Session has expired, please login again", 401));
+    }
+
      const seller = await Shop.findById(decoded.id) as IUser
    if (!seller) {
       return next(new ErrorHandler("Seller not found", 404));
     }
+
+    if (decoded.staffId) {
+      const staff = await Staff.findOne({ _id: decoded.staffId, shopId: decoded.id, status: "active" });
+      if (!staff) {
+        return next(new ErrorHandler("Staff account is no longer active", 401));
+      }
+      req.staff = staff;
+    }
+
     req.seller = seller;
+    req.sellerSessionId = decoded.sid;
     next();
   } catch (error) {
     return next(new ErrorHandler("Invalid token", 401));
@@ -46,11 +74,91 @@ export const isSeller = catchAsyncErrors(async (req: RequestUser, res: Response,
 
 });
 
-export const isAdmin = (...roles: string[]) => {
+// resolve the seller when a seller cookie is present, without requiring one.
+// Used on routes shared by buyers and sellers.
+export const loadSeller = (req: RequestUser, res: Response, next: NextFunction) => {
+  if (!req.cookies.seller_token) {
+    return next();
+  }
+
+  isSeller(req, res, () => next());
+};
+
+// owner-only routes, staff members are turned away
+export const isShopOwner = (req: RequestUser, res: Response, next: NextFunction) => {
+  if (req.staff) {
+    return next(new ErrorHandler("Only the shop owner can access this resource!", 403));
+  }
+  next();
+};
+
+// the owner can do everything, staff only what their role covers
+export const sellerCan = (scope: StaffScope) => {
   return (req: RequestUser, res: Response, next: NextFunction) => {
-    if (!roles.includes(req.user.role)) {
-      return next(new ErrorHandler(`${req.user.role} can not access this resources!`, 401));
-    };
+    if (req.staff && !STAFF_ROLE_SCOPES[req.staff.role as StaffRole].includes(scope)) {
+      return next(new ErrorHandler(`${req.staff.role} can not access this resources!`, 403));
+    }
+    next();
+  };
+};
+
+// who acted on behalf of the shop, recorded on orders, products and messages
+export const sellerActor = (req: RequestUser) => {
+  if (!req.seller) {
+    return undefined;
+  }
+
+  return {
+    shopId: String(req.seller._id),
+    staffId: req.staff ? String(req.staff._id) : undefined,
+    name: req.staff ? req.staff.name || req.staff.email : req.seller.name,
+    at: new Date(),
+  };
+};
+
+// sensitive seller changes need a fresh code from the authenticator app
+export const requireSellerTotp = catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+  try {
+    const seller = await Shop.findById(req.seller?._id).select(
+      "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastStep"
+    );
+
+    if (!seller || !seller.twoFactorEnabled) {
+      return next(new ErrorHandler("Please enable two-factor authentication to continue", 403));
+    }
+
+    if (!verifySecondFactor(seller, { code: req.body.totpCode })) {
+      return next(new ErrorHandler("Invalid two-factor code", 401));
+    }
+
+    await seller.save({ validateBeforeSave: false });
     next();
+  } catch (error) {
+    if (error instanceof Error) {
+      return next(new ErrorHandler(error.message, 500));
+    } else {
+      return next(new ErrorHandler('An unknown error occurred', 500));
+    }
   }
+});
+
+// allow the request only if the user's role grants every listed permission
+export const hasPermission = (...permissions: Permission[]) => {
+  return catchAsyncErrors(async (req: RequestUser, res: Response, next: NextFunction) => {
+    try {
+      const granted = await getRolePermissions(req.user?.role);
+
+      if (!permissions.every((permission) => granted.includes(permission))) {
+        return next(new ErrorHandler(`${req.user?.role} can not access this resources!`, 403));
+      }
+
+      next();
+    } catch (error) {
+      if (error instanceof Error) {
+        return next(new ErrorHandler(error.message, 500));
+      } else {
+        return next(new ErrorHandler('An unknown error occurred', 500));
+      }
+    }
+  });
 };
@@ -32,6 +32,7 @@ const errorMiddleware = (err: any, req: Request, res: Response, next: NextFuncti
   res.status(err.statusCode).json({
     success: false,
     message: err.message,
+    ...(err.errors && { errors: err.errors }),
   });
 };
 
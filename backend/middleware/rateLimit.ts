@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandler from '../utils/ErrorHandler';
+import { defaultRateLimitStore, RateLimitStore } from '../utils/rateLimitStore';
+
+interface RateLimitOptions {
+  name: string;
+  windowMs: number;
+  max: number;
+  // return undefined to skip limiting for this request
+  keyGenerator: (req: Request) => string | undefined;
+  message?: string;
+  store?: RateLimitStore;
+}
+
+export const rateLimit = (options: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = options.keyGenerator(req);
+
+    if (!key) {
+      return next();
+    }
+
+    try {
+      const store = options.store || defaultRateLimitStore;
+      const hit = await store.increment(`${options.name}:${key}`, options.windowMs);
+
+      if (hit.count > options.max) {
+        const retryAfter = Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000);
+        res.set('Retry-After', String(Math.max(retryAfter, 1)));
+        return next(new ErrorHandler(options.message || "Too many attempts, please try again later", 429));
+      }
+
+      next();
+    } catch (error) {
+      // a broken store must not lock everyone out
+      console.error(`Rate limit store error: ${error instanceof Error ? error.message : error}`);
+      next();
+    }
+  };
+};
+
+const FIFTEEN_MINUTES = 15 * 60 * 1000;
+
+export const limitByIp = (name: string, max = 20) => rateLimit({
+  name: `${name}:ip`,
+  windowMs: FIFTEEN_MINUTES,
+  max,
+  keyGenerator: (req) => req.ip,
+});
+
+export const limitByEmail = (name: string, max = 10) => rateLimit({
+  name: `${name}:email`,
+  windowMs: FIFTEEN_MINUTES,
+  max,
+  keyGenerator: (req) => req.body?.email ? String(req.body.email).toLowerCase() : undefined,
+});
+
+// forget the per-account counter, used when an admin unlocks an account
+export const resetEmailLimit = async (name: string, email: string): Promise<void> => {
+  await defaultRateLimitStore.reset(`${name}:email:${email.toLowerCase()}`);
+};
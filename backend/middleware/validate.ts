@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from 'express';
+import { z, AnyZodObject, ZodTypeAny } from 'zod';
+import ErrorHandler from '../utils/ErrorHandler';
+
+// one definition per route: it validates the request and documents the route
+// in the OpenAPI spec served at /api-docs
+export interface RouteSchema {
+  summary: string;
+  description?: string;
+  tags: string[];
+  params?: AnyZodObject;
+  query?: AnyZodObject;
+  body?: ZodTypeAny;
+  responses: Record<number, string>;
+}
+
+export interface ValidationIssue {
+  location: "params" | "query" | "body";
+  path: string;
+  message: string;
+}
+
+export type ValidatedBody<T extends RouteSchema> =
+  T["body"] extends ZodTypeAny ? z.infer<T["body"]> : never;
+
+export type ValidatedQuery<T extends RouteSchema> =
+  T["query"] extends AnyZodObject ? z.infer<T["query"]> : never;
+
+// the request after validate(schema), with the query the schema parsed
+export type ValidatedRequest<T extends RouteSchema, R extends Request = Request> =
+  Omit<R, "query"> & { query: ValidatedQuery<T> };
+
+export const defineRoute = <T extends RouteSchema>(schema: T): T => schema;
+
+const LOCATIONS = ["params", "query", "body"] as const;
+
+export const validate = <T extends RouteSchema>(schema: T) => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const issues: ValidationIssue[] = [];
+
+    for (const location of LOCATIONS) {
+      const partSchema = schema[location];
+      if (!partSchema) {
+        continue;
+      }
+
+      const result = partSchema.safeParse(req[location] ?? {});
+
+      if (result.success) {
+        // parsed values are coerced and stripped of unknown keys
+        req[location] = result.data;
+      } else {
+        issues.push(...result.error.issues.map((issue) => ({
+          location,
+          path: issue.path.join("."),
+          message: issue.message,
+        })));
+      }
+    }
+
+    if (issues.length) {
+      return next(new ErrorHandler("Validation failed", 422, issues));
+    }
+
+    next();
+  };
+
+  return Object.assign(middleware, { routeSchema: schema });
+};
@@ -0,0 +1,146 @@
+/**
+ * Moves the free-text `category` strings of products and events onto the
+ * category tree.
+ *
+ *   npm run migrate:categories -- [--dry-run] [--map category-map.json]
+ *
+ * Spellings that only differ in case, spacing, punctuation or a plural "s"
+ * ("Electronics", "electronics", "Electronic") become one top-level category
+ * named after the most used spelling. A map file can place strings anywhere
+ * in the tree instead, e.g. { "Phones": "Electronics/Mobile phones" }; missing
+ * categories along the path are created. Documents that already reference a
+ * category id are left alone, so the script can be run again.
+ */
+import "../config/env";
+import fs from "fs";
+import mongoose from "mongoose";
+import Category, { ICategory } from "../model/category";
+import Product from "../model/product";
+import Event from "../model/event";
+import { slugify } from "../utils/categories";
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const mapIndex = args.indexOf("--map");
+const categoryMap: Record<string, string> = mapIndex === -1
+  ? {}
+  : JSON.parse(fs.readFileSync(args[mapIndex + 1], "utf8"));
+
+// "Electronics", " electronic " and "ELECTRONICS" share the key "electronic"
+const normalize = (value: string): string =>
+  slugify(value)
+    .split("-")
+    .map((word) => word.replace(/([^s])s$/, "$1"))
+    .join("-");
+
+const collections = [Product.collection, Event.collection];
+
+const countSpellings = async (): Promise<Map<string, number>> => {
+  const counts = new Map<string, number>();
+
+  for (const collection of collections) {
+    const groups = await collection
+      .aggregate<{ _id: string; count: number }>([
+        { $match: { category: { $type: "string" } } },
+        { $group: { _id: "$category", count: { $sum: 1 } } },
+      ])
+      .toArray();
+
+    for (const { _id, count } of groups) {
+      counts.set(_id, (counts.get(_id) || 0) + count);
+    }
+  }
+
+  return counts;
+};
+
+const findOrCreate = async (name: string, parent: ICategory | null): Promise<ICategory> => {
+  const existing = await Category.findOne({ name, parent: parent ? parent._id : null });
+  if (existing) {
+    return existing;
+  }
+
+  const bySlug = await Category.findOne({ slug: slugify(name) });
+  if (bySlug && String(bySlug.parent) === String(parent ? parent._id : null)) {
+    return bySlug;
+  }
+
+  // the same name can live under two parents, so fall back to a longer slug
+  const slug = bySlug && parent ? `${parent.slug}-${slugify(name)}` : slugify(name);
+
+  if (dryRun) {
+    console.log(`  would create category ${slug}`);
+    return new Category({ name, slug, parent: parent?._id, ancestors: parent ? [...parent.ancestors, parent._id] : [] });
+  }
+
+  return Category.create({
+    name,
+    slug,
+    parent: parent ? parent._id : null,
+    ancestors: parent ? [...parent.ancestors, parent._id] : [],
+  });
+};
+
+const findOrCreatePath = async (path: string): Promise<ICategory> => {
+  let parent: ICategory | null = null;
+
+  for (const name of path.split("/").map((part) => part.trim()).filter(Boolean)) {
+    parent = await findOrCreate(name, parent);
+  }
+
+  if (!parent) {
+    throw new Error(`Empty category path "${path}"`);
+  }
+
+  return parent;
+};
+
+const migrate = async () => {
+  await mongoose.connect(process.env.DB_URL as string);
+
+  const counts = await countSpellings();
+  const targets = new Map<string, ICategory>();
+
+  // mapped strings first, then one category per group of similar spellings
+  for (const [spelling, path] of Object.entries(categoryMap)) {
+    if (counts.has(spelling)) {
+      targets.set(spelling, await findOrCreatePath(path));
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const spelling of counts.keys()) {
+    if (!targets.has(spelling) && spelling.trim()) {
+      const key = normalize(spelling);
+      groups.set(key, [...(groups.get(key) || []), spelling]);
+    }
+  }
+
+  for (const spellings of groups.values()) {
+    const [name] = [...spellings].sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0));
+    const category = await findOrCreate(name.trim(), null);
+    spellings.forEach((spelling) => targets.set(spelling, category));
+  }
+
+  for (const [spelling, category] of targets) {
+    console.log(`"${spelling}" (${counts.get(spelling)}) -> ${category.slug}`);
+
+    if (!dryRun) {
+      for (const collection of collections) {
+        await collection.updateMany({ category: spelling }, { $set: { category: category._id } });
+      }
+    }
+  }
+
+  const unmapped = [...counts.keys()].filter((spelling) => !targets.has(spelling));
+  if (unmapped.length) {
+    console.log(`Left without a category: ${unmapped.map((spelling) => `"${spelling}"`).join(", ")}`);
+  }
+
+  await mongoose.disconnect();
+};
+
+migrate().catch((err: Error) => {
+  console.error(`Error: ${err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+/**
+ * Books the balance shops had before the ledger as one opening entry each,
+ * so reconcileLedger finds their entries matching their availableBalance.
+ *
+ *   npm run migrate:ledger -- [--dry-run]
+ *
+ * Only shops with a balance and no entries yet get one, and their
+ * availableBalance stays as it is, so the script can be run again. Run it
+ * before the shops take new orders or withdrawals, as those add entries.
+ */
+import "../config/env";
+import mongoose from "mongoose";
+import Shop from "../model/shop";
+import LedgerEntry from "../model/ledgerEntry";
+import { postOpeningBalance } from "../utils/ledger";
+import { roundMoney } from "../utils/pricing";
+
+const dryRun = process.argv.slice(2).includes("--dry-run");
+
+const migrate = async () => {
+  await mongoose.connect(process.env.DB_URL as string);
+
+  const shopsWithEntries = new Set((await LedgerEntry.distinct("shopId")).map(String));
+  const shops = await Shop.find({ availableBalance: { $nin: [0, null] } }).select("name availableBalance");
+
+  let booked = 0;
+
+  for (const shop of shops) {
+    const shopId = String(shop._id);
+    const balance = roundMoney(shop.availableBalance);
+
+    if (shopsWithEntries.has(shopId) || !balance) {
+      continue;
+    }
+
+    console.log(`${shop.name} (${shopId}): ${balance.toFixed(2)}`);
+
+    if (!dryRun && (await postOpeningBalance(shopId, balance))) {
+      booked++;
+    }
+  }
+
+  console.log(dryRun ? "Dry run, nothing was booked" : `Booked ${booked} opening balances`);
+
+  await mongoose.disconnect();
+};
+
+migrate().catch((err: Error) => {
+  console.error(`Error: ${err.message}`);
+  process.exit(1);
+});
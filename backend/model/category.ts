@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ICategory extends Document {
+  name: string;
+  slug: string;
+  parent?: mongoose.Types.ObjectId | null;
+  // every category above this one, root first
+  ancestors: mongoose.Types.ObjectId[];
+  icon?: {
+    public_id: string;
+    url: string;
+  };
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const CategorySchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: [true, "Please enter the category name!"],
+    trim: true,
+  },
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+  },
+  parent: {
+    type: Schema.Types.ObjectId,
+    ref: "Category",
+    default: null,
+  },
+  ancestors: {
+    type: [{ type: Schema.Types.ObjectId, ref: "Category" }],
+    default: [],
+    index: true,
+  },
+  icon: {
+    public_id: {
+      type: String,
+    },
+    url: {
+      type: String,
+    },
+  },
+  sortOrder: {
+    type: Number,
+    default: 0,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+  },
+});
+
+export default mongoose.model<ICategory>("Category", CategorySchema);
@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { ShopTier, SHOP_TIERS } from "./shop";
+
+/**
+ * What the marketplace takes of an order line. A rule only applies to lines
+ * that match every condition it sets; rules without conditions apply to all.
+ */
+export interface ICommissionRule extends Document {
+  name: string;
+  // percent of the line, 0 for promotions
+  rate: number;
+  // the highest priority of the matching rules wins
+  priority: number;
+  // also covers the subcategories
+  categoryId?: mongoose.Types.ObjectId;
+  shopTier?: ShopTier;
+  shopId?: string;
+  // only for shops that joined less than this many days before the order
+  newSellerDays?: number;
+  effectiveFrom: Date;
+  effectiveTo?: Date;
+  active: boolean;
+  createdBy?: object;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const CommissionRuleSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: [true, "Please enter the rule name!"],
+    trim: true,
+  },
+  rate: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100,
+  },
+  priority: {
+    type: Number,
+    default: 0,
+  },
+  categoryId: {
+    type: Schema.Types.ObjectId,
+    ref: "Category",
+  },
+  shopTier: {
+    type: String,
+    enum: SHOP_TIERS,
+  },
+  shopId: {
+    type: String,
+  },
+  newSellerDays: {
+    type: Number,
+  },
+  effectiveFrom: {
+    type: Date,
+    default: Date.now,
+  },
+  effectiveTo: {
+    type: Date,
+  },
+  active: {
+    type: Boolean,
+    default: true,
+  },
+  createdBy: {
+    type: Object,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+  },
+});
+
+CommissionRuleSchema.index({ active: 1, effectiveFrom: 1 });
+
+export default mongoose.model<ICommissionRule>("CommissionRule", CommissionRuleSchema);
@@ -7,6 +7,8 @@ export interface ICouponCode extends Document {
   maxAmount: number;
   shopId: string;
   selectedProduct: string;
+  // orders placed with the coupon, less the cancelled ones
+  usedCount: number;
   createdAt: Date;
 }
 
@@ -33,6 +35,10 @@ const CouponCodeSchema: Schema = new Schema({
   selectedProduct: {
     type: String,
   },
+  usedCount: {
+    type: Number,
+    default: 0,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
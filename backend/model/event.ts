@@ -3,7 +3,7 @@ import mongoose, { Document, Schema } from "mongoose";
 export interface IEvent extends Document {
   name: string;
   description: string;
-  category: string;
+  category: mongoose.Types.ObjectId;
   start_Date: Date;
   Finish_Date: Date;
   status: string;
@@ -11,6 +11,8 @@ export interface IEvent extends Document {
   originalPrice: number;
   discountPrice: number;
   stock: number;
+  // units held by open orders that haven't shipped yet
+  reserved: number;
   images: { public_id: string; url: string }[];
   shopId: string;
   shop: object;
@@ -28,7 +30,8 @@ const EventSchema: Schema = new Schema({
     required: [true, "Please enter your event product description!"],
   },
   category: {
-    type: String,
+    type: Schema.Types.ObjectId,
+    ref: "Category",
     required: [true, "Please enter your event product category!"],
   },
   start_Date: {
@@ -57,6 +60,10 @@ const EventSchema: Schema = new Schema({
     type: Number,
     required: [true, "Please enter your event product stock!"],
   },
+  reserved: {
+    type: Number,
+    default: 0,
+  },
   images: [
     {
       public_id: {
@@ -87,6 +94,8 @@ const EventSchema: Schema = new Schema({
   },
 });
 
+EventSchema.index({ category: 1 });
+
 const EventModel = mongoose.model<IEvent>("Event", EventSchema);
 
 export default EventModel;
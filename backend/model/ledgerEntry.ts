@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const LEDGER_ENTRY_TYPES = [
+  "sale",
+  "commission",
+  "refund",
+  "commission_refund",
+  "withdrawal",
+  "adjustment",
+  "opening_balance",
+] as const;
+
+export type LedgerEntryType = typeof LEDGER_ENTRY_TYPES[number];
+
+// "seller" is what the marketplace owes the shop, the others are its counterparts
+export type LedgerAccount = "seller" | "sales" | "commission" | "payouts" | "adjustments";
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  amount: number;
+}
+
+/**
+ * One booking in a shop's ledger. Its lines always add up to zero, and
+ * entries are never changed or removed: a mistake is undone by another entry.
+ */
+export interface ILedgerEntry extends Document {
+  shopId: string;
+  type: LedgerEntryType;
+  // what the entry is for, e.g. "order:<id>"; an entry type is booked once per reference
+  reference: string;
+  lines: LedgerLine[];
+  // the seller line, what the entry adds to or takes off the shop's balance
+  amount: number;
+  orderId?: string;
+  withdrawId?: string;
+  note?: string;
+  createdBy?: object;
+  createdAt: Date;
+}
+
+const LedgerEntrySchema: Schema = new Schema({
+  shopId: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: LEDGER_ENTRY_TYPES,
+    required: true,
+  },
+  reference: {
+    type: String,
+    required: true,
+  },
+  lines: [
+    {
+      _id: false,
+      account: {
+        type: String,
+        enum: ["seller", "sales", "commission", "payouts", "adjustments"],
+        required: true,
+      },
+      amount: {
+        type: Number,
+        required: true,
+      },
+    },
+  ],
+  amount: {
+    type: Number,
+    required: true,
+  },
+  orderId: {
+    type: String,
+  },
+  withdrawId: {
+    type: String,
+  },
+  note: {
+    type: String,
+  },
+  createdBy: {
+    type: Object,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// a retried request can't book the same sale or refund twice
+LedgerEntrySchema.index({ type: 1, reference: 1 }, { unique: true });
+LedgerEntrySchema.index({ shopId: 1, createdAt: 1 });
+
+export default mongoose.model<ILedgerEntry>("LedgerEntry", LedgerEntrySchema);
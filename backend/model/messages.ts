@@ -9,6 +9,7 @@ export interface IMessage extends Document {
     public_id: string;
     url: string;
   };
+  sentBy?: object;
 }
 
 const MessagesSchema: Schema = new Schema(
@@ -34,6 +35,10 @@ const MessagesSchema: Schema = new Schema(
         type: String,
       },
     },
+    // staff member who replied on behalf of the shop
+    sentBy: {
+      type: Object,
+    },
   },
   { timestamps: true }
 );
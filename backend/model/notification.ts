@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type NotificationType = "low_stock" | "out_of_stock" | "order_cancelled";
+
+// messages for the seller dashboard
+export interface INotification extends Document {
+  shopId: string;
+  type: NotificationType;
+  message: string;
+  productId?: string;
+  variantId?: string;
+  orderId?: string;
+  read: boolean;
+  createdAt: Date;
+}
+
+const NotificationSchema: Schema = new Schema({
+  shopId: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: ["low_stock", "out_of_stock", "order_cancelled"],
+    required: true,
+  },
+  message: {
+    type: String,
+    required: true,
+  },
+  productId: {
+    type: String,
+  },
+  variantId: {
+    type: String,
+  },
+  orderId: {
+    type: String,
+  },
+  read: {
+    type: Boolean,
+    default: false,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+NotificationSchema.index({ shopId: 1, createdAt: -1 });
+
+export default mongoose.model<INotification>("Notification", NotificationSchema);
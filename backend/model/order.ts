@@ -1,6 +1,62 @@
-const mongoose = require("mongoose");
+import mongoose, { Document, Schema } from "mongoose";
+import { PricedLine } from "../utils/pricing";
+import { OrderRefund } from "../utils/payments";
+import { CommissionSnapshot } from "../utils/commission";
+import { StatusChange } from "../utils/orderStatus";
+import { ReservationStatus } from "../utils/inventory";
+import { ShipmentItem } from "../utils/shipments";
+import { ShipmentStatus } from "../utils/carriers";
 
-const orderSchema = new mongoose.Schema({
+export interface OrderLine extends PricedLine {
+  // what the marketplace takes for the line, see applyCommission
+  commission?: CommissionSnapshot;
+}
+
+export interface IShipment {
+  _id: mongoose.Types.ObjectId;
+  carrier: string;
+  trackingNumber: string;
+  trackingUrl?: string;
+  items: ShipmentItem[];
+  status: ShipmentStatus;
+  estimatedDelivery?: Date;
+  events: { status: string; at: Date; description?: string; location?: string }[];
+  createdBy?: object;
+  createdAt: Date;
+}
+
+export interface IOrder extends Document {
+  _id: mongoose.Types.ObjectId;
+  cart: OrderLine[];
+  shippingAddress: Record<string, any>;
+  user: Record<string, any>;
+  subTotalPrice?: number;
+  discount: number;
+  couponCode?: string;
+  shipping: number;
+  tax: number;
+  totalPrice: number;
+  status: string;
+  invoiceNumber?: string;
+  statusHistory: StatusChange[];
+  paymentInfo: {
+    id?: string;
+    status?: string;
+    type?: string;
+  };
+  paidAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+  reservation?: {
+    status?: ReservationStatus;
+    expiresAt?: Date;
+  };
+  refunds: OrderRefund[];
+  shipments: mongoose.Types.DocumentArray<IShipment>;
+  updatedBy?: object;
+}
+
+const orderSchema: Schema = new Schema({
     cart:{
         type: Array,
         required: true,
@@ -13,6 +69,25 @@ const orderSchema = new mongoose.Schema({
         type: Object,
         required: true,
     },
+    // what the shop's part of the checkout cost, worked out by the server
+    subTotalPrice:{
+        type: Number,
+    },
+    discount:{
+        type: Number,
+        default: 0,
+    },
+    couponCode:{
+        type: String,
+    },
+    shipping:{
+        type: Number,
+        default: 0,
+    },
+    tax:{
+        type: Number,
+        default: 0,
+    },
     totalPrice:{
         type: Number,
         required: true,
@@ -21,6 +96,33 @@ const orderSchema = new mongoose.Schema({
         type: String,
         default: "Processing",
     },
+    // numbered per shop, given when the order is placed
+    invoiceNumber:{
+        type: String,
+    },
+    // every status the order went through, who set it and why
+    statusHistory:[
+        {
+            _id: false,
+            status:{
+                type: String,
+                required: true,
+            },
+            from:{
+                type: String,
+            },
+            at:{
+                type: Date,
+                default: Date.now,
+            },
+            actor:{
+                type: Object,
+            },
+            note:{
+                type: String,
+            },
+        },
+    ],
     paymentInfo:{
         id:{
             type: String,
@@ -32,9 +134,9 @@ const orderSchema = new mongoose.Schema({
             type: String,
         },
     },
+    // set when the payment provider confirms the payment, or on delivery for cash
     paidAt:{
         type: Date,
-        default: Date.now(),
     },
     deliveredAt: {
         type: Date,
@@ -43,6 +145,142 @@ const orderSchema = new mongoose.Schema({
         type: Date,
         default: Date.now(),
     },
+    // stock held for the order from checkout until it ships
+    reservation:{
+        status:{
+            type: String,
+        },
+        expiresAt:{
+            type: Date,
+        },
+    },
+    // money given back to the buyer through the payment provider
+    refunds:[
+        {
+            _id: false,
+            provider:{
+                type: String,
+                required: true,
+            },
+            id:{
+                type: String,
+            },
+            amount:{
+                type: Number,
+                required: true,
+            },
+            status:{
+                type: String,
+            },
+            reason:{
+                type: String,
+            },
+            // idempotency key sent to the provider with every attempt
+            key:{
+                type: String,
+            },
+            // taken off the shop's balance for this refund
+            sellerAmount:{
+                type: Number,
+            },
+            // kept while the provider fails and the refund is "retrying"
+            error:{
+                type: String,
+            },
+            attempts:{
+                type: Number,
+            },
+            retryAt:{
+                type: Date,
+            },
+            createdAt:{
+                type: Date,
+                default: Date.now,
+            },
+        },
+    ],
+    // parcels sent for the order, each with some or all of its items
+    shipments:[
+        {
+            carrier:{
+                type: String,
+                required: true,
+            },
+            trackingNumber:{
+                type: String,
+                required: true,
+            },
+            trackingUrl:{
+                type: String,
+            },
+            items:[
+                {
+                    _id: false,
+                    // index of the line in the cart
+                    line:{
+                        type: Number,
+                        required: true,
+                    },
+                    qty:{
+                        type: Number,
+                        required: true,
+                    },
+                    name:{
+                        type: String,
+                    },
+                    sku:{
+                        type: String,
+                    },
+                },
+            ],
+            status:{
+                type: String,
+                default: "pre_transit",
+            },
+            estimatedDelivery:{
+                type: Date,
+            },
+            events:[
+                {
+                    _id: false,
+                    status:{
+                        type: String,
+                        required: true,
+                    },
+                    at:{
+                        type: Date,
+                        required: true,
+                    },
+                    description:{
+                        type: String,
+                    },
+                    location:{
+                        type: String,
+                    },
+                },
+            ],
+            createdBy:{
+                type: Object,
+            },
+            createdAt:{
+                type: Date,
+                default: Date.now,
+            },
+        },
+    ],
+    // shop owner or staff member behind the last seller-side change
+    updatedBy:{
+        type: Object,
+    },
 });
 
-export default mongoose.model("Order", orderSchema);
+// the refund retry sweep looks for refunds that are due
+orderSchema.index({ "refunds.status": 1, "refunds.retryAt": 1 });
+
+// tracking updates find their shipment by carrier and tracking number
+orderSchema.index({ "shipments.carrier": 1, "shipments.trackingNumber": 1 });
+
+// two orders can't get the same invoice number, see assignInvoiceNumber
+orderSchema.index({ invoiceNumber: 1 }, { unique: true, partialFilterExpression: { invoiceNumber: { $exists: true } } });
+
+export default mongoose.model<IOrder>("Order", orderSchema);
@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// webhook events from a payment provider that were already handled
+export interface IPaymentEvent extends Document {
+  provider: string;
+  eventId: string;
+  type: string;
+  receivedAt: Date;
+}
+
+const PaymentEventSchema: Schema = new Schema({
+  provider: {
+    type: String,
+    required: true,
+  },
+  eventId: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    required: true,
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// providers deliver an event more than once, the second insert fails
+PaymentEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+
+export default mongoose.model<IPaymentEvent>("PaymentEvent", PaymentEventSchema);
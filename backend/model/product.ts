@@ -13,24 +13,101 @@ interface Review {
   createdAt: Date;
 }
 
-interface IProduct extends Document {
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface IVariant {
+  _id: mongoose.Types.ObjectId;
+  sku: string;
+  // one value per product option, e.g. { Size: "M", Colour: "Red" }
+  options: Record<string, string>;
+  originalPrice?: number;
+  price: number;
+  stock: number;
+  // units held by open orders that haven't shipped yet
+  reserved: number;
+  availableStock: number;
+  images: Image[];
+  sold_out: number;
+}
+
+export interface IProduct extends Document {
+  // the seller's own stock keeping unit, unique within the shop
+  sku?: string;
   name: string;
   description: string;
-  category: string;
+  category: mongoose.Types.ObjectId;
   tags?: string;
   originalPrice?: number;
   discountPrice: number;
+  // units on hand, including the reserved ones
   stock: number;
+  reserved: number;
+  // what can still be ordered: stock minus reserved
+  availableStock: number;
+  // alert the seller at or below this, falls back to the shop default
+  lowStockThreshold?: number | null;
   images: Image[];
+  options: ProductOption[];
+  variants: mongoose.Types.DocumentArray<IVariant>;
   reviews: Review[];
   ratings?: number;
   shopId: string;
   shop: object;
   sold_out?: number;
+  updatedBy?: object;
   createdAt: Date;
 }
 
+const variantSchema = new Schema<IVariant>({
+  sku: {
+    type: String,
+    required: [true, "Please enter the variant SKU!"],
+  },
+  options: {
+    type: Object,
+    required: true,
+  },
+  originalPrice: Number,
+  price: {
+    type: Number,
+    required: [true, "Please enter the variant price!"],
+  },
+  stock: {
+    type: Number,
+    required: [true, "Please enter the variant stock!"],
+  },
+  reserved: {
+    type: Number,
+    default: 0,
+  },
+  images: [{
+    public_id: {
+      type: String,
+      required: true,
+    },
+    url: {
+      type: String,
+      required: true,
+    },
+  }],
+  sold_out: {
+    type: Number,
+    default: 0,
+  },
+}, { toJSON: { virtuals: true } });
+
+variantSchema.virtual("availableStock").get(function (this: IVariant) {
+  return Math.max(0, this.stock - (this.reserved || 0));
+});
+
 const productSchema = new Schema<IProduct>({
+  sku: {
+    type: String,
+    trim: true,
+  },
   name: {
     type: String,
     required: [true, "Please enter your product name!"],
@@ -40,7 +117,8 @@ const productSchema = new Schema<IProduct>({
     required: [true, "Please enter your product description!"],
   },
   category: {
-    type: String,
+    type: Schema.Types.ObjectId,
+    ref: "Category",
     required: [true, "Please enter your product category!"],
   },
   tags: String,
@@ -53,6 +131,11 @@ const productSchema = new Schema<IProduct>({
     type: Number,
     required: [true, "Please enter your product stock!"],
   },
+  reserved: {
+    type: Number,
+    default: 0,
+  },
+  lowStockThreshold: Number,
   images: [{
     public_id: {
       type: String,
@@ -63,6 +146,15 @@ const productSchema = new Schema<IProduct>({
       required: true,
     },
   }],
+  options: [{
+    _id: false,
+    name: {
+      type: String,
+      required: true,
+    },
+    values: [String],
+  }],
+  variants: [variantSchema],
   reviews: [{
     user: Object,
     rating: Number,
@@ -86,10 +178,48 @@ const productSchema = new Schema<IProduct>({
     type: Number,
     default: 0,
   },
+  // shop owner or staff member behind the last change
+  updatedBy: {
+    type: Object,
+  },
   createdAt: {
     type: Date,
     default: Date.now(),
   },
+}, { toJSON: { virtuals: true } });
+
+productSchema.virtual("availableStock").get(function (this: IProduct) {
+  return Math.max(0, this.stock - (this.reserved || 0));
 });
 
+// listings with variants show their total stock and lowest price, which
+// keeps search filters and sorting working on the product fields
+function syncVariantTotals(this: IProduct, next: () => void) {
+  if (this.variants.length) {
+    this.stock = this.variants.reduce((total, variant) => total + variant.stock, 0);
+    this.reserved = this.variants.reduce((total, variant) => total + (variant.reserved || 0), 0);
+    this.discountPrice = Math.min(...this.variants.map((variant) => variant.price));
+  }
+  next();
+}
+
+// validate runs first so a product with variants doesn't need its own price,
+// save covers stock changes that skip validation
+productSchema.pre('validate', syncVariantTotals);
+productSchema.pre('save', syncVariantTotals);
+
+// backs /product/search, no outside search service needed
+productSchema.index(
+  { name: "text", description: "text", tags: "text" },
+  { weights: { name: 10, tags: 5, description: 1 }, name: "product_search" }
+);
+productSchema.index({ category: 1, discountPrice: 1 });
+productSchema.index({ shopId: 1 });
+// SKUs only need to be unique within a shop
+productSchema.index({ shopId: 1, sku: 1 }, { unique: true, partialFilterExpression: { sku: { $exists: true } } });
+productSchema.index(
+  { shopId: 1, "variants.sku": 1 },
+  { unique: true, partialFilterExpression: { "variants.sku": { $exists: true } } }
+);
+
 export default mongoose.model<IProduct>('Product', productSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ProductChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface IProductRevision extends Document {
+  productId: string;
+  shopId: string;
+  changes: ProductChange[];
+  // shop owner or staff member who made the change
+  actor?: object;
+  createdAt: Date;
+}
+
+const ProductRevisionSchema: Schema = new Schema({
+  productId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  shopId: {
+    type: String,
+    required: true,
+  },
+  changes: [
+    {
+      _id: false,
+      field: {
+        type: String,
+        required: true,
+      },
+      from: Schema.Types.Mixed,
+      to: Schema.Types.Mixed,
+    },
+  ],
+  actor: {
+    type: Object,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+export default mongoose.model<IProductRevision>("ProductRevision", ProductRevisionSchema);
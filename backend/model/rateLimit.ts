@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IRateLimit extends Document {
+  key: string;
+  count: number;
+  resetAt: Date;
+}
+
+const RateLimitSchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  resetAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// expired windows are removed by mongo
+RateLimitSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+const RateLimitModel = mongoose.model<IRateLimit>("RateLimit", RateLimitSchema);
+
+export default RateLimitModel;
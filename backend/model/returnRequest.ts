@@ -0,0 +1,155 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const RETURN_REASONS = [
+  "damaged",
+  "defective",
+  "wrong_item",
+  "not_as_described",
+  "no_longer_needed",
+  "other",
+] as const;
+
+export type ReturnReason = typeof RETURN_REASONS[number];
+
+export type ReturnStatus = "requested" | "approved" | "rejected" | "received" | "refunded";
+
+export interface ReturnItem {
+  // index of the line in the order's cart
+  line: number;
+  qty: number;
+  name?: string;
+  sku?: string;
+  unitPrice: number;
+  // filled in by the seller's inspection
+  receivedQty?: number;
+  restockQty?: number;
+}
+
+export interface IReturnRequest extends Document {
+  orderId: string;
+  shopId: string;
+  userId: string;
+  items: ReturnItem[];
+  reason: ReturnReason;
+  comment?: string;
+  images: { public_id: string; url: string }[];
+  status: ReturnStatus;
+  // how to send the goods back, set when the seller approves
+  instructions?: string;
+  labelUrl?: string;
+  inspectionNote?: string;
+  refund?: {
+    provider?: string;
+    id?: string;
+    amount: number;
+    // the shop's share that came off its balance
+    sellerAmount: number;
+    createdAt: Date;
+  };
+  history: { status: ReturnStatus; at: Date; actor?: object; note?: string }[];
+  createdAt: Date;
+}
+
+const ReturnRequestSchema: Schema = new Schema({
+  orderId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  shopId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  items: [
+    {
+      _id: false,
+      line: {
+        type: Number,
+        required: true,
+      },
+      qty: {
+        type: Number,
+        required: true,
+      },
+      name: String,
+      sku: String,
+      unitPrice: {
+        type: Number,
+        required: true,
+      },
+      receivedQty: Number,
+      restockQty: Number,
+    },
+  ],
+  reason: {
+    type: String,
+    enum: RETURN_REASONS,
+    required: [true, "Please choose a reason for the return!"],
+  },
+  comment: {
+    type: String,
+  },
+  images: [
+    {
+      public_id: {
+        type: String,
+        required: true,
+      },
+      url: {
+        type: String,
+        required: true,
+      },
+    },
+  ],
+  status: {
+    type: String,
+    default: "requested",
+  },
+  instructions: {
+    type: String,
+  },
+  labelUrl: {
+    type: String,
+  },
+  inspectionNote: {
+    type: String,
+  },
+  refund: {
+    provider: String,
+    id: String,
+    amount: Number,
+    sellerAmount: Number,
+    createdAt: Date,
+  },
+  history: [
+    {
+      _id: false,
+      status: {
+        type: String,
+        required: true,
+      },
+      at: {
+        type: Date,
+        default: Date.now,
+      },
+      actor: {
+        type: Object,
+      },
+      note: {
+        type: String,
+      },
+    },
+  ],
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+export default mongoose.model<IReturnRequest>("ReturnRequest", ReturnRequestSchema);
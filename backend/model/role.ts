@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IRole extends Document {
+  name: string;
+  description?: string;
+  permissions: string[];
+  system: boolean;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const RoleSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: [true, "Please enter the role name!"],
+    unique: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+  },
+  permissions: {
+    type: [String],
+    default: [],
+  },
+  // built-in roles can't be edited or deleted
+  system: {
+    type: Boolean,
+    default: false,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+  },
+});
+
+const RoleModel = mongoose.model<IRole>("Role", RoleSchema);
+
+export default RoleModel;
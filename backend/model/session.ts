@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type SessionOwnerType = "User" | "Shop" | "Staff";
+
+export interface ISession extends Document {
+  owner: string;
+  ownerType: SessionOwnerType;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string;
+  userAgent?: string;
+  ip?: string;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+const SessionSchema: Schema = new Schema({
+  owner: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  ownerType: {
+    type: String,
+    enum: ["User", "Shop", "Staff"],
+    required: true,
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  previousRefreshTokenHash: {
+    type: String,
+    index: true,
+  },
+  userAgent: {
+    type: String,
+  },
+  ip: {
+    type: String,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// let mongo drop sessions once the refresh token can no longer be used
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const SessionModel = mongoose.model<ISession>("Session", SessionSchema);
+
+export default SessionModel;
@@ -1,6 +1,13 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt, { Secret } from 'jsonwebtoken';
+import { ACCESS_TOKEN_MAX_AGE } from '../utils/session';
+
+// set by admins, commission rules can depend on it
+export const SHOP_TIERS = ["standard", "plus", "premium"] as const;
+
+export type ShopTier = typeof SHOP_TIERS[number];
 
 export interface IShop extends Document {
   name: string;
@@ -17,6 +24,11 @@ export interface IShop extends Document {
   zipCode: number;
   withdrawMethod?: object;
   availableBalance: number;
+  tier: ShopTier;
+  // default low-stock threshold of the shop's products
+  lowStockThreshold?: number;
+  // last invoice number given to one of the shop's orders
+  invoiceSequence: number;
   transections: Array<{
     amount: number;
     status: string;
@@ -26,8 +38,15 @@ export interface IShop extends Document {
   createdAt: Date;
   resetPasswordToken?: string;
   resetPasswordTime?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastStep?: number;
+  failedLoginAttempts?: number;
+  lockUntil?: Date;
   comparePassword: (enteredPassword: string) => Promise<boolean>;
-  getJwtToken: () => string;
+  getJwtToken: (sessionId: string) => string;
+  getResetPasswordToken: () => string;
 }
 
 const shopSchema = new Schema<IShop>({
@@ -81,6 +100,19 @@ const shopSchema = new Schema<IShop>({
     type: Number,
     default: 0,
   },
+  tier: {
+    type: String,
+    enum: SHOP_TIERS,
+    default: "standard",
+  },
+  lowStockThreshold: {
+    type: Number,
+    default: 5,
+  },
+  invoiceSequence: {
+    type: Number,
+    default: 0,
+  },
   transections: [
     {
       amount: {
@@ -106,23 +138,45 @@ const shopSchema = new Schema<IShop>({
   },
   resetPasswordToken: String,
   resetPasswordTime: Date,
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false,
+  },
+  twoFactorSecret: {
+    type: String,
+    select: false,
+  },
+  twoFactorRecoveryCodes: {
+    type: [String],
+    select: false,
+  },
+  twoFactorLastStep: {
+    type: Number,
+    select: false,
+  },
+  failedLoginAttempts: {
+    type: Number,
+    default: 0,
+  },
+  lockUntil: {
+    type: Date,
+  },
 });
 
 // Hash password
 shopSchema.pre('save', async function (next) {
   if (!this.isModified('password')) {
-    next();
+    return next();
   }
   this.password = await bcrypt.hash(this.password, 10);
 });
 
 // jwt token
-shopSchema.methods.getJwtToken = function () {
+shopSchema.methods.getJwtToken = function (sessionId: string) {
   const secretKey: Secret = process.env.JWT_SECRET_KEY || '';
-  const jwtExpires: string | number | undefined = process.env.JWT_EXPIRES;
 
-  return jwt.sign({ id: this._id }, secretKey, {
-    expiresIn: jwtExpires,
+  return jwt.sign({ id: this._id, sid: sessionId }, secretKey, {
+    expiresIn: ACCESS_TOKEN_MAX_AGE / 1000,
   });
 };
 
@@ -131,5 +185,15 @@ shopSchema.methods.comparePassword = async function (enteredPassword: string) {
   return await bcrypt.compare(enteredPassword, this.password);
 };
 
+// reset password token
+shopSchema.methods.getResetPasswordToken = function () {
+  const resetToken = crypto.randomBytes(20).toString('hex');
+
+  this.resetPasswordToken = crypto.createHash('sha256').update(resetToken).digest('hex');
+  this.resetPasswordTime = new Date(Date.now() + 15 * 60 * 1000);
+
+  return resetToken;
+};
+
 export default mongoose.model<IShop>('Shop', shopSchema);
 
@@ -0,0 +1,126 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import jwt, { Secret } from 'jsonwebtoken';
+import { ACCESS_TOKEN_MAX_AGE } from '../utils/session';
+
+export type StaffRole = "catalog_manager" | "order_fulfilment" | "support_inbox";
+export type StaffScope = "catalog" | "orders" | "inbox";
+
+// what each staff role may touch in the shop. Withdrawals, payment methods,
+// shop settings and staff management stay with the owner.
+export const STAFF_ROLE_SCOPES: Record<StaffRole, StaffScope[]> = {
+  catalog_manager: ["catalog"],
+  order_fulfilment: ["orders"],
+  support_inbox: ["inbox"],
+};
+
+export interface IStaff extends Document {
+  shopId: string;
+  name?: string;
+  email: string;
+  password?: string;
+  role: StaffRole;
+  status: "invited" | "active" | "disabled";
+  inviteToken?: string;
+  inviteExpires?: Date;
+  invitedAt: Date;
+  joinedAt?: Date;
+  createdAt: Date;
+  failedLoginAttempts?: number;
+  lockUntil?: Date;
+  comparePassword: (enteredPassword: string) => Promise<boolean>;
+  getJwtToken: (sessionId: string) => string;
+  getInviteToken: () => string;
+}
+
+const staffSchema = new Schema<IStaff>({
+  shopId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  name: {
+    type: String,
+  },
+  email: {
+    type: String,
+    required: [true, "Please enter the staff email address"],
+    lowercase: true,
+    trim: true,
+  },
+  password: {
+    type: String,
+    minLength: [6, "Password should be greater than 6 characters"],
+    select: false,
+  },
+  role: {
+    type: String,
+    enum: Object.keys(STAFF_ROLE_SCOPES),
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ["invited", "active", "disabled"],
+    default: "invited",
+  },
+  inviteToken: String,
+  inviteExpires: Date,
+  invitedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  joinedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  failedLoginAttempts: {
+    type: Number,
+    default: 0,
+  },
+  lockUntil: {
+    type: Date,
+  },
+});
+
+staffSchema.index({ shopId: 1, email: 1 }, { unique: true });
+
+// Hash password
+staffSchema.pre('save', async function (next) {
+  if (!this.isModified('password') || !this.password) {
+    return next();
+  }
+  this.password = await bcrypt.hash(this.password, 10);
+});
+
+// jwt token, scoped to the shop the staff member works for
+staffSchema.methods.getJwtToken = function (sessionId: string) {
+  const secretKey: Secret = process.env.JWT_SECRET_KEY || '';
+
+  return jwt.sign({ id: this.shopId, staffId: this._id, sid: sessionId }, secretKey, {
+    expiresIn: ACCESS_TOKEN_MAX_AGE / 1000,
+  });
+};
+
+// compare password
+staffSchema.methods.comparePassword = async function (enteredPassword: string) {
+  if (!this.password) {
+    return false;
+  }
+  return await bcrypt.compare(enteredPassword, this.password);
+};
+
+// invitation token, only its hash is stored
+staffSchema.methods.getInviteToken = function () {
+  const inviteToken = crypto.randomBytes(20).toString('hex');
+
+  this.inviteToken = crypto.createHash('sha256').update(inviteToken).digest('hex');
+  this.inviteExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+  return inviteToken;
+};
+
+export default mongoose.model<IStaff>('Staff', staffSchema);
@@ -1,6 +1,8 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import { ACCESS_TOKEN_MAX_AGE } from '../utils/session';
 
 export interface IUser extends Document {
   name: string;
@@ -12,9 +14,16 @@ export interface IUser extends Document {
   avatar: any;
   createdAt?: Date;
   resetPasswordToken?: string;
-  resetPasswordTime: Date;
-  getJwtToken?: () => string;
+  resetPasswordTime?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastStep?: number;
+  failedLoginAttempts?: number;
+  lockUntil?: Date;
+  getJwtToken?: (sessionId: string) => string;
   comparePassword?: (enteredPassword: string) => Promise<boolean>;
+  getResetPasswordToken?: () => string;
 }
 
 const userSchema: Schema<IUser> = new Schema({
@@ -77,23 +86,46 @@ const userSchema: Schema<IUser> = new Schema({
   },
   resetPasswordToken: String,
   resetPasswordTime: Date,
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false,
+  },
+  twoFactorSecret: {
+    type: String,
+    select: false,
+  },
+  twoFactorRecoveryCodes: {
+    type: [String],
+    select: false,
+  },
+  twoFactorLastStep: {
+    type: Number,
+    select: false,
+  },
+  failedLoginAttempts: {
+    type: Number,
+    default: 0,
+  },
+  lockUntil: {
+    type: Date,
+  },
 });
 
 userSchema.pre<IUser>('save', async function (next) {
   if (!this.isModified('password')) {
-    next();
+    return next();
   }
 
   this.password = await bcrypt.hash(this.password, 10);
 });
 
-userSchema.methods.getJwtToken = function(this: IUser): string {
+userSchema.methods.getJwtToken = function(this: IUser, sessionId: string): string {
   const secretKey = process.env.JWT_SECRET_KEY;
   if (!secretKey) {
     throw new Error('JWT_SECRET_KEY must be defined');
   }
-  return jwt.sign({ id: this._id }, secretKey, {
-    expiresIn: process.env.JWT_EXPIRES,
+  return jwt.sign({ id: this._id, sid: sessionId }, secretKey, {
+    expiresIn: ACCESS_TOKEN_MAX_AGE / 1000,
   });
 };
 
@@ -101,4 +133,14 @@ userSchema.methods.comparePassword = async function(this: IUser, enteredPassword
   return await bcrypt.compare(enteredPassword, this.password);
 };
 
+// generate a one-time password reset token, only its hash is stored
+userSchema.methods.getResetPasswordToken = function(this: IUser): string {
+  const resetToken = crypto.randomBytes(20).toString('hex');
+
+  this.resetPasswordToken = crypto.createHash('sha256').update(resetToken).digest('hex');
+  this.resetPasswordTime = new Date(Date.now() + 15 * 60 * 1000);
+
+  return resetToken;
+};
+
 export default mongoose.model<IUser>('User', userSchema);
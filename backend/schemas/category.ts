@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams, imageUpload } from "./common";
+
+const tags = ["Categories"];
+
+const slug = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slugs may only contain letters, numbers and dashes");
+
+export const categoryTree = defineRoute({
+  summary: "Get the category tree",
+  description: "Categories nested under their parents, ordered by sortOrder and name.",
+  tags,
+  responses: {
+    200: "Category tree retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const createCategory = defineRoute({
+  summary: "Create a category (Admin only)",
+  description: "The slug is generated from the name when it's left out.",
+  tags,
+  body: z.object({
+    name: z.string().trim().min(1, "Please enter the category name!"),
+    slug: slug.optional(),
+    parentId: objectId.optional(),
+    icon: imageUpload.optional(),
+    sortOrder: z.coerce.number().int().default(0),
+  }),
+  responses: {
+    201: "Category created successfully",
+    400: "Slug already used or parent not found",
+    403: "Missing categories:manage permission",
+    500: "Server error",
+  },
+});
+
+export const updateCategory = defineRoute({
+  summary: "Update or move a category (Admin only)",
+  description: "Send parentId null to move the category to the top level. Its subcategories move with it.",
+  tags,
+  params: idParams,
+  body: z.object({
+    name: z.string().trim().min(1).optional(),
+    slug: slug.optional(),
+    parentId: objectId.nullable().optional(),
+    icon: imageUpload.optional(),
+    sortOrder: z.coerce.number().int().optional(),
+  }),
+  responses: {
+    200: "Category updated successfully",
+    400: "Slug already used, parent not found or parent inside the category",
+    403: "Missing categories:manage permission",
+    404: "Category not found",
+    500: "Server error",
+  },
+});
+
+export const deleteCategory = defineRoute({
+  summary: "Delete a category (Admin only)",
+  description: "Only empty categories without subcategories, products or events can be deleted.",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Category deleted successfully",
+    400: "Category still has subcategories, products or events",
+    403: "Missing categories:manage permission",
+    404: "Category not found",
+    500: "Server error",
+  },
+});
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams, queryBoolean } from "./common";
+import { SHOP_TIERS } from "../model/shop";
+
+const tags = ["Commission"];
+
+const ruleFields = {
+  name: z.string().trim().min(1, "Please enter the rule name!"),
+  rate: z.coerce.number().min(0).max(100).describe("Percent of the line, 0 for promotions"),
+  priority: z.coerce.number().int().default(0),
+  categoryId: objectId.nullable().optional().describe("Also covers the subcategories"),
+  shopTier: z.enum(SHOP_TIERS).nullable().optional(),
+  shopId: objectId.nullable().optional(),
+  newSellerDays: z.coerce.number().int().positive().nullable().optional()
+    .describe("Only for shops that joined less than this many days before the order"),
+  effectiveFrom: z.coerce.date().optional(),
+  effectiveTo: z.coerce.date().nullable().optional(),
+  active: z.boolean().default(true),
+};
+
+const endsAfterStart = (rule: { effectiveFrom?: Date; effectiveTo?: Date | null }) =>
+  !rule.effectiveFrom || !rule.effectiveTo || rule.effectiveTo > rule.effectiveFrom;
+
+export const allRules = defineRoute({
+  summary: "Get the commission rules (Admin only)",
+  description: "Highest priority first. Rules that ended are left out unless `includeEnded` is set.",
+  tags: ["Admin"],
+  query: z.object({
+    includeEnded: queryBoolean.optional(),
+  }),
+  responses: {
+    200: "Commission rules retrieved successfully",
+    403: "Missing commission:manage permission",
+    500: "Server error",
+  },
+});
+
+export const createRule = defineRoute({
+  summary: "Create a commission rule (Admin only)",
+  description:
+    "A rule applies to order lines that match all of its conditions, from effectiveFrom until effectiveTo. " +
+    "When several match, the highest priority wins, then the rule with the most conditions, then the newest. " +
+    "Lines no rule matches are charged the default rate.",
+  tags: ["Admin"],
+  body: z.object(ruleFields).refine(endsAfterStart, { message: "effectiveTo must be after effectiveFrom", path: ["effectiveTo"] }),
+  responses: {
+    201: "Commission rule created successfully",
+    400: "Category or shop not found",
+    403: "Missing commission:manage permission",
+    500: "Server error",
+  },
+});
+
+export const updateRule = defineRoute({
+  summary: "Update a commission rule (Admin only)",
+  description: "Orders already placed keep the commission they were charged. Send null to drop a condition.",
+  tags: ["Admin"],
+  params: idParams,
+  body: z
+    .object({
+      ...ruleFields,
+      name: ruleFields.name.optional(),
+      rate: ruleFields.rate.optional(),
+      priority: z.coerce.number().int().optional(),
+      active: z.boolean().optional(),
+    })
+    .refine(endsAfterStart, { message: "effectiveTo must be after effectiveFrom", path: ["effectiveTo"] }),
+  responses: {
+    200: "Commission rule updated successfully",
+    400: "Category or shop not found, or the rule would end before it starts",
+    403: "Missing commission:manage permission",
+    404: "Commission rule not found",
+    500: "Server error",
+  },
+});
+
+export const deleteRule = defineRoute({
+  summary: "Delete a commission rule (Admin only)",
+  description: "Orders already placed keep the commission they were charged.",
+  tags: ["Admin"],
+  params: idParams,
+  responses: {
+    200: "Commission rule deleted successfully",
+    403: "Missing commission:manage permission",
+    404: "Commission rule not found",
+    500: "Server error",
+  },
+});
+
+export const updateShopTier = defineRoute({
+  summary: "Set the tier of a shop (Admin only)",
+  tags: ["Admin"],
+  params: z.object({
+    shopId: objectId,
+  }),
+  body: z.object({
+    tier: z.enum(SHOP_TIERS),
+  }),
+  responses: {
+    200: "Shop tier updated successfully",
+    403: "Missing commission:manage permission",
+    404: "Shop not found with this id",
+    500: "Server error",
+  },
+});
+
+export const commissionPreview = defineRoute({
+  summary: "Preview the commission on the shop's products",
+  description:
+    "The rule and rate that apply to each product today, with the commission on its price and what the shop keeps. " +
+    "Coupons lower the commission of an order, shipping and tax aren't charged any.",
+  tags,
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+  }),
+  responses: {
+    200: "Commission preview retrieved successfully",
+    403: "Your staff role can't manage the catalog",
+    500: "Server error",
+  },
+});
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+export const objectId = z
+  .string()
+  .regex(/^[0-9a-fA-F]{24}$/, "Invalid id");
+
+export const idParams = z.object({
+  id: objectId,
+});
+
+// query strings carry booleans as "true" / "false"
+export const queryBoolean = z.enum(["true", "false"]).transform((value) => value === "true");
+
+export const email = z.string().trim().email("Please enter a valid email");
+
+export const password = z.string().min(4, "Password should be greater than 4 characters");
+
+// base64 data URI or remote URL, uploaded to Cloudinary by the handler
+export const imageUpload = z.string().min(1, "Please provide an image");
+
+export const imageUploads = z.union([imageUpload, z.array(imageUpload).min(1)]);
+
+export const totpCode = z.string().regex(/^\d{6}$/, "Code must be 6 digits");
+
+export const twoFactorLogin = z
+  .object({
+    loginToken: z.string(),
+    code: totpCode.optional(),
+    recoveryCode: z.string().optional(),
+  })
+  .refine((body) => body.code || body.recoveryCode, {
+    message: "Please provide a code or a recovery code",
+    path: ["code"],
+  });
+
+export const twoFactorDisable = z
+  .object({
+    password: z.string(),
+    code: totpCode.optional(),
+    recoveryCode: z.string().optional(),
+  })
+  .refine((body) => body.code || body.recoveryCode, {
+    message: "Please provide a code or a recovery code",
+    path: ["code"],
+  });
+
+export const resetPassword = z
+  .object({
+    password: password,
+    confirmPassword: z.string(),
+  })
+  .refine((body) => body.password === body.confirmPassword, {
+    message: "Password doesn't match with each other!",
+    path: ["confirmPassword"],
+  });
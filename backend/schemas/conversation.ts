@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams } from "./common";
+
+const tags = ["Conversations"];
+
+export const createNewConversation = defineRoute({
+  summary: "Create a conversation between a user and a seller",
+  description: "Returns the existing conversation when one with the same group title exists.",
+  tags,
+  body: z.object({
+    groupTitle: z.string().min(1),
+    userId: objectId,
+    sellerId: objectId,
+  }),
+  responses: {
+    201: "Conversation retrieved or created successfully",
+    500: "Server error",
+  },
+});
+
+export const getAllConversationSeller = defineRoute({
+  summary: "Get all conversations of a seller",
+  tags,
+  params: idParams,
+  responses: {
+    201: "Conversations retrieved successfully",
+    403: "Your staff role can't access the inbox",
+    500: "Server error",
+  },
+});
+
+export const getAllConversationUser = defineRoute({
+  summary: "Get all conversations of a user",
+  tags,
+  params: idParams,
+  responses: {
+    201: "Conversations retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const updateLastMessage = defineRoute({
+  summary: "Update the last message of a conversation",
+  tags,
+  params: idParams,
+  body: z.object({
+    lastMessage: z.string(),
+    lastMessageId: objectId,
+  }),
+  responses: {
+    201: "Last message updated successfully",
+    500: "Server error",
+  },
+});
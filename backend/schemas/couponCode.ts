@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams } from "./common";
+
+const tags = ["Coupons"];
+
+export const createCouponCode = defineRoute({
+  summary: "Create a new coupon code",
+  tags,
+  body: z.object({
+    name: z.string().trim().min(1, "Please enter your coupon code name!"),
+    value: z.coerce.number().positive(),
+    minAmount: z.coerce.number().nonnegative().optional(),
+    maxAmount: z.coerce.number().nonnegative().optional(),
+    shopId: objectId,
+    selectedProduct: z.string().optional(),
+  }),
+  responses: {
+    201: "Coupon code created successfully",
+    400: "Coupon code already exists or couldn't be created",
+    403: "Your staff role can't manage the catalog",
+  },
+});
+
+export const getCoupons = defineRoute({
+  summary: "Get all coupons of a shop",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Coupons retrieved successfully",
+    400: "Coupons couldn't be retrieved",
+  },
+});
+
+export const deleteCoupon = defineRoute({
+  summary: "Delete a coupon code",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Coupon code deleted successfully",
+    400: "Coupon code doesn't exist",
+    403: "Your staff role can't manage the catalog",
+  },
+});
+
+export const getCouponValue = defineRoute({
+  summary: "Get a coupon code by name",
+  tags,
+  params: z.object({
+    name: z.string().min(1),
+  }),
+  responses: {
+    200: "Coupon code retrieved successfully",
+    400: "Coupon code couldn't be retrieved",
+  },
+});
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams, imageUploads, queryBoolean } from "./common";
+
+const tags = ["Events"];
+
+export const createEvent = defineRoute({
+  summary: "Create a new event",
+  tags,
+  body: z
+    .object({
+      name: z.string().trim().min(1, "Please enter your event product name!"),
+      description: z.string().min(1, "Please enter your event product description!"),
+      category: objectId,
+      start_Date: z.coerce.date(),
+      Finish_Date: z.coerce.date(),
+      status: z.string().optional(),
+      tags: z.string().optional(),
+      originalPrice: z.coerce.number().nonnegative().optional(),
+      discountPrice: z.coerce.number().nonnegative(),
+      stock: z.coerce.number().int().nonnegative(),
+      images: imageUploads,
+      shopId: objectId,
+    })
+    .refine((body) => body.Finish_Date > body.start_Date, {
+      message: "Event must finish after it starts",
+      path: ["Finish_Date"],
+    }),
+  responses: {
+    201: "Event created successfully",
+    400: "Shop Id or category is invalid",
+    500: "Server error",
+  },
+});
+
+export const getAllEvents = defineRoute({
+  summary: "Get all events",
+  tags,
+  query: z.object({
+    category: objectId.optional(),
+    includeSubcategories: queryBoolean.default("true"),
+  }),
+  responses: {
+    200: "Events retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const getShopEvents = defineRoute({
+  summary: "Get all events of a shop",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Events retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const deleteShopEvent = defineRoute({
+  summary: "Delete an event of the shop",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Event deleted successfully",
+    400: "Event not found with this id",
+    500: "Server error",
+  },
+});
+
+export const adminAllEvents = defineRoute({
+  summary: "Retrieve all events (Admin only)",
+  tags: ["Admin"],
+  responses: {
+    200: "Events retrieved successfully",
+    403: "Missing catalog:view permission",
+    500: "Server error",
+  },
+});
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId } from "./common";
+
+const tags = ["Ledger"];
+
+export const getStatement = defineRoute({
+  summary: "Get the shop's ledger statement",
+  description:
+    "Entries between the dates, oldest first, each with the shop's balance after it. " +
+    "The opening balance is everything booked before `from`.",
+  tags,
+  query: z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  }),
+  responses: {
+    200: "Statement retrieved successfully",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const getReconciliation = defineRoute({
+  summary: "Reconcile the seller ledger (Admin only)",
+  description:
+    "Totals per account, shops whose availableBalance doesn't match their entries, entries whose lines " +
+    "don't add up to zero and delivered orders whose sale was never booked.",
+  tags: ["Admin"],
+  responses: {
+    200: "Reconciliation report retrieved successfully",
+    403: "Missing ledger:view permission",
+    500: "Server error",
+  },
+});
+
+export const createAdjustment = defineRoute({
+  summary: "Book an adjustment on a shop's balance (Admin only)",
+  description: "Positive amounts add to the balance, negative ones take off it. Entries can't be changed, so a mistake is undone with another adjustment.",
+  tags: ["Admin"],
+  body: z.object({
+    shopId: objectId,
+    amount: z.coerce.number().refine((amount) => Math.round(amount * 100) !== 0, "Amount can't be zero"),
+    note: z.string().trim().min(1).max(500),
+  }),
+  responses: {
+    201: "Adjustment booked",
+    403: "Missing ledger:adjust permission",
+    404: "Shop not found with this id",
+    500: "Server error",
+  },
+});
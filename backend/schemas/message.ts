@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams, imageUpload } from "./common";
+
+const tags = ["Messages"];
+
+export const createNewMessage = defineRoute({
+  summary: "Send a message",
+  description: "Messages sent by shop staff record which staff member sent them.",
+  tags,
+  body: z
+    .object({
+      conversationId: objectId,
+      sender: objectId,
+      text: z.string().optional(),
+      images: imageUpload.optional(),
+    })
+    .refine((body) => body.text || body.images, {
+      message: "Please provide a text or an image",
+      path: ["text"],
+    }),
+  responses: {
+    201: "Message created successfully",
+    500: "Server error",
+  },
+});
+
+export const getAllMessages = defineRoute({
+  summary: "Get all messages of a conversation",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Messages retrieved successfully",
+    500: "Server error",
+  },
+});
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, queryBoolean } from "./common";
+
+const tags = ["Notifications"];
+
+export const getNotifications = defineRoute({
+  summary: "Get the shop's dashboard notifications",
+  description: "Newest first, with the number of unread notifications.",
+  tags,
+  query: z.object({
+    unread: queryBoolean.optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+  }),
+  responses: {
+    200: "Notifications retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const markNotificationsRead = defineRoute({
+  summary: "Mark notifications of the shop as read",
+  tags,
+  body: z.object({
+    ids: z.array(objectId).optional().describe("Leave out to mark every notification as read"),
+  }),
+  responses: {
+    200: "Notifications marked as read",
+    500: "Server error",
+  },
+});
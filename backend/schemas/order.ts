@@ -0,0 +1,213 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams } from "./common";
+import { PAYMENT_TYPES } from "../utils/paymentProviders";
+import { ORDER_STATUSES, OrderStatus } from "../utils/orderStatus";
+
+const tags = ["Orders"];
+
+const cartItem = z.object({
+  _id: objectId,
+  qty: z.coerce.number().int().positive(),
+  // the chosen variant when the product has variants
+  variantId: objectId.optional(),
+});
+
+export const createOrder = defineRoute({
+  summary: "Create orders from a cart",
+  description:
+    "Creates one order per shop in the cart. Prices come from the products and events, " +
+    "each order gets its shop's subtotal, coupon discount, shipping and tax, and " +
+    "totalPrice must match the sum of the orders so the buyer is charged what they saw. " +
+    "Each order gets an invoice number of its shop and the buyer is emailed the PDF invoice. " +
+    "Every cart line keeps the commission rate and amount that applied when the order was placed. " +
+    "Orders start unpaid; unless paid on delivery they're paid through /payment/process with their ids.",
+  tags,
+  body: z.object({
+    cart: z.array(cartItem).min(1, "Cart is empty"),
+    shippingAddress: z.record(z.unknown()),
+    totalPrice: z.coerce.number().positive(),
+    couponCode: z.string().trim().min(1).optional(),
+    // the type picks the payment provider, which confirms the payment itself
+    paymentInfo: z.object({
+      type: z.enum(PAYMENT_TYPES),
+    }),
+  }),
+  responses: {
+    201: "Orders created successfully",
+    400: "Unavailable product, unknown coupon, changed prices or not enough stock",
+    500: "Server error",
+  },
+});
+
+export const getAllOrders = defineRoute({
+  summary: "Get all orders of a user",
+  tags,
+  params: z.object({
+    userId: objectId,
+  }),
+  responses: {
+    200: "Orders retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const getSellerAllOrders = defineRoute({
+  summary: "Get all orders of a shop",
+  tags,
+  params: z.object({
+    shopId: objectId,
+  }),
+  responses: {
+    200: "Orders retrieved successfully",
+    500: "Server error",
+  },
+});
+
+const statusChange = (statuses: [OrderStatus, ...OrderStatus[]]) =>
+  z.object({
+    status: z.enum(statuses),
+    note: z.string().trim().max(500).optional(),
+  });
+
+export const updateOrderStatus = defineRoute({
+  summary: "Update order status",
+  description:
+    "Sellers move an order forward through fulfilment, possibly skipping steps, " +
+    "or cancel it while it's still processing, with the reason for the buyer in note. " +
+    "Every change is added to the order's timeline.",
+  tags,
+  params: idParams,
+  body: statusChange([...ORDER_STATUSES]),
+  responses: {
+    200: "Order status updated successfully",
+    400: "Order not found with this id, the order can't go to this status or isn't paid yet",
+    403: "Order belongs to another shop, the seller can't make this change or your staff role can't manage orders",
+    500: "Server error",
+  },
+});
+
+export const orderRefund = defineRoute({
+  summary: "Request an order refund",
+  description: "Only delivered orders of the logged in user can be refunded.",
+  tags,
+  params: idParams,
+  body: statusChange(["Processing refund"]),
+  responses: {
+    200: "Order refund requested successfully",
+    400: "Order not found with this id, the order isn't delivered or has returns",
+    403: "Order belongs to another user",
+    500: "Server error",
+  },
+});
+
+export const cancelOrder = defineRoute({
+  summary: "Cancel an order of the user before it ships",
+  description:
+    "Only processing orders can be cancelled. The reserved stock is released, a card payment is refunded " +
+    "(retried in the background if the provider fails), the coupon can be used again and the seller is notified.",
+  tags,
+  params: idParams,
+  body: z.object({
+    reason: z.string().trim().max(500).optional(),
+  }),
+  responses: {
+    200: "Order cancelled successfully",
+    400: "The order has already shipped or was cancelled",
+    403: "Order belongs to another user",
+    404: "Order not found with this id",
+    500: "Server error",
+  },
+});
+
+export const orderRefundSuccess = defineRoute({
+  summary: "Accept an order refund",
+  description:
+    "Pays the buyer back through the provider that took the payment, the amount given or all that's left of the order. " +
+    "The shop's share comes off its balance. When the provider fails the refund is kept as \"retrying\" " +
+    "and tried again in the background; orders paid on delivery are refunded by the seller and recorded as manual.",
+  tags,
+  params: idParams,
+  body: statusChange(["Refund Success"]).extend({
+    amount: z.coerce.number().positive().optional(),
+  }),
+  responses: {
+    200: "Order refund processed successfully",
+    400: "Order not found with this id, no refund was requested, the order has returns or the amount is more than is left",
+    403: "Order belongs to another shop or your staff role can't manage orders",
+    500: "Server error",
+  },
+});
+
+export const orderTimeline = defineRoute({
+  summary: "Get the status history of an order of the user",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Timeline retrieved successfully",
+    403: "Order belongs to another user",
+    404: "Order not found with this id",
+    500: "Server error",
+  },
+});
+
+export const sellerOrderTimeline = defineRoute({
+  summary: "Get the status history of an order of the shop",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Timeline retrieved successfully",
+    403: "Order belongs to another shop or your staff role can't manage orders",
+    404: "Order not found with this id",
+    500: "Server error",
+  },
+});
+
+export const orderInvoice = defineRoute({
+  summary: "Download the PDF invoice of an order of the user",
+  tags,
+  params: idParams,
+  responses: {
+    200: "PDF invoice",
+    403: "Order belongs to another user",
+    404: "Order or its shop not found",
+    500: "Server error",
+  },
+});
+
+export const packingSlip = defineRoute({
+  summary: "Download the PDF packing slip of an order of the shop",
+  tags,
+  params: idParams,
+  responses: {
+    200: "PDF packing slip",
+    403: "Order belongs to another shop or your staff role can't manage orders",
+    404: "Order not found with this id",
+    500: "Server error",
+  },
+});
+
+export const adminUpdateOrderStatus = defineRoute({
+  summary: "Update order status (Admin only)",
+  description: "Admins can make every change a seller can, and fix orders whose status predates the status rules.",
+  tags: ["Admin"],
+  params: idParams,
+  body: statusChange([...ORDER_STATUSES]),
+  responses: {
+    200: "Order status updated successfully",
+    400: "The order can't go to this status or isn't paid yet",
+    403: "Missing orders:manage permission, or orders:refund to cancel or refund the order",
+    404: "Order not found with this id",
+    500: "Server error",
+  },
+});
+
+export const adminAllOrders = defineRoute({
+  summary: "Retrieve all orders (Admin only)",
+  tags: ["Admin"],
+  responses: {
+    201: "Orders retrieved successfully",
+    403: "Missing orders:view permission",
+    500: "Server error",
+  },
+});
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId } from "./common";
+import { PAYMENT_PROVIDER_NAMES } from "../utils/paymentProviders";
+
+const tags = ["Payment"];
+
+export const processPayment = defineRoute({
+  summary: "Start the payment of unpaid orders",
+  description:
+    "Charges the total of the orders, which must be the user's own processing orders with the same payment type. " +
+    "Their type picks the provider, e.g. a Stripe payment intent whose client_secret the client confirms. " +
+    "The orders are marked paid when the provider confirms the payment through its webhook.",
+  tags,
+  body: z.object({
+    // the intent's metadata has room for about 20 order ids
+    orderIds: z.array(objectId).min(1).max(20),
+  }),
+  responses: {
+    200: "Payment started",
+    400: "Order isn't the user's, already paid, cancelled, paid on delivery or paid in another way than the rest",
+    500: "Server error",
+  },
+});
+
+export const providerWebhook = defineRoute({
+  summary: "Receive payment events from a payment provider",
+  description:
+    "Each provider signs its events in its own way, Stripe with STRIPE_WEBHOOK_SECRET. Successful and failed " +
+    "payments and refunds are applied to their orders, other events are acknowledged and ignored. " +
+    "An event is only applied once, redeliveries are acknowledged as duplicates.",
+  tags,
+  params: z.object({
+    provider: z.enum(PAYMENT_PROVIDER_NAMES),
+  }),
+  responses: {
+    200: "Event received",
+    400: "Webhook could not be verified",
+    404: "Provider doesn't send payment events",
+    500: "Server error",
+  },
+});
+
+export const completeMockPayment = defineRoute({
+  summary: "Pay or fail a mock payment (development only)",
+  description: "Sends the payment's outcome through the payment webhook handling.",
+  tags,
+  params: z.object({
+    paymentId: z.string().min(1),
+  }),
+  body: z.object({
+    outcome: z.enum(["succeeded", "failed"]).default("succeeded"),
+  }),
+  responses: {
+    200: "Payment completed",
+    404: "No pending mock payment with this id, or not available in production",
+  },
+});
+
+export const stripeApiKey = defineRoute({
+  summary: "Get the Stripe publishable key",
+  tags,
+  responses: {
+    200: "Stripe API key retrieved",
+  },
+});
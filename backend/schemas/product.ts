@@ -0,0 +1,318 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams, imageUpload, imageUploads, queryBoolean } from "./common";
+import { PRODUCT_SORTS, decodeCursor } from "../utils/productSearch";
+import { checkVariantOptions } from "../utils/variants";
+
+const tags = ["Products"];
+
+const productOption = z.object({
+  name: z.string().trim().min(1),
+  values: z.array(z.string().trim().min(1)).min(1),
+});
+
+const variant = z.object({
+  sku: z.string().trim().min(1),
+  options: z.record(z.string()).describe("One value per product option, e.g. { \"Size\": \"M\" }"),
+  originalPrice: z.coerce.number().nonnegative().optional(),
+  price: z.coerce.number().nonnegative(),
+  stock: z.coerce.number().int().nonnegative(),
+  images: z.array(imageUpload).optional(),
+});
+
+// without variants a product needs its own price and stock
+const refineProduct = (
+  body: { discountPrice?: number; stock?: number; options: z.infer<typeof productOption>[]; variants: { sku: string; options: Record<string, string> }[] },
+  ctx: z.RefinementCtx
+) => {
+  if (!body.variants.length) {
+    if (body.discountPrice === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please enter your product price!", path: ["discountPrice"] });
+    }
+    if (body.stock === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please enter your product stock!", path: ["stock"] });
+    }
+  }
+
+  const variantError = checkVariantOptions(body.options, body.variants);
+  if (variantError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: variantError, path: ["variants"] });
+  }
+};
+
+export const createProduct = defineRoute({
+  summary: "Create a new product",
+  description:
+    "Products with variants take their stock and price from the variants, " +
+    "so discountPrice and stock are only required without them.",
+  tags,
+  body: z
+    .object({
+      sku: z.string().trim().min(1).optional(),
+      name: z.string().trim().min(1, "Please enter your product name!"),
+      description: z.string().min(1, "Please enter your product description!"),
+      category: objectId,
+      tags: z.string().optional(),
+      originalPrice: z.coerce.number().nonnegative().optional(),
+      discountPrice: z.coerce.number().nonnegative().optional(),
+      stock: z.coerce.number().int().nonnegative().optional(),
+      lowStockThreshold: z.coerce.number().int().nonnegative().optional(),
+      images: imageUploads,
+      options: z.array(productOption).default([]),
+      variants: z.array(variant).default([]),
+    })
+    .superRefine(refineProduct),
+  responses: {
+    201: "Product created successfully",
+    400: "Shop Id or category is invalid",
+    403: "Your staff role can't manage the catalog",
+    500: "Server error",
+  },
+});
+
+export const getAllProductsShop = defineRoute({
+  summary: "Get all products of a shop",
+  tags,
+  params: idParams,
+  responses: {
+    201: "Products retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const deleteShopProduct = defineRoute({
+  summary: "Delete a product of the shop",
+  tags,
+  params: idParams,
+  responses: {
+    201: "Product deleted successfully",
+    400: "Product not found with this id",
+    403: "Product belongs to another shop or your staff role can't manage the catalog",
+    500: "Server error",
+  },
+});
+
+export const getAllProducts = defineRoute({
+  summary: "Get all products",
+  tags,
+  query: z.object({
+    category: objectId.optional(),
+    includeSubcategories: queryBoolean.default("true"),
+  }),
+  responses: {
+    201: "Products retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const createNewReview = defineRoute({
+  summary: "Create or update a product review",
+  tags,
+  body: z.object({
+    user: z.object({ _id: objectId }).passthrough(),
+    rating: z.coerce.number().min(1).max(5),
+    comment: z.string().optional(),
+    productId: objectId,
+    orderId: objectId,
+  }),
+  responses: {
+    200: "Review added successfully",
+    404: "Product not found with this id",
+    500: "Server error",
+  },
+});
+
+export const adminAllProducts = defineRoute({
+  summary: "Retrieve all products (Admin only)",
+  tags: ["Admin"],
+  responses: {
+    201: "Products retrieved successfully",
+    403: "Missing catalog:view permission",
+    500: "Server error",
+  },
+});
+
+export const updateProduct = defineRoute({
+  summary: "Update a product of the shop",
+  description:
+    "Only the fields that are sent are changed. Images in removeImages are deleted from Cloudinary, " +
+    "imageOrder lists the public_id of every remaining image in the new order, and addImages are appended at the end. " +
+    "Each update that changes something is stored as a revision.",
+  tags,
+  params: idParams,
+  body: z.object({
+    sku: z.string().trim().min(1).optional(),
+    name: z.string().trim().min(1).optional(),
+    description: z.string().min(1).optional(),
+    category: objectId.optional(),
+    tags: z.string().optional(),
+    originalPrice: z.coerce.number().nonnegative().optional(),
+    discountPrice: z.coerce.number().nonnegative().optional(),
+    stock: z.coerce.number().int().nonnegative().optional(),
+    lowStockThreshold: z.coerce
+      .number()
+      .int()
+      .nonnegative()
+      .nullable()
+      .optional()
+      .describe("null goes back to the shop's default threshold"),
+    addImages: z.array(imageUpload).optional(),
+    removeImages: z.array(z.string()).optional(),
+    imageOrder: z.array(z.string()).optional(),
+    options: z.array(productOption).optional(),
+    variants: z
+      .array(variant.extend({ _id: objectId.optional() }))
+      .optional()
+      .describe(
+        "Replaces the variant list. Variants with an _id keep their images unless new images are sent, " +
+        "variants without one are created and variants left out are removed."
+      ),
+  }),
+  responses: {
+    200: "Product updated successfully",
+    400: "Unknown image or variant, incomplete image order, no images left or variants that don't match the options",
+    403: "Product belongs to another shop or your staff role can't manage the catalog",
+    404: "Product not found with this id",
+    500: "Server error",
+  },
+});
+
+export const productRevisions = defineRoute({
+  summary: "Get the change history of a product of the shop",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Revisions retrieved successfully",
+    403: "Product belongs to another shop or your staff role can't manage the catalog",
+    404: "Product not found with this id",
+    500: "Server error",
+  },
+});
+
+export const adminProductRevisions = defineRoute({
+  summary: "Get the change history of a product (Admin only)",
+  tags: ["Admin"],
+  params: idParams,
+  responses: {
+    200: "Revisions retrieved successfully",
+    403: "Missing catalog:view permission",
+    500: "Server error",
+  },
+});
+
+export const searchProducts = defineRoute({
+  summary: "Search products",
+  description:
+    "Free text search over name, description and tags with filters, sorting, facet counts per category " +
+    "and price bucket, and cursor pagination. Pass nextCursor from the previous page to get the next one.",
+  tags,
+  query: z.object({
+    q: z.string().trim().min(1).optional(),
+    category: z
+      .string()
+      .transform((value) => value.split(",").map((category) => category.trim()).filter(Boolean))
+      .pipe(z.array(objectId))
+      .optional()
+      .describe("Comma separated list of category ids"),
+    includeSubcategories: queryBoolean.default("true"),
+    minPrice: z.coerce.number().nonnegative().optional(),
+    maxPrice: z.coerce.number().nonnegative().optional(),
+    minRating: z.coerce.number().min(0).max(5).optional(),
+    shopId: objectId.optional(),
+    inStock: queryBoolean.optional(),
+    sort: z.enum(PRODUCT_SORTS).default("relevance"),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z
+      .string()
+      .transform((value, ctx) => {
+        const cursor = decodeCursor(value);
+        if (!cursor) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+          return z.NEVER;
+        }
+        return cursor;
+      })
+      .optional(),
+  }),
+  responses: {
+    200: "Products, facets and the cursor of the next page",
+    500: "Server error",
+  },
+});
+
+const imageUrl = z.string().trim().url("Images must be URLs");
+
+// one product of an import file, after CSV rows are grouped into products
+export const catalogItem = z
+  .object({
+    sku: z.string().trim().min(1, "Please enter the product SKU!"),
+    name: z.string().trim().min(1, "Please enter your product name!"),
+    description: z.string().min(1, "Please enter your product description!"),
+    category: z.string().trim().min(1, "Please enter your product category!").describe("Category slug or id"),
+    tags: z.string().optional(),
+    originalPrice: z.coerce.number().nonnegative().optional(),
+    discountPrice: z.coerce.number().nonnegative().optional(),
+    stock: z.coerce.number().int().nonnegative().optional(),
+    images: z.array(imageUrl).min(1, "Please provide an image"),
+    options: z.array(productOption).default([]),
+    variants: z.array(variant.extend({ images: z.array(imageUrl).default([]) })).default([]),
+  })
+  .superRefine(refineProduct);
+
+export const importProducts = defineRoute({
+  summary: "Import products from CSV or JSON",
+  description:
+    "Creates new products and updates existing ones with the same SKU. Images are fetched from their URLs. " +
+    "CSV files have the columns sku, parentSku, name, description, category, tags, originalPrice, price, stock, " +
+    "options and images; variant rows name their product in parentSku and their options as Size=M|Colour=Red, " +
+    "images are separated by |. JSON takes an array of products shaped like the export. " +
+    "With dryRun nothing is saved and the report lists what would happen and every row error. " +
+    "Without it, any row error cancels the whole import.",
+  tags,
+  body: z
+    .object({
+      format: z.enum(["csv", "json"]),
+      data: z.union([z.string(), z.array(z.unknown())]),
+      dryRun: z.boolean().default(false),
+    })
+    .refine((body) => body.format === "json" || typeof body.data === "string", {
+      message: "CSV data must be sent as text",
+      path: ["data"],
+    }),
+  responses: {
+    200: "Import report",
+    403: "Your staff role can't manage the catalog",
+    422: "Rows have errors, nothing was imported",
+    500: "Server error",
+  },
+});
+
+export const exportProducts = defineRoute({
+  summary: "Export the shop catalog as CSV or JSON",
+  description: "Uses the import format, so the file can be edited and imported again.",
+  tags,
+  query: z.object({
+    format: z.enum(["csv", "json"]).default("csv"),
+  }),
+  responses: {
+    200: "Catalog file",
+    403: "Your staff role can't manage the catalog",
+    500: "Server error",
+  },
+});
+
+export const lowStock = defineRoute({
+  summary: "List the shop's products that are low on or out of stock",
+  description:
+    "Products and variants whose available stock is at or below their low-stock threshold, " +
+    "with their sales per day over the last `days` days and how many days the stock lasts at that pace.",
+  tags,
+  query: z.object({
+    days: z.coerce.number().int().min(1).max(365).default(30),
+  }),
+  responses: {
+    200: "Low-stock products retrieved successfully",
+    403: "Your staff role can't manage the catalog",
+    500: "Server error",
+  },
+});
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { idParams, imageUpload } from "./common";
+import { RETURN_REASONS } from "../model/returnRequest";
+
+const tags = ["Returns"];
+
+const note = z.string().trim().max(500);
+
+export const createReturn = defineRoute({
+  summary: "Ask to return items of a delivered order",
+  description: "Items point at cart lines by their index. A line can be returned over several requests, up to its quantity.",
+  tags,
+  params: idParams,
+  body: z.object({
+    items: z
+      .array(
+        z.object({
+          line: z.number().int().nonnegative(),
+          qty: z.number().int().positive(),
+        })
+      )
+      .min(1, "Please choose the items to return"),
+    reason: z.enum(RETURN_REASONS),
+    comment: note.optional(),
+    images: z.array(imageUpload).max(5).default([]),
+  }),
+  responses: {
+    201: "Return requested successfully",
+    400: "Order isn't delivered, unknown line or more units than can be returned",
+    403: "Order belongs to another user",
+    404: "Order not found with this id",
+    500: "Server error",
+  },
+});
+
+export const getUserReturns = defineRoute({
+  summary: "Get the returns of the logged in user",
+  tags,
+  responses: {
+    200: "Returns retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const getShopReturns = defineRoute({
+  summary: "Get the returns of the shop",
+  tags,
+  query: z.object({
+    status: z.enum(["requested", "approved", "rejected", "received", "refunded"]).optional(),
+  }),
+  responses: {
+    200: "Returns retrieved successfully",
+    403: "Your staff role can't manage orders",
+    500: "Server error",
+  },
+});
+
+const sellerResponses = (success: string) => ({
+  200: success,
+  400: "The return isn't at the right step for this",
+  403: "Return belongs to another shop or your staff role can't manage orders",
+  404: "Return not found with this id",
+  500: "Server error",
+});
+
+export const approveReturn = defineRoute({
+  summary: "Approve a return and tell the buyer how to send it back",
+  tags,
+  params: idParams,
+  body: z.object({
+    instructions: z.string().trim().min(1, "Please tell the buyer how to send the items back"),
+    labelUrl: z.string().url().optional(),
+    note: note.optional(),
+  }),
+  responses: sellerResponses("Return approved successfully"),
+});
+
+export const rejectReturn = defineRoute({
+  summary: "Reject a return",
+  tags,
+  params: idParams,
+  body: z.object({
+    note: note.min(1, "Please give a reason for rejecting the return"),
+  }),
+  responses: sellerResponses("Return rejected successfully"),
+});
+
+export const receiveReturn = defineRoute({
+  summary: "Record what came back and what goes back into stock",
+  description:
+    "Lines that are left out arrived in full and are restocked. " +
+    "restockQty can be lower than receivedQty for goods that can't be sold again.",
+  tags,
+  params: idParams,
+  body: z.object({
+    items: z
+      .array(
+        z
+          .object({
+            line: z.number().int().nonnegative(),
+            receivedQty: z.number().int().nonnegative(),
+            restockQty: z.number().int().nonnegative(),
+          })
+          .refine((item) => item.restockQty <= item.receivedQty, {
+            message: "Can't restock more than was received",
+            path: ["restockQty"],
+          })
+      )
+      .default([]),
+    note: note.optional(),
+  }),
+  responses: sellerResponses("Return received successfully"),
+});
+
+export const refundReturn = defineRoute({
+  summary: "Refund a received return",
+  description:
+    "Refunds the value of the received items, or `amount` when given, through the order's payment provider. " +
+    "The shop's balance goes down by the refund less the commission it was charged on it.",
+  tags,
+  params: idParams,
+  body: z.object({
+    amount: z.coerce.number().positive().optional(),
+    note: note.optional(),
+  }),
+  responses: sellerResponses("Return refunded successfully"),
+});
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams } from "./common";
+import { ALL_PERMISSIONS, Permission } from "../utils/permissions";
+
+const tags = ["Roles"];
+
+const permissions = z.array(z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]]));
+
+export const listPermissions = defineRoute({
+  summary: "List all known permissions",
+  tags,
+  responses: {
+    200: "Permissions retrieved successfully",
+    403: "Missing roles:manage permission",
+  },
+});
+
+export const allRoles = defineRoute({
+  summary: "List all roles",
+  tags,
+  responses: {
+    200: "Roles retrieved successfully",
+    403: "Missing roles:manage permission",
+    500: "Server error",
+  },
+});
+
+export const createRole = defineRoute({
+  summary: "Create a role",
+  tags,
+  body: z.object({
+    name: z.string().trim().min(1, "Please provide the role name!"),
+    description: z.string().optional(),
+    permissions,
+  }),
+  responses: {
+    201: "Role created successfully",
+    400: "Role already exists",
+    403: "Missing roles:manage permission",
+    500: "Server error",
+  },
+});
+
+export const updateRole = defineRoute({
+  summary: "Update a role",
+  tags,
+  params: idParams,
+  body: z.object({
+    description: z.string().optional(),
+    permissions: permissions.optional(),
+  }),
+  responses: {
+    200: "Role updated successfully",
+    400: "Built-in roles can't be changed",
+    403: "Missing roles:manage permission",
+    404: "Role not found",
+    500: "Server error",
+  },
+});
+
+export const deleteRole = defineRoute({
+  summary: "Delete a role",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Role deleted successfully",
+    400: "Built-in role or role still assigned",
+    403: "Missing roles:manage permission",
+    404: "Role not found",
+    500: "Server error",
+  },
+});
+
+export const assignRole = defineRoute({
+  summary: "Assign a role to a user",
+  tags,
+  params: z.object({
+    userId: objectId,
+  }),
+  body: z.object({
+    role: z.string().min(1),
+  }),
+  responses: {
+    200: "Role assigned successfully",
+    400: "Unknown role or own account",
+    403: "Missing roles:manage permission",
+    404: "User not found",
+    500: "Server error",
+  },
+});
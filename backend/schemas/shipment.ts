@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { idParams } from "./common";
+import { CARRIER_NAMES } from "../utils/carriers";
+
+const tags = ["Shipments"];
+
+export const createShipment = defineRoute({
+  summary: "Ship some or all items of an order",
+  description:
+    "Items point at cart lines by their index. Without items the shipment takes every unit that hasn't shipped yet. " +
+    "The mock carrier makes up a tracking number when none is sent. " +
+    "The first shipment of a processing order moves it to \"Transferred to delivery partner\".",
+  tags,
+  params: idParams,
+  body: z.object({
+    carrier: z.enum(CARRIER_NAMES),
+    trackingNumber: z.string().trim().min(1).optional(),
+    items: z
+      .array(
+        z.object({
+          line: z.number().int().nonnegative(),
+          qty: z.number().int().positive(),
+        })
+      )
+      .min(1)
+      .optional(),
+    estimatedDelivery: z.coerce.date().optional(),
+  }),
+  responses: {
+    201: "Shipment created successfully",
+    400: "Order can't ship or isn't paid yet, unknown line, too many units or missing tracking number",
+    403: "Order belongs to another shop or your staff role can't manage orders",
+    404: "Order not found with this id",
+    500: "Server error",
+  },
+});
+
+export const carrierWebhook = defineRoute({
+  summary: "Receive tracking events from a carrier",
+  description:
+    "Each carrier posts in its own format. Events for tracking numbers we don't know are skipped, " +
+    "and the order moves forward once all of its parcels have.",
+  tags,
+  params: z.object({
+    carrier: z.enum(CARRIER_NAMES),
+  }),
+  responses: {
+    200: "Events received",
+    401: "Webhook could not be verified",
+    404: "Carrier doesn't send tracking events",
+    500: "Server error",
+  },
+});
+
+export const advanceMockShipment = defineRoute({
+  summary: "Move a mock carrier parcel to its next status (development only)",
+  description:
+    "Sends the next tracking event through the carrier webhook handling. " +
+    "Needs MOCK_CARRIER_SECRET set on the server and sent in the x-mock-carrier-secret header.",
+  tags,
+  params: z.object({
+    trackingNumber: z.string().min(1),
+  }),
+  body: z.object({
+    status: z.enum(["in_transit", "at_hub", "out_for_delivery", "delivered", "exception"]).optional(),
+    location: z.string().optional(),
+  }),
+  responses: {
+    200: "Tracking event applied",
+    400: "Parcel is already delivered",
+    401: "Mock carrier secret is missing or wrong",
+    404: "No mock carrier parcel with this tracking number",
+    500: "Server error",
+  },
+});
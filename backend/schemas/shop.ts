@@ -0,0 +1,329 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import {
+  idParams,
+  email,
+  password,
+  imageUpload,
+  totpCode,
+  twoFactorLogin,
+  twoFactorDisable,
+  resetPassword as resetPasswordBody,
+} from "./common";
+
+const tags = ["Shop"];
+
+export const createShop = defineRoute({
+  summary: "Create a new shop",
+  description: "Creates the shop and emails an activation link.",
+  tags,
+  body: z.object({
+    name: z.string().trim().min(1, "Please enter your shop name!"),
+    email,
+    password,
+    avatar: imageUpload,
+    address: z.string().min(1),
+    phoneNumber: z.coerce.number(),
+    zipCode: z.coerce.number(),
+  }),
+  responses: {
+    201: "Shop created successfully",
+    400: "User already exists",
+    500: "Server error",
+  },
+});
+
+export const activation = defineRoute({
+  summary: "Activate a shop account",
+  description: "The activation email links to the storefront, which posts the token here.",
+  tags,
+  body: z.object({
+    activation_token: z.string(),
+  }),
+  responses: {
+    201: "Shop activated successfully",
+    400: "Invalid token or shop already exists",
+    429: "Too many activation attempts",
+    500: "Server error",
+  },
+});
+
+export const loginShop = defineRoute({
+  summary: "Log in to a shop",
+  tags,
+  body: z.object({
+    email,
+    password: z.string(),
+  }),
+  responses: {
+    200: "Password accepted, two-factor code required. Continue with /shop/login-2fa using the returned loginToken",
+    201: "Shop logged in successfully",
+    400: "User doesn't exist or incorrect information",
+    423: "Account is locked after too many failed attempts",
+    429: "Too many login attempts from this IP or for this email",
+    500: "Server error",
+  },
+});
+
+export const loginTwoFactor = defineRoute({
+  summary: "Complete a two-step shop login",
+  description: "Uses the login token returned by /shop/login-shop and either a TOTP code or a recovery code.",
+  tags,
+  body: twoFactorLogin,
+  responses: {
+    201: "Shop logged in successfully",
+    401: "Login token or two-factor code is invalid",
+    423: "Account is locked after too many failed attempts",
+    500: "Server error",
+  },
+});
+
+export const twoFactorSetup = defineRoute({
+  summary: "Start two-factor enrollment for the shop",
+  tags,
+  responses: {
+    200: "Secret generated",
+    400: "Two-factor authentication is already enabled",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const twoFactorVerify = defineRoute({
+  summary: "Verify and enable two-factor authentication for the shop",
+  tags,
+  body: z.object({
+    code: totpCode,
+  }),
+  responses: {
+    200: "Two-factor authentication enabled",
+    400: "Enrollment not started or invalid code",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const twoFactorRecoveryCodes = defineRoute({
+  summary: "Regenerate shop recovery codes",
+  tags,
+  body: z.object({
+    code: totpCode,
+  }),
+  responses: {
+    200: "New recovery codes generated",
+    400: "Invalid two-factor code",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const twoFactorDisableRoute = defineRoute({
+  summary: "Disable two-factor authentication for the shop",
+  tags,
+  body: twoFactorDisable,
+  responses: {
+    200: "Two-factor authentication disabled",
+    400: "Incorrect password or two-factor code",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const getSeller = defineRoute({
+  summary: "Get the logged in seller",
+  description: "Includes the staff account when a staff member is logged in.",
+  tags,
+  responses: {
+    200: "Seller information retrieved successfully",
+    400: "User doesn't exist",
+    500: "Server error",
+  },
+});
+
+export const logout = defineRoute({
+  summary: "Log out from a shop",
+  description: "Revokes the current session and clears the seller cookies.",
+  tags,
+  responses: {
+    201: "Log out successful",
+    500: "Server error",
+  },
+});
+
+export const refresh = defineRoute({
+  summary: "Refresh the seller access token",
+  description: "Works for shop owners and staff. Each refresh token can only be used once.",
+  tags,
+  responses: {
+    200: "Tokens refreshed successfully",
+    401: "Refresh token is missing, expired or revoked",
+    500: "Server error",
+  },
+});
+
+export const logoutAll = defineRoute({
+  summary: "Log out from the shop everywhere",
+  tags,
+  responses: {
+    200: "All sessions revoked",
+    500: "Server error",
+  },
+});
+
+export const listSessions = defineRoute({
+  summary: "List active seller sessions",
+  tags,
+  responses: {
+    200: "Sessions retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const revokeSession = defineRoute({
+  summary: "Revoke a seller session",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Session revoked",
+    404: "Session not found",
+    500: "Server error",
+  },
+});
+
+export const getShopInfo = defineRoute({
+  summary: "Get shop information",
+  tags,
+  params: idParams,
+  responses: {
+    201: "Shop information retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const updateShopAvatar = defineRoute({
+  summary: "Update shop avatar",
+  tags,
+  body: z.object({
+    avatar: imageUpload,
+  }),
+  responses: {
+    200: "Avatar updated successfully",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const updateSellerInfo = defineRoute({
+  summary: "Update seller information",
+  tags,
+  body: z.object({
+    name: z.string().trim().min(1),
+    description: z.string().optional(),
+    address: z.string().min(1),
+    phoneNumber: z.coerce.number(),
+    zipCode: z.coerce.number(),
+    lowStockThreshold: z.coerce.number().int().nonnegative().optional(),
+  }),
+  responses: {
+    201: "Seller information updated successfully",
+    400: "User not found",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const adminAllSellers = defineRoute({
+  summary: "Retrieve all sellers (Admin only)",
+  tags: ["Admin"],
+  responses: {
+    201: "Sellers retrieved successfully",
+    403: "Missing sellers:view permission",
+    500: "Server error",
+  },
+});
+
+export const deleteSeller = defineRoute({
+  summary: "Delete seller (Admin only)",
+  tags: ["Admin"],
+  params: idParams,
+  responses: {
+    201: "Seller deleted successfully",
+    400: "Seller is not available with this id",
+    403: "Missing sellers:delete permission",
+    500: "Server error",
+  },
+});
+
+export const adminUnlockSeller = defineRoute({
+  summary: "Unlock a seller account (Admin only)",
+  tags: ["Admin"],
+  params: idParams,
+  responses: {
+    200: "Seller unlocked successfully",
+    400: "Seller is not available with this id",
+    403: "Missing accounts:unlock permission",
+    500: "Server error",
+  },
+});
+
+export const updatePaymentMethods = defineRoute({
+  summary: "Update seller withdraw method",
+  description: "Requires two-factor authentication and a current TOTP code.",
+  tags,
+  body: z.object({
+    withdrawMethod: z.record(z.unknown()),
+    totpCode,
+  }),
+  responses: {
+    201: "Withdraw method updated successfully",
+    401: "Invalid two-factor code",
+    403: "Only the shop owner can do this, with two-factor authentication enabled",
+    500: "Server error",
+  },
+});
+
+export const deleteWithdrawMethod = defineRoute({
+  summary: "Delete seller withdraw method",
+  description: "Requires two-factor authentication and a current TOTP code.",
+  tags,
+  body: z.object({
+    totpCode,
+  }),
+  responses: {
+    201: "Withdraw method deleted successfully",
+    400: "Seller not found with this id",
+    401: "Invalid two-factor code",
+    403: "Only the shop owner can do this, with two-factor authentication enabled",
+    500: "Server error",
+  },
+});
+
+export const forgotPassword = defineRoute({
+  summary: "Request a shop password reset email",
+  description: "Emails a one-time reset link that expires after 15 minutes.",
+  tags,
+  body: z.object({
+    email,
+  }),
+  responses: {
+    200: "Reset email sent",
+    404: "Shop not found with this email",
+    429: "Too many reset requests",
+    500: "Server error",
+  },
+});
+
+export const resetPassword = defineRoute({
+  summary: "Reset shop password with a reset token",
+  description: "Each token can only be used once. All sessions are revoked afterwards.",
+  tags,
+  params: z.object({
+    token: z.string(),
+  }),
+  body: resetPasswordBody,
+  responses: {
+    200: "Password reset successfully",
+    400: "Token is invalid or expired",
+    500: "Server error",
+  },
+});
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams, email, password } from "./common";
+import { STAFF_ROLE_SCOPES, StaffRole } from "../model/staff";
+
+const tags = ["Staff"];
+
+const staffRole = z.enum(Object.keys(STAFF_ROLE_SCOPES) as [StaffRole, ...StaffRole[]]);
+
+export const inviteStaff = defineRoute({
+  summary: "Invite a staff member",
+  description: "Emails an invitation link that expires after 7 days.",
+  tags,
+  body: z.object({
+    email,
+    role: staffRole,
+  }),
+  responses: {
+    201: "Invitation sent",
+    400: "Staff member already exists",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const acceptInvite = defineRoute({
+  summary: "Accept a staff invitation",
+  tags,
+  params: z.object({
+    token: z.string(),
+  }),
+  body: z.object({
+    name: z.string().trim().min(1),
+    password,
+  }),
+  responses: {
+    201: "Invitation accepted and logged in",
+    400: "Invitation is invalid or expired",
+    500: "Server error",
+  },
+});
+
+export const loginStaff = defineRoute({
+  summary: "Log in as a staff member",
+  tags,
+  body: z.object({
+    email,
+    password: z.string(),
+    shopId: objectId.optional(),
+  }),
+  responses: {
+    201: "Staff member logged in successfully",
+    400: "Incorrect information",
+    403: "Staff account is disabled",
+    423: "Account is locked after too many failed attempts",
+    429: "Too many login attempts",
+    500: "Server error",
+  },
+});
+
+export const allStaff = defineRoute({
+  summary: "List staff members of the shop",
+  tags,
+  responses: {
+    200: "Staff retrieved successfully",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const updateStaff = defineRoute({
+  summary: "Change the role or status of a staff member",
+  tags,
+  params: idParams,
+  body: z.object({
+    role: staffRole.optional(),
+    status: z.enum(["active", "disabled"]).optional(),
+  }),
+  responses: {
+    200: "Staff member updated",
+    400: "Invalid role or status",
+    403: "Only the shop owner can do this",
+    404: "Staff member not found",
+    500: "Server error",
+  },
+});
+
+export const removeStaff = defineRoute({
+  summary: "Remove a staff member",
+  description: "Also revokes all of their sessions.",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Staff member removed",
+    403: "Only the shop owner can do this",
+    404: "Staff member not found",
+    500: "Server error",
+  },
+});
+
+export const adminUnlockStaff = defineRoute({
+  summary: "Unlock a staff account (Admin only)",
+  tags: ["Admin"],
+  params: idParams,
+  responses: {
+    200: "Staff member unlocked successfully",
+    403: "Missing accounts:unlock permission",
+    404: "Staff member not found",
+    500: "Server error",
+  },
+});
@@ -0,0 +1,336 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import {
+  objectId,
+  idParams,
+  email,
+  password,
+  imageUpload,
+  totpCode,
+  twoFactorLogin,
+  twoFactorDisable,
+  resetPassword as resetPasswordBody,
+} from "./common";
+
+const tags = ["Users"];
+
+export const createUser = defineRoute({
+  summary: "Create a new user account",
+  description: "Creates the account and emails an activation link.",
+  tags,
+  body: z.object({
+    name: z.string().trim().min(1, "Please enter your name!"),
+    email,
+    password,
+    avatar: imageUpload,
+  }),
+  responses: {
+    201: "User created successfully",
+    400: "User already exists",
+    500: "Server error",
+  },
+});
+
+export const activation = defineRoute({
+  summary: "Activate a user account",
+  description: "The activation email links to the storefront, which posts the token here.",
+  tags,
+  body: z.object({
+    activation_token: z.string(),
+  }),
+  responses: {
+    201: "User activated successfully",
+    400: "Invalid token or user already exists",
+    429: "Too many activation attempts",
+    500: "Server error",
+  },
+});
+
+export const loginUser = defineRoute({
+  summary: "Log in a user",
+  tags,
+  body: z.object({
+    email,
+    password: z.string(),
+  }),
+  responses: {
+    200: "Password accepted, two-factor code required. Continue with /user/login-2fa using the returned loginToken",
+    201: "User logged in successfully",
+    400: "User doesn't exist or incorrect information",
+    423: "Account is locked after too many failed attempts",
+    429: "Too many login attempts from this IP or for this email",
+    500: "Server error",
+  },
+});
+
+export const loginTwoFactor = defineRoute({
+  summary: "Complete a two-step login",
+  description: "Uses the login token returned by /user/login-user and either a TOTP code or a recovery code.",
+  tags,
+  body: twoFactorLogin,
+  responses: {
+    201: "User logged in successfully",
+    401: "Login token or two-factor code is invalid",
+    423: "Account is locked after too many failed attempts",
+    500: "Server error",
+  },
+});
+
+export const twoFactorSetup = defineRoute({
+  summary: "Start two-factor enrollment",
+  description: "Returns a new TOTP secret and its otpauth provisioning URI for a QR code.",
+  tags,
+  responses: {
+    200: "Secret generated",
+    400: "Two-factor authentication is already enabled",
+    500: "Server error",
+  },
+});
+
+export const twoFactorVerify = defineRoute({
+  summary: "Verify and enable two-factor authentication",
+  description: "Checks the first code from the authenticator app and returns one-time recovery codes.",
+  tags,
+  body: z.object({
+    code: totpCode,
+  }),
+  responses: {
+    200: "Two-factor authentication enabled",
+    400: "Enrollment not started or invalid code",
+    500: "Server error",
+  },
+});
+
+export const twoFactorRecoveryCodes = defineRoute({
+  summary: "Regenerate recovery codes",
+  tags,
+  body: z.object({
+    code: totpCode,
+  }),
+  responses: {
+    200: "New recovery codes generated",
+    400: "Invalid two-factor code",
+    500: "Server error",
+  },
+});
+
+export const twoFactorDisableRoute = defineRoute({
+  summary: "Disable two-factor authentication",
+  tags,
+  body: twoFactorDisable,
+  responses: {
+    200: "Two-factor authentication disabled",
+    400: "Incorrect password or two-factor code",
+    500: "Server error",
+  },
+});
+
+export const getUser = defineRoute({
+  summary: "Get user information",
+  tags,
+  responses: {
+    200: "User information retrieved successfully",
+    400: "User doesn't exist",
+    500: "Server error",
+  },
+});
+
+export const logout = defineRoute({
+  summary: "Log out a user",
+  description: "Revokes the current session and clears the session cookies.",
+  tags,
+  responses: {
+    201: "Log out successful",
+    500: "Server error",
+  },
+});
+
+export const refresh = defineRoute({
+  summary: "Refresh the access token",
+  description: "Exchanges the refresh token cookie for new tokens. Each refresh token can only be used once.",
+  tags,
+  responses: {
+    200: "Tokens refreshed successfully",
+    401: "Refresh token is missing, expired or revoked",
+    500: "Server error",
+  },
+});
+
+export const logoutAll = defineRoute({
+  summary: "Log out everywhere",
+  tags,
+  responses: {
+    200: "All sessions revoked",
+    500: "Server error",
+  },
+});
+
+export const listSessions = defineRoute({
+  summary: "List active sessions",
+  tags,
+  responses: {
+    200: "Sessions retrieved successfully",
+    500: "Server error",
+  },
+});
+
+export const revokeSession = defineRoute({
+  summary: "Revoke a session",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Session revoked",
+    404: "Session not found",
+    500: "Server error",
+  },
+});
+
+export const updateUserInfo = defineRoute({
+  summary: "Update user information",
+  tags,
+  body: z.object({
+    email,
+    password: z.string(),
+    phoneNumber: z.coerce.number().optional(),
+    name: z.string().trim().min(1),
+  }),
+  responses: {
+    201: "User information updated successfully",
+    400: "User not found or incorrect information",
+    500: "Server error",
+  },
+});
+
+export const updateAvatar = defineRoute({
+  summary: "Update user avatar",
+  description: "An empty avatar keeps the current one.",
+  tags,
+  body: z.object({
+    avatar: z.string(),
+  }),
+  responses: {
+    200: "Avatar updated successfully",
+    400: "User not found",
+    500: "Server error",
+  },
+});
+
+export const updateUserAddresses = defineRoute({
+  summary: "Add or update a user address",
+  tags,
+  body: z.object({
+    _id: objectId.optional(),
+    country: z.string().optional(),
+    city: z.string().optional(),
+    address1: z.string().optional(),
+    address2: z.string().optional(),
+    zipCode: z.coerce.number().optional(),
+    addressType: z.string().min(1),
+  }),
+  responses: {
+    200: "Addresses updated successfully",
+    400: "User doesn't exist or address already exists",
+    500: "Server error",
+  },
+});
+
+export const deleteUserAddress = defineRoute({
+  summary: "Delete user address",
+  tags,
+  params: idParams,
+  responses: {
+    200: "Address deleted successfully",
+    400: "User doesn't exist",
+    500: "Server error",
+  },
+});
+
+export const updateUserPassword = defineRoute({
+  summary: "Update user password",
+  tags,
+  body: z.object({
+    oldPassword: z.string(),
+    newPassword: password,
+    confirmPassword: z.string(),
+  }),
+  responses: {
+    200: "Password updated successfully",
+    400: "Old password is incorrect or passwords don't match",
+    500: "Server error",
+  },
+});
+
+export const forgotPassword = defineRoute({
+  summary: "Request a password reset email",
+  description: "Emails a one-time reset link that expires after 15 minutes.",
+  tags,
+  body: z.object({
+    email,
+  }),
+  responses: {
+    200: "Reset email sent",
+    404: "User not found with this email",
+    429: "Too many reset requests",
+    500: "Server error",
+  },
+});
+
+export const resetPassword = defineRoute({
+  summary: "Reset password with a reset token",
+  description: "Each token can only be used once. All sessions are revoked afterwards.",
+  tags,
+  params: z.object({
+    token: z.string(),
+  }),
+  body: resetPasswordBody,
+  responses: {
+    200: "Password reset successfully",
+    400: "Token is invalid or expired",
+    500: "Server error",
+  },
+});
+
+export const userInfo = defineRoute({
+  summary: "Retrieve user information",
+  tags,
+  params: idParams,
+  responses: {
+    201: "User information retrieved successfully",
+    400: "User not found",
+    500: "Server error",
+  },
+});
+
+export const adminAllUsers = defineRoute({
+  summary: "Retrieve all users (Admin only)",
+  tags: ["Admin"],
+  responses: {
+    201: "Users retrieved successfully",
+    403: "Missing users:view permission",
+    500: "Server error",
+  },
+});
+
+export const deleteUser = defineRoute({
+  summary: "Delete user (Admin only)",
+  tags: ["Admin"],
+  params: idParams,
+  responses: {
+    201: "User deleted successfully",
+    400: "User is not available with this id",
+    403: "Missing users:delete permission",
+    500: "Server error",
+  },
+});
+
+export const adminUnlockUser = defineRoute({
+  summary: "Unlock a user account (Admin only)",
+  tags: ["Admin"],
+  params: idParams,
+  responses: {
+    200: "User unlocked successfully",
+    400: "User is not available with this id",
+    403: "Missing accounts:unlock permission",
+    500: "Server error",
+  },
+});
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { defineRoute } from "../middleware/validate";
+import { objectId, idParams } from "./common";
+
+const tags = ["Withdraw"];
+
+export const createWithdrawRequest = defineRoute({
+  summary: "Create a withdraw request",
+  description: "The amount is taken off the shop's available balance right away and booked in its ledger.",
+  tags,
+  body: z.object({
+    amount: z.coerce.number().positive(),
+  }),
+  responses: {
+    201: "Withdraw request created successfully",
+    400: "Available balance is lower than the amount",
+    403: "Only the shop owner can do this",
+    500: "Server error",
+  },
+});
+
+export const getAllWithdrawRequest = defineRoute({
+  summary: "Retrieve all withdraw requests (Admin only)",
+  tags: ["Admin"],
+  responses: {
+    201: "Withdraw requests retrieved successfully",
+    403: "Missing withdraw:view permission",
+    500: "Server error",
+  },
+});
+
+export const updateWithdrawRequest = defineRoute({
+  summary: "Mark a withdraw request as succeeded (Admin only)",
+  tags: ["Admin"],
+  params: idParams,
+  body: z.object({
+    sellerId: objectId,
+  }),
+  responses: {
+    201: "Withdraw request updated successfully",
+    403: "Missing withdraw:approve permission",
+    500: "Server error",
+  },
+});
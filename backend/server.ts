@@ -1,7 +1,8 @@
+import './config/env';
 import app from './app';
 import connectDatabase from './db/Database';
 import { v2 as cloudinary } from 'cloudinary';
-import dotenv from 'dotenv';
+import { cancelExpiredOrders, retryFailedRefunds } from './utils/orders';
 
 // Handling uncaught Exception
 process.on('uncaughtException', (err: Error) => {
@@ -10,13 +11,6 @@ process.on('uncaughtException', (err: Error) => {
   process.exit(1);
 });
 
-// config
-if (process.env.NODE_ENV !== 'PRODUCTION') {
-  dotenv.config({
-    path: 'config/.env',
-  });
-}
-
 // connect db
 connectDatabase();
 
@@ -31,6 +25,20 @@ const server = app.listen(process.env.PORT, () => {
   console.log(`Server is running on http://localhost:${process.env.PORT}`);
 });
 
+// cancel unpaid orders and give back their stock once the reservation runs out
+setInterval(() => {
+  cancelExpiredOrders().catch((err: Error) => {
+    console.log(`Error cancelling expired orders: ${err.message}`);
+  });
+}, 60 * 1000);
+
+// refunds the payment provider failed on are tried again until they go through
+setInterval(() => {
+  retryFailedRefunds().catch((err: Error) => {
+    console.log(`Error retrying refunds: ${err.message}`);
+  });
+}, 5 * 60 * 1000);
+
 // unhandled promise rejection
 process.on('unhandledRejection', (err: Error) => {
   console.log(`Error: ${err.message}`);
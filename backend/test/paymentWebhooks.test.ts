@@ -0,0 +1,388 @@
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import Stripe from "stripe";
+import mongoose from "mongoose";
+import Order, { IOrder } from "../model/order";
+import PaymentEvent from "../model/paymentEvent";
+import LedgerEntry from "../model/ledgerEntry";
+import Shop from "../model/shop";
+import Product from "../model/product";
+import { PAYMENT_PROVIDERS, ProviderEvent } from "../utils/paymentProviders";
+import { handlePaymentEvent } from "../utils/paymentWebhooks";
+import { cancelExpiredOrders, retryFailedRefunds } from "../utils/orders";
+import { PAYMENT_EXPIRED } from "../utils/payments";
+
+const WEBHOOK_SECRET = "whsec_fixture";
+process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+
+const stripe = new Stripe("sk_test_fixture", { apiVersion: "2022-11-15" });
+const provider = PAYMENT_PROVIDERS.stripe;
+
+const FIRST_ORDER = "64f000000000000000000001";
+const SECOND_ORDER = "64f000000000000000000002";
+const SHOP = "64f0000000000000000000aa";
+
+const fixture = (name: string): Buffer =>
+  fs.readFileSync(path.join(__dirname, "fixtures", "stripe", `${name}.json`));
+
+// signs the payload the way Stripe does, with the endpoint's secret
+const signed = (payload: Buffer, secret = WEBHOOK_SECRET) => ({
+  "stripe-signature": stripe.webhooks.generateTestHeaderString({ payload: payload.toString(), secret }),
+});
+
+const receive = async (name: string): Promise<{ event: ProviderEvent; handled: boolean }> => {
+  const payload = fixture(name);
+  const event = await provider.parseWebhook!(payload, signed(payload));
+
+  return { event, handled: await handlePaymentEvent(provider, event) };
+};
+
+// the database, kept in memory
+const orders = new Map<string, IOrder>();
+const handledEvents = new Set<string>();
+const ledger: { type: string; reference: string; amount: number }[] = [];
+let saleCredited = false;
+
+const isPaid = (order: IOrder) => /^succeeded$/i.test(order.paymentInfo.status || "");
+
+const stub = <Args extends unknown[]>(target: object, method: string, implementation: (...args: Args) => unknown) =>
+  mock.method(target as Record<string, (...args: Args) => unknown>, method, implementation);
+
+interface OrderFilter {
+  _id?: string;
+  status?: string;
+  "paymentInfo.id"?: string;
+  "paymentInfo.status"?: unknown;
+  "reservation.status"?: string | { $in: (string | null)[] };
+}
+
+// the filters the code under test uses, a status filter on the payment always means "not paid"
+const matches = (order: IOrder, filter: OrderFilter) => {
+  const reservation = filter["reservation.status"];
+  const statuses: (string | null)[] = typeof reservation === "object" ? reservation.$in : [reservation ?? null];
+
+  return (
+    (filter.status === undefined || order.status === filter.status) &&
+    (filter["paymentInfo.id"] === undefined || order.paymentInfo.id === filter["paymentInfo.id"]) &&
+    (filter["paymentInfo.status"] === undefined || !isPaid(order)) &&
+    (reservation === undefined || statuses.includes(order.reservation?.status ?? null))
+  );
+};
+
+stub(PaymentEvent, "create", async ({ provider, eventId }: { provider: string; eventId: string }) => {
+  if (handledEvents.has(`${provider}:${eventId}`)) {
+    throw Object.assign(new Error("E11000 duplicate key error"), { code: 11000 });
+  }
+  handledEvents.add(`${provider}:${eventId}`);
+});
+stub(PaymentEvent, "deleteOne", async ({ provider, eventId }: { provider: string; eventId: string }) => {
+  handledEvents.delete(`${provider}:${eventId}`);
+});
+
+// what another query would load, changes to it only count once it's saved
+const loaded = (order: IOrder): IOrder => Order.hydrate(order.toObject());
+
+stub(Order, "findById", async (id: string) => orders.get(String(id)) || null);
+stub(Order, "find", async (filter: OrderFilter) =>
+  [...orders.values()].filter((order) => matches(order, filter)).map(loaded)
+);
+stub(
+  Order,
+  "findOneAndUpdate",
+  async (filter: OrderFilter, update: { $set: Record<string, unknown> }, options?: { new?: boolean }) => {
+    const order = orders.get(String(filter._id));
+    if (!order || !matches(order, filter)) {
+      return null;
+    }
+    const previous = loaded(order);
+    order.set(update.$set);
+    return options?.new ? loaded(order) : previous;
+  }
+);
+stub(Order, "updateMany", async (filter: { _id: { $in: string[] } }, update: { $set: Record<string, unknown> }) => {
+  for (const id of filter._id.$in) {
+    const order = orders.get(id);
+    if (order && !isPaid(order)) {
+      order.set(update.$set);
+    }
+  }
+});
+// like mongoose, only writes the paths the document changed
+stub(Order.prototype, "save", async function (this: IOrder) {
+  const stored = orders.get(String(this._id));
+  if (stored && stored !== this) {
+    for (const changed of this.directModifiedPaths()) {
+      stored.set(changed, this.get(changed));
+    }
+  }
+  return this;
+});
+
+stub(LedgerEntry, "exists", async () => (saleCredited ? { _id: "sale" } : null));
+stub(LedgerEntry, "create", async (entries: { type: string; reference: string; amount: number }[]) => {
+  for (const entry of entries) {
+    if (ledger.some((existing) => existing.type === entry.type && existing.reference === entry.reference)) {
+      throw Object.assign(new Error("E11000 duplicate key error"), { code: 11000 });
+    }
+    ledger.push(entry);
+  }
+  return entries;
+});
+stub(mongoose.connection, "transaction", async (write: (session: null) => Promise<unknown>) => write(null));
+stub(Shop, "updateOne", async () => ({ modifiedCount: 1 }));
+// confirmations skip orders whose shop is gone
+stub(Shop, "findById", async () => null);
+
+// runs once the expiry sweep gives back an order's stock, before it saves the cancellation
+let onStockReleased: (() => Promise<unknown>) | null = null;
+stub(Product, "findOneAndUpdate", async () => {
+  const pending = onStockReleased;
+  onStockReleased = null;
+  await pending?.();
+  return { _id: "64f0000000000000000000b1" };
+});
+
+// Stripe doesn't send a charge's refunds with the event, the provider fetches them
+const refundsList = stub(
+  (Stripe as unknown as { resources: Record<string, { prototype: object }> }).resources.Refunds.prototype,
+  "list",
+  async (_params: { charge: string }) => ({
+    data: [{ id: "re_fixture", amount: 10000, status: "succeeded", metadata: {}, created: 1700000000 }],
+  })
+);
+
+// hands back the refund made earlier with the same idempotency key, like Stripe does
+const refundsMade = new Map<string, { id: string; amount: number }>();
+let refundTimesOut = false;
+const refundsCreate = stub(
+  (Stripe as unknown as { resources: Record<string, { prototype: object }> }).resources.Refunds.prototype,
+  "create",
+  async (params: { amount: number; metadata: Record<string, string> }, options?: { idempotencyKey?: string }) => {
+    const key = options?.idempotencyKey || `re_${refundsMade.size}`;
+    const refund = refundsMade.get(key) || { id: `re_${refundsMade.size + 1}`, amount: params.amount };
+    refundsMade.set(key, refund);
+
+    if (refundTimesOut) {
+      refundTimesOut = false;
+      throw new Error("Request timed out");
+    }
+    return { ...refund, status: "succeeded", metadata: params.metadata, created: 1700000000 };
+  }
+);
+
+const addOrder = (id: string, totalPrice: number, paymentInfo: IOrder["paymentInfo"]) => {
+  const order = new Order({
+    _id: id,
+    cart: [{ _id: "64f0000000000000000000b1", shopId: SHOP, name: "Lamp", qty: 1, discountPrice: totalPrice, lineTotal: totalPrice }],
+    shippingAddress: {},
+    user: { name: "Buyer", email: "buyer@example.com" },
+    totalPrice,
+    paymentInfo,
+    reservation: { status: "held", expiresAt: new Date() },
+  });
+  orders.set(id, order);
+  return order;
+};
+
+beforeEach(() => {
+  orders.clear();
+  handledEvents.clear();
+  ledger.length = 0;
+  saleCredited = false;
+  refundsMade.clear();
+  refundTimesOut = false;
+  onStockReleased = null;
+});
+
+after(() => {
+  mock.restoreAll();
+});
+
+describe("Stripe webhook", () => {
+  it("rejects events that weren't signed with the endpoint secret", async () => {
+    const payload = fixture("payment_intent.succeeded");
+
+    await assert.rejects(provider.parseWebhook!(payload, signed(payload, "whsec_other")));
+    await assert.rejects(provider.parseWebhook!(payload, {}));
+  });
+
+  it("rejects events changed after they were signed", async () => {
+    const payload = fixture("payment_intent.succeeded");
+    const headers = signed(payload);
+    const tampered = Buffer.from(payload.toString().replace("15000", "1"));
+
+    await assert.rejects(provider.parseWebhook!(tampered, headers));
+  });
+
+  it("marks every order of the payment intent paid on payment_intent.succeeded", async () => {
+    addOrder(FIRST_ORDER, 100, { type: "stripe", status: "Pending" });
+    addOrder(SECOND_ORDER, 50, { type: "stripe", status: "Pending" });
+
+    const { event, handled } = await receive("payment_intent.succeeded");
+
+    assert.equal(event.type, "payment_succeeded");
+    assert.equal(handled, true);
+    for (const id of [FIRST_ORDER, SECOND_ORDER]) {
+      const order = orders.get(id)!;
+      assert.equal(order.paymentInfo.status, "Succeeded");
+      assert.equal(order.paymentInfo.id, "pi_fixture");
+      assert.ok(order.paidAt);
+      assert.equal(order.status, "Processing");
+    }
+  });
+
+  it("marks the orders failed on payment_intent.payment_failed", async () => {
+    addOrder(FIRST_ORDER, 100, { type: "stripe", status: "Pending" });
+    addOrder(SECOND_ORDER, 50, { type: "stripe", status: "Pending" });
+
+    const { event, handled } = await receive("payment_intent.payment_failed");
+
+    assert.equal(event.type, "payment_failed");
+    assert.equal(handled, true);
+    for (const id of [FIRST_ORDER, SECOND_ORDER]) {
+      const order = orders.get(id)!;
+      assert.equal(order.paymentInfo.status, "Failed");
+      assert.equal(order.paidAt, undefined);
+    }
+  });
+
+  it("doesn't let a late payment_failed undo a payment", async () => {
+    addOrder(FIRST_ORDER, 100, { type: "stripe", status: "Pending" });
+    addOrder(SECOND_ORDER, 50, { type: "stripe", status: "Pending" });
+
+    await receive("payment_intent.succeeded");
+    await receive("payment_intent.payment_failed");
+
+    assert.equal(orders.get(FIRST_ORDER)!.paymentInfo.status, "Succeeded");
+    assert.equal(orders.get(SECOND_ORDER)!.paymentInfo.status, "Succeeded");
+  });
+
+  it("does nothing when an event id is delivered again", async () => {
+    addOrder(FIRST_ORDER, 100, { type: "stripe", status: "Pending" });
+    addOrder(SECOND_ORDER, 50, { type: "stripe", status: "Pending" });
+
+    assert.equal((await receive("payment_intent.succeeded")).handled, true);
+    const paidAt = orders.get(FIRST_ORDER)!.paidAt;
+
+    const replay = await receive("payment_intent.succeeded");
+
+    assert.equal(replay.handled, false);
+    assert.equal(orders.get(FIRST_ORDER)!.paidAt, paidAt);
+  });
+
+  it("refunds a second payment for an order that was already paid, once when the event is retried", async () => {
+    addOrder(FIRST_ORDER, 100, { type: "stripe", status: "Succeeded", id: "pi_earlier" });
+    addOrder(SECOND_ORDER, 50, { type: "stripe", status: "Pending" });
+    refundTimesOut = true;
+
+    // the refund went through but the answer was lost, so the provider sends the event again
+    await assert.rejects(receive("payment_intent.succeeded"));
+    const { handled } = await receive("payment_intent.succeeded");
+
+    assert.equal(handled, true);
+    const keys = refundsCreate.mock.calls.slice(-2).map((call) => call.arguments[1]?.idempotencyKey);
+    assert.deepEqual(keys, [`refund-dup-pi_fixture-${FIRST_ORDER}`, `refund-dup-pi_fixture-${FIRST_ORDER}`]);
+    assert.equal(refundsMade.size, 1);
+
+    const order = orders.get(FIRST_ORDER)!;
+    assert.equal(order.paymentInfo.id, "pi_earlier");
+    assert.equal(order.refunds.length, 1);
+    assert.equal(order.refunds[0].id, "re_1");
+    assert.equal(order.refunds[0].amount, 100);
+    assert.equal(order.refunds[0].key, `refund-dup-pi_fixture-${FIRST_ORDER}`);
+    assert.equal(orders.get(SECOND_ORDER)!.paymentInfo.status, "Succeeded");
+  });
+
+  it("records a dashboard refund on charge.refunded and books it against the shop", async () => {
+    addOrder(FIRST_ORDER, 100, { type: "stripe", status: "Succeeded", id: "pi_fixture" });
+    saleCredited = true;
+
+    const { event, handled } = await receive("charge.refunded");
+
+    assert.equal(event.type, "refunded");
+    assert.equal(handled, true);
+    assert.equal(refundsList.mock.calls.at(-1)?.arguments[0]?.charge, "ch_fixture");
+
+    const order = orders.get(FIRST_ORDER)!;
+    assert.equal(order.refunds.length, 1);
+    assert.equal(order.refunds[0].id, "re_fixture");
+    assert.equal(order.refunds[0].amount, 100);
+    assert.equal(order.paymentInfo.status, "Refunded");
+
+    assert.deepEqual(
+      ledger.map(({ type, reference, amount }) => ({ type, reference, amount })),
+      [
+        { type: "refund", reference: "refund:re_fixture", amount: -100 },
+        { type: "commission_refund", reference: "refund:re_fixture", amount: 10 },
+      ]
+    );
+
+    // a replayed event neither adds the refund again nor books it twice
+    assert.equal((await receive("charge.refunded")).handled, false);
+    assert.equal(order.refunds.length, 1);
+    assert.equal(ledger.length, 2);
+  });
+
+  it("refunds a payment that comes in while the expiry sweep is cancelling the order", async () => {
+    const order = addOrder(FIRST_ORDER, 100, { type: "stripe", status: "Pending" });
+    order.set("user.email", undefined);
+    onStockReleased = () => receive("payment_intent.succeeded");
+
+    assert.equal(await cancelExpiredOrders(), 1);
+
+    assert.equal(order.status, "Cancelled");
+    assert.equal(order.paymentInfo.status, "Succeeded");
+    assert.equal(order.refunds.length, 1);
+    assert.equal(order.refunds[0].amount, 100);
+    assert.equal(order.refunds[0].reason, "Paid after the order was cancelled");
+  });
+
+  it("retries the refund of a payment on a cancelled order with the same key", async () => {
+    const order = addOrder(FIRST_ORDER, 100, { type: "stripe", status: PAYMENT_EXPIRED });
+    order.status = "Cancelled";
+    addOrder(SECOND_ORDER, 50, { type: "stripe", status: "Pending" });
+    refundTimesOut = true;
+
+    assert.equal((await receive("payment_intent.succeeded")).handled, true);
+    assert.equal(order.paymentInfo.status, "Succeeded");
+    assert.equal(order.refunds.length, 1);
+    assert.equal(order.refunds[0].status, "retrying");
+
+    assert.equal(await retryFailedRefunds(new Date(Date.now() + 24 * 60 * 60 * 1000)), 1);
+
+    const keys = refundsCreate.mock.calls.slice(-2).map((call) => call.arguments[1]?.idempotencyKey);
+    assert.deepEqual(keys, [`refund-${FIRST_ORDER}-0`, `refund-${FIRST_ORDER}-0`]);
+    assert.equal(refundsMade.size, 1);
+    assert.equal(order.refunds.length, 1);
+    assert.equal(order.refunds[0].status, "succeeded");
+    assert.equal(order.refunds[0].reason, "Paid after the order was cancelled");
+  });
+
+  it("refunds a cancelled order when its payment event comes again before the refund was recorded", async () => {
+    const order = addOrder(FIRST_ORDER, 100, { type: "stripe", status: "Succeeded", id: "pi_fixture" });
+    order.status = "Cancelled";
+    addOrder(SECOND_ORDER, 50, { type: "stripe", status: "Succeeded", id: "pi_fixture" });
+
+    assert.equal((await receive("payment_intent.succeeded")).handled, true);
+
+    assert.equal(order.refunds.length, 1);
+    assert.equal(order.refunds[0].amount, 100);
+    assert.equal(order.refunds[0].reason, "Paid after the order was cancelled");
+    assert.equal(orders.get(SECOND_ORDER)!.refunds.length, 0);
+  });
+
+  it("keeps an order that was paid after the expiry sweep found it", async () => {
+    const order = addOrder(FIRST_ORDER, 100, { type: "stripe", status: "Pending" });
+    await receive("payment_intent.succeeded");
+
+    // the stubbed query still finds it, like a sweep that ran just before the payment
+    assert.equal(await cancelExpiredOrders(), 0);
+
+    assert.equal(order.status, "Processing");
+    assert.equal(order.paymentInfo.status, "Succeeded");
+    assert.equal(order.reservation?.status, "held");
+    assert.equal(order.refunds.length, 0);
+  });
+});
@@ -1,9 +1,11 @@
 class ErrorHandler extends Error {
   statusCode: number;
+  errors?: unknown[];
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, errors?: unknown[]) {
     super(message);
     this.statusCode = statusCode;
+    this.errors = errors;
 
     Error.captureStackTrace(this, this.constructor);
   }
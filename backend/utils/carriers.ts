@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import { Request } from "express";
+
+export const SHIPMENT_STATUSES = [
+  "pre_transit",
+  "in_transit",
+  "at_hub",
+  "out_for_delivery",
+  "delivered",
+  "exception",
+] as const;
+
+export type ShipmentStatus = typeof SHIPMENT_STATUSES[number];
+
+// a carrier's tracking update, in our terms
+export interface TrackingEvent {
+  trackingNumber: string;
+  status: ShipmentStatus;
+  at: Date;
+  description?: string;
+  location?: string;
+}
+
+export interface Carrier {
+  name: string;
+  label: string;
+  trackingUrl: (trackingNumber: string) => string | undefined;
+  // carriers without one only get tracking numbers typed in by the seller
+  webhook?: {
+    verify: (req: Request) => boolean;
+    parse: (body: unknown) => TrackingEvent[];
+  };
+  createTrackingNumber?: () => string;
+}
+
+const isShipmentStatus = (status: unknown): status is ShipmentStatus =>
+  (SHIPMENT_STATUSES as readonly unknown[]).includes(status);
+
+const sameSecret = (given: string, expected: string) =>
+  given.length === expected.length && crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+
+/**
+ * Stands in for a real carrier during development. Its webhook takes events
+ * already in our format and only works once MOCK_CARRIER_SECRET is set, sent
+ * back in the x-mock-carrier-secret header.
+ */
+const mockCarrier: Carrier = {
+  name: "mock",
+  label: "Mock Carrier",
+  trackingUrl: () => undefined,
+  webhook: {
+    verify: (req) => {
+      const secret = process.env.MOCK_CARRIER_SECRET;
+
+      if (!secret) {
+        return false;
+      }
+
+      return sameSecret(String(req.headers["x-mock-carrier-secret"] || ""), secret);
+    },
+    parse: (body) => {
+      const events = Array.isArray(body) ? body : [body];
+
+      return events
+        .filter((event) => event && typeof event.trackingNumber === "string" && isShipmentStatus(event.status))
+        .map((event) => ({
+          trackingNumber: event.trackingNumber,
+          status: event.status,
+          at: event.at ? new Date(event.at) : new Date(),
+          description: typeof event.description === "string" ? event.description : undefined,
+          location: typeof event.location === "string" ? event.location : undefined,
+        }))
+        .filter((event) => !isNaN(event.at.getTime()));
+    },
+  },
+  createTrackingNumber: () => `MOCK${crypto.randomBytes(6).toString("hex").toUpperCase()}`,
+};
+
+const manualCarrier = (name: string, label: string, url: string): Carrier => ({
+  name,
+  label,
+  trackingUrl: (trackingNumber) => url + encodeURIComponent(trackingNumber),
+});
+
+export const CARRIERS: Record<string, Carrier> = {
+  mock: mockCarrier,
+  ups: manualCarrier("ups", "UPS", "https://www.ups.com/track?tracknum="),
+  fedex: manualCarrier("fedex", "FedEx", "https://www.fedex.com/fedextrack/?trknbr="),
+  usps: manualCarrier("usps", "USPS", "https://tools.usps.com/go/TrackConfirmAction?tLabels="),
+  dhl: manualCarrier("dhl", "DHL", "https://www.dhl.com/en/express/tracking.html?AWB="),
+};
+
+export const CARRIER_NAMES = Object.keys(CARRIERS) as [string, ...string[]];
@@ -0,0 +1,424 @@
+import cloudinary from "cloudinary";
+import Product, { IProduct, ProductOption } from "../model/product";
+import { ProductChange } from "../model/productRevision";
+import { parseCsv, stringifyCsv } from "./csv";
+import { diffProductFields, recordProductRevision, summarizeVariants } from "./productRevision";
+import { saveVariants, VariantFields } from "./variants";
+import { checkStockEdit } from "./stockAlerts";
+
+export const CATALOG_COLUMNS = [
+  "sku",
+  "parentSku",
+  "name",
+  "description",
+  "category",
+  "tags",
+  "originalPrice",
+  "price",
+  "stock",
+  "options",
+  "images",
+] as const;
+
+// largest number of products in one import
+export const MAX_CATALOG_ITEMS = 1000;
+
+export interface CatalogVariant {
+  sku: string;
+  options: Record<string, string>;
+  originalPrice?: number;
+  price: number;
+  stock: number;
+  images: string[];
+}
+
+export interface CatalogItem {
+  sku: string;
+  name: string;
+  description: string;
+  category: string;
+  tags?: string;
+  originalPrice?: number;
+  discountPrice?: number;
+  stock?: number;
+  images: string[];
+  options: ProductOption[];
+  variants: CatalogVariant[];
+}
+
+export interface CatalogError {
+  row: number;
+  sku?: string;
+  path: string;
+  message: string;
+}
+
+// an unvalidated product of the file and the rows it came from
+export interface CatalogEntry {
+  row: number;
+  // CSV rows of the variants, by index
+  variantRows: number[];
+  item: Record<string, any>;
+}
+
+interface CatalogImage {
+  public_id: string;
+  url: string;
+}
+
+const splitList = (value?: string): string[] =>
+  value ? value.split("|").map((part) => part.trim()).filter(Boolean) : [];
+
+const parseOptions = (value?: string): Record<string, string> | null => {
+  const options: Record<string, string> = {};
+
+  for (const part of splitList(value)) {
+    const [name, optionValue] = part.split("=").map((text) => text.trim());
+    if (!name || !optionValue) {
+      return null;
+    }
+    options[name] = optionValue;
+  }
+
+  return options;
+};
+
+export const parseCatalogCsv = (text: string): { entries: CatalogEntry[]; errors: CatalogError[] } => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((column) => column.trim());
+  const errors: CatalogError[] = [];
+
+  const missing = ["sku", "name", "category", "images"].filter((column) => !columns.includes(column));
+  if (missing.length) {
+    errors.push({ row: 1, path: "", message: `Missing columns: ${missing.join(", ")}` });
+    return { entries: [], errors };
+  }
+
+  const entries: CatalogEntry[] = [];
+  const bySku = new Map<string, CatalogEntry>();
+  const variantRows: { row: number; record: Record<string, string | undefined> }[] = [];
+
+  rows.forEach((cells, index) => {
+    // header is row 1
+    const row = index + 2;
+
+    if (cells.every((cell) => !cell.trim())) {
+      return;
+    }
+
+    const record: Record<string, string | undefined> = {};
+    columns.forEach((column, i) => {
+      const value = cells[i]?.trim();
+      record[column] = value ? value : undefined;
+    });
+
+    if (record.parentSku) {
+      variantRows.push({ row, record });
+      return;
+    }
+
+    const entry: CatalogEntry = {
+      row,
+      variantRows: [],
+      item: {
+        sku: record.sku,
+        name: record.name,
+        description: record.description,
+        category: record.category,
+        tags: record.tags,
+        originalPrice: record.originalPrice,
+        discountPrice: record.price,
+        stock: record.stock,
+        images: splitList(record.images),
+        options: [],
+        variants: [],
+      },
+    };
+
+    entries.push(entry);
+    if (record.sku) {
+      bySku.set(record.sku, entry);
+    }
+  });
+
+  for (const { row, record } of variantRows) {
+    const entry = bySku.get(record.parentSku!);
+    if (!entry) {
+      errors.push({ row, sku: record.sku, path: "parentSku", message: `No product with SKU ${record.parentSku}` });
+      continue;
+    }
+
+    const options = parseOptions(record.options);
+    if (!options) {
+      errors.push({ row, sku: record.sku, path: "options", message: "Options must look like Size=M|Colour=Red" });
+      continue;
+    }
+
+    // the product's options are the names and values its variants use
+    for (const [name, value] of Object.entries(options)) {
+      let option = entry.item.options.find((existing: ProductOption) => existing.name === name);
+      if (!option) {
+        option = { name, values: [] };
+        entry.item.options.push(option);
+      }
+      if (!option.values.includes(value)) {
+        option.values.push(value);
+      }
+    }
+
+    entry.variantRows.push(row);
+    entry.item.variants.push({
+      sku: record.sku,
+      options,
+      originalPrice: record.originalPrice,
+      price: record.price,
+      stock: record.stock,
+      images: splitList(record.images),
+    });
+  }
+
+  return { entries, errors };
+};
+
+export const parseCatalogJson = (data: string | unknown[]): { entries: CatalogEntry[]; errors: CatalogError[] } => {
+  let items: unknown = data;
+
+  if (typeof data === "string") {
+    try {
+      items = JSON.parse(data);
+    } catch {
+      return { entries: [], errors: [{ row: 1, path: "", message: "Data is not valid JSON" }] };
+    }
+  }
+
+  if (!Array.isArray(items)) {
+    return { entries: [], errors: [{ row: 1, path: "", message: "Data must be an array of products" }] };
+  }
+
+  return {
+    entries: items.map((item, index) => ({ row: index + 1, variantRows: [], item })),
+    errors: [],
+  };
+};
+
+// CSV errors point at the variant row when the problem is in a variant
+export const rowOfIssue = (entry: CatalogEntry, path: (string | number)[]): number => {
+  if (path[0] === "variants" && typeof path[1] === "number" && entry.variantRows[path[1]]) {
+    return entry.variantRows[path[1]];
+  }
+  return entry.row;
+};
+
+export const toCatalogItem = (product: IProduct, categorySlug: string): CatalogItem => ({
+  // products created before SKUs existed are keyed on their id
+  sku: product.sku || String(product._id),
+  name: product.name,
+  description: product.description,
+  category: categorySlug,
+  tags: product.tags,
+  originalPrice: product.originalPrice,
+  discountPrice: product.variants.length ? undefined : product.discountPrice,
+  stock: product.variants.length ? undefined : product.stock,
+  images: product.images.map((image) => image.url),
+  options: product.options.map(({ name, values }) => ({ name, values: [...values] })),
+  variants: product.variants.map((variant) => ({
+    sku: variant.sku,
+    options: variant.options,
+    originalPrice: variant.originalPrice,
+    price: variant.price,
+    stock: variant.stock,
+    images: variant.images.map((image) => image.url),
+  })),
+});
+
+export const catalogToCsv = (items: CatalogItem[]): string => {
+  const rows: unknown[][] = [[...CATALOG_COLUMNS]];
+
+  for (const item of items) {
+    rows.push([
+      item.sku,
+      "",
+      item.name,
+      item.description,
+      item.category,
+      item.tags,
+      item.originalPrice,
+      item.discountPrice,
+      item.stock,
+      "",
+      item.images.join("|"),
+    ]);
+
+    for (const variant of item.variants) {
+      rows.push([
+        variant.sku,
+        item.sku,
+        "",
+        "",
+        "",
+        "",
+        variant.originalPrice,
+        variant.price,
+        variant.stock,
+        Object.entries(variant.options).map(([name, value]) => `${name}=${value}`).join("|"),
+        variant.images.join("|"),
+      ]);
+    }
+  }
+
+  return stringifyCsv(rows);
+};
+
+// keeps images whose URL is already ours and fetches the rest into Cloudinary
+const syncImages = async (
+  current: CatalogImage[],
+  urls: string[],
+  uploaded: CatalogImage[],
+  replaced: string[]
+): Promise<CatalogImage[]> => {
+  const images: CatalogImage[] = [];
+
+  for (const url of urls) {
+    const existing = current.find((image) => image.url === url);
+
+    if (existing) {
+      images.push({ public_id: existing.public_id, url: existing.url });
+      continue;
+    }
+
+    const result = await cloudinary.v2.uploader.upload(url, {
+      folder: "products",
+    });
+
+    const image = { public_id: result.public_id, url: result.secure_url };
+    images.push(image);
+    uploaded.push(image);
+  }
+
+  for (const image of current) {
+    if (!images.some((kept) => kept.public_id === image.public_id)) {
+      replaced.push(image.public_id);
+    }
+  }
+
+  return images;
+};
+
+const variantImageIds = (variants: { sku: string; images: CatalogImage[] }[]): string =>
+  variants.map((variant) => `${variant.sku}:${variant.images.map((image) => image.public_id).join()}`).join(";");
+
+export type CatalogAction = "created" | "updated" | "unchanged";
+
+/**
+ * Creates or updates one product from a validated import item. Changes to
+ * existing products go to the revision log like edits from the dashboard.
+ */
+export const saveCatalogItem = async (
+  existing: IProduct | null,
+  item: CatalogItem,
+  categoryId: string,
+  shop: { _id: unknown },
+  actor?: object
+): Promise<CatalogAction> => {
+  const uploaded: CatalogImage[] = [];
+  const replaced: string[] = [];
+  let action: CatalogAction = "unchanged";
+
+  try {
+    const images = await syncImages(existing ? existing.images : [], item.images, uploaded, replaced);
+
+    const variants: VariantFields[] = [];
+    for (const { images: variantImages, ...variant } of item.variants) {
+      const current = existing?.variants.find((candidate) => candidate.sku === variant.sku);
+
+      variants.push({
+        ...variant,
+        ...(current && { _id: current._id }),
+        images: await syncImages(current ? current.images : [], variantImages, uploaded, replaced),
+      });
+    }
+
+    for (const current of existing?.variants || []) {
+      if (!item.variants.some((variant) => variant.sku === current.sku)) {
+        replaced.push(...current.images.map((image) => image.public_id));
+      }
+    }
+
+    const fields: Record<string, unknown> = {
+      sku: item.sku,
+      name: item.name,
+      description: item.description,
+      category: categoryId,
+      tags: item.tags,
+      originalPrice: item.originalPrice,
+      discountPrice: item.discountPrice,
+      stock: item.stock,
+    };
+
+    if (!existing) {
+      await Product.create({
+        ...fields,
+        images,
+        options: item.options,
+        variants,
+        shopId: String(shop._id),
+        shop,
+        updatedBy: actor,
+      });
+      action = "created";
+    } else {
+      // stock and price of a product with variants come from the variants
+      if (variants.length) {
+        delete fields.stock;
+        delete fields.discountPrice;
+      }
+
+      const changes: ProductChange[] = diffProductFields(existing, fields);
+
+      const previousImageIds = existing.images.map((image) => image.public_id);
+      const nextImageIds = images.map((image) => image.public_id);
+      if (nextImageIds.join() !== previousImageIds.join()) {
+        changes.push({ field: "images", from: previousImageIds, to: nextImageIds });
+      }
+
+      if (JSON.stringify(item.options) !== JSON.stringify(existing.options.map(({ name, values }) => ({ name, values })))) {
+        changes.push({ field: "options", from: existing.options, to: item.options });
+      }
+
+      const from = summarizeVariants(existing.variants);
+      const to = summarizeVariants(variants);
+      const variantImagesChanged = variantImageIds(variants) !== variantImageIds(existing.variants);
+      if (JSON.stringify(from) !== JSON.stringify(to) || variantImagesChanged) {
+        changes.push({ field: "variants", from, to });
+      }
+
+      if (changes.length) {
+        const previous = Product.hydrate(existing.toObject());
+
+        existing.set(fields);
+        existing.set("options", item.options);
+        existing.images = images;
+        existing.updatedBy = actor;
+
+        await existing.save();
+        await saveVariants(existing._id, variants);
+        await recordProductRevision(existing, changes, actor);
+        action = "updated";
+
+        checkStockEdit(previous, item.stock, variants).catch((error: Error) => {
+          console.log(`Error sending stock alert: ${error.message}`);
+        });
+      }
+    }
+  } catch (error) {
+    // don't leave orphaned uploads behind when the product can't be saved
+    await Promise.all(uploaded.map((image) => cloudinary.v2.uploader.destroy(image.public_id).catch(() => undefined)));
+    throw error;
+  }
+
+  if (action !== "unchanged") {
+    await Promise.all(replaced.map((id) => cloudinary.v2.uploader.destroy(id).catch(() => undefined)));
+  }
+
+  return action;
+};
@@ -0,0 +1,67 @@
+import mongoose from "mongoose";
+import Category, { ICategory } from "../model/category";
+
+export interface CategoryNode {
+  _id: string;
+  name: string;
+  slug: string;
+  icon?: { public_id: string; url: string };
+  sortOrder: number;
+  children: CategoryNode[];
+}
+
+export const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const buildCategoryTree = (categories: ICategory[]): CategoryNode[] => {
+  const nodes = new Map<string, CategoryNode>();
+
+  for (const category of categories) {
+    nodes.set(String(category._id), {
+      _id: String(category._id),
+      name: category.name,
+      slug: category.slug,
+      icon: category.icon,
+      sortOrder: category.sortOrder,
+      children: [],
+    });
+  }
+
+  const roots: CategoryNode[] = [];
+
+  for (const category of categories) {
+    const node = nodes.get(String(category._id))!;
+    const parent = category.parent && nodes.get(String(category.parent));
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const sort = (list: CategoryNode[]) => {
+    list.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+    list.forEach((node) => sort(node.children));
+  };
+  sort(roots);
+
+  return roots;
+};
+
+// the category itself plus, when asked, everything nested below it
+export const categoryFilter = async (
+  categoryIds: string[],
+  includeSubcategories: boolean
+): Promise<mongoose.Types.ObjectId[]> => {
+  const ids = categoryIds.map((id) => new mongoose.Types.ObjectId(id));
+
+  if (!includeSubcategories) {
+    return ids;
+  }
+
+  const descendants = await Category.find({ ancestors: { $in: ids } }).select("_id");
+
+  return [...ids, ...descendants.map((category) => category._id as mongoose.Types.ObjectId)];
+};
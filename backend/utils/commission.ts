@@ -0,0 +1,156 @@
+import mongoose from "mongoose";
+import CommissionRule, { ICommissionRule } from "../model/commissionRule";
+import Category from "../model/category";
+import Product from "../model/product";
+import Event from "../model/event";
+import Shop from "../model/shop";
+import { OrderLine } from "../model/order";
+import { roundMoney } from "./pricing";
+import { NOT_REFUNDED, OrderRefund, refundableAmount } from "./payments";
+
+// what the commission of an order line was when the order was placed
+export interface CommissionSnapshot {
+  rate: number;
+  amount: number;
+  ruleId?: string;
+  ruleName?: string;
+}
+
+interface CommissionShop {
+  _id: unknown;
+  tier?: string;
+  createdAt: Date;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// percent taken when no rule matches
+export const DEFAULT_COMMISSION_RATE = Number(process.env.COMMISSION_RATE ?? 10);
+
+// rules in effect at the time, whatever they match
+export const rulesInEffect = (at = new Date()): Promise<ICommissionRule[]> =>
+  CommissionRule.find({
+    active: true,
+    effectiveFrom: { $lte: at },
+    $or: [{ effectiveTo: null }, { effectiveTo: { $gt: at } }],
+  });
+
+// the category and everything above it, so a rule on a category covers its subcategories
+export const categoryPath = async (categoryId?: unknown): Promise<string[]> => {
+  if (!categoryId || !mongoose.isValidObjectId(categoryId)) {
+    return [];
+  }
+
+  const category = await Category.findById(categoryId).select("ancestors");
+
+  return category ? [String(category._id), ...category.ancestors.map(String)] : [String(categoryId)];
+};
+
+const matches = (rule: ICommissionRule, shop: CommissionShop, categories: string[], at: Date) =>
+  (!rule.categoryId || categories.includes(String(rule.categoryId))) &&
+  (!rule.shopTier || rule.shopTier === (shop.tier || "standard")) &&
+  (!rule.shopId || rule.shopId === String(shop._id)) &&
+  (!rule.newSellerDays || at.getTime() - new Date(shop.createdAt).getTime() < rule.newSellerDays * DAY);
+
+const conditions = (rule: ICommissionRule) =>
+  [rule.categoryId, rule.shopTier, rule.shopId, rule.newSellerDays].filter((condition) => condition).length;
+
+/**
+ * The rule that decides the commission of a line: the highest priority of
+ * the matching rules, then the one with the most conditions, then the one
+ * that took effect last. Null when none match and the default rate applies.
+ */
+export const pickRule = (
+  rules: ICommissionRule[],
+  shop: CommissionShop,
+  categories: string[],
+  at = new Date()
+): ICommissionRule | null =>
+  rules
+    .filter((rule) => matches(rule, shop, categories, at))
+    .sort((a, b) =>
+      b.priority - a.priority ||
+      conditions(b) - conditions(a) ||
+      new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime()
+    )[0] || null;
+
+export const commissionOn = (amount: number, rule: ICommissionRule | null): CommissionSnapshot => {
+  const rate = rule ? rule.rate : DEFAULT_COMMISSION_RATE;
+
+  return {
+    rate,
+    amount: roundMoney((amount * rate) / 100),
+    ruleId: rule ? String(rule._id) : undefined,
+    ruleName: rule?.name,
+  };
+};
+
+/**
+ * Works out the commission of each line of a shop's order and stores it on
+ * the line, so later rule changes don't touch placed orders. It's charged on
+ * what the buyer paid for the goods: the line total less its share of the
+ * coupon discount, without shipping or tax.
+ */
+export const applyCommission = async (
+  shopId: string,
+  cart: OrderLine[],
+  discount: number,
+  at = new Date()
+): Promise<void> => {
+  const shop = await Shop.findById(shopId).select("tier createdAt");
+
+  if (!shop) {
+    return;
+  }
+
+  const rules = await rulesInEffect(at);
+  const subTotal = cart.reduce((total, line) => total + line.lineTotal, 0);
+
+  for (const line of cart) {
+    const item = line.kind === "event"
+      ? await Event.findById(line._id).select("category")
+      : await Product.findById(line._id).select("category");
+    const paid = subTotal ? line.lineTotal - (discount * line.lineTotal) / subTotal : 0;
+
+    line.commission = commissionOn(paid, pickRule(rules, shop, await categoryPath(item?.category), at));
+  }
+};
+
+/**
+ * The commission of the whole order. Orders from before commission rules
+ * were charged the default rate on their total.
+ */
+export const orderCommission = (order: { totalPrice: number; cart: { commission?: CommissionSnapshot }[] }): number =>
+  order.cart.some((line) => line.commission)
+    ? roundMoney(order.cart.reduce((total, line) => total + (line.commission?.amount || 0), 0))
+    : roundMoney((order.totalPrice * DEFAULT_COMMISSION_RATE) / 100);
+
+/**
+ * The commission the shop gets back with a refund. Returned units give back
+ * what their lines were charged, for the units that came back. Other refunds
+ * give back what's left of the order's commission in proportion to what's
+ * left of its total.
+ */
+export const commissionShare = (
+  order: { totalPrice: number; cart: { qty: number; commission?: CommissionSnapshot }[]; refunds?: OrderRefund[] },
+  amount: number,
+  lines?: { line: number; qty: number }[]
+): number => {
+  if (lines && order.cart.some((line) => line.commission)) {
+    return roundMoney(
+      lines.reduce((total, { line, qty }) => {
+        const cartLine = order.cart[line];
+        return total + (cartLine?.commission && cartLine.qty ? (cartLine.commission.amount * qty) / cartLine.qty : 0);
+      }, 0)
+    );
+  }
+
+  // refunds booked against the shop gave back their commission already
+  const givenBack = (order.refunds || [])
+    .filter((refund) => refund.sellerAmount !== undefined && !NOT_REFUNDED.includes(refund.status))
+    .reduce((total, refund) => total + refund.amount - refund.sellerAmount!, 0);
+  const left = Math.max(orderCommission(order) - givenBack, 0);
+  const refundable = refundableAmount(order);
+
+  return refundable > 0 ? roundMoney((left * Math.min(amount, refundable)) / refundable) : 0;
+};
@@ -0,0 +1,136 @@
+import mongoose from "mongoose";
+import Product, { IProduct } from "../model/product";
+import Event from "../model/event";
+import { checkStockAlert } from "./stockAlerts";
+
+export interface StockLine {
+  _id: string;
+  qty: number;
+  // set when the buyer picked a variant of the product
+  variantId?: string;
+  // lines bought from an event take their stock from the event
+  kind?: "event";
+}
+
+export type ReservationStatus = "held" | "committed" | "released";
+
+// minutes an unpaid order keeps its stock before it's given back
+const RESERVATION_MINUTES = Number(process.env.RESERVATION_TTL_MINUTES) || 30;
+
+export const reservationExpiry = (from = new Date()): Date =>
+  new Date(from.getTime() + RESERVATION_MINUTES * 60 * 1000);
+
+// the same change on the product and, for variant lines, on the variant, so the
+// product totals stay the sum of its variants without loading the document
+const stockUpdate = (line: StockLine, fields: Record<string, number>) => {
+  const filter: Record<string, unknown> = { _id: line._id };
+  const update: Record<string, number> = { ...fields };
+  const arrayFilters = [];
+
+  if (line.variantId) {
+    const variantId = new mongoose.Types.ObjectId(line.variantId);
+
+    filter["variants._id"] = variantId;
+    for (const [field, value] of Object.entries(fields)) {
+      update[`variants.$[variant].${field}`] = value;
+    }
+    arrayFilters.push({ "variant._id": variantId });
+  }
+
+  return { filter, update: { $inc: update }, options: arrayFilters.length ? { arrayFilters } : {} };
+};
+
+// tells the seller when the line took the product below its threshold
+const alertSeller = (previous: IProduct | null, line: StockLine, drop: number) => {
+  if (previous) {
+    checkStockAlert(previous, drop, line.variantId).catch((error: Error) => {
+      console.log(`Error sending stock alert: ${error.message}`);
+    });
+  }
+};
+
+// returns the product as it was before the update, null for events
+const moveStock = async (line: StockLine, { filter, update, options }: ReturnType<typeof stockUpdate>) => {
+  if (line.kind === "event") {
+    const previous = await Event.findOneAndUpdate(filter, update);
+    return { moved: Boolean(previous), previous: null };
+  }
+
+  const previous = await Product.findOneAndUpdate(filter, update, options);
+  return { moved: Boolean(previous), previous };
+};
+
+const available = (stock: string, reserved: string) => ({
+  $subtract: [stock, { $ifNull: [reserved, 0] }],
+});
+
+/**
+ * Holds stock for one cart line. The availability check and the increment
+ * are one update, so two buyers can't both get the last unit.
+ */
+export const reserveStock = async (line: StockLine): Promise<boolean> => {
+  const change = stockUpdate(line, { reserved: line.qty });
+
+  change.filter.$expr = line.variantId
+    ? {
+        $anyElementTrue: {
+          $map: {
+            input: "$variants",
+            as: "variant",
+            in: {
+              $and: [
+                { $eq: ["$$variant._id", new mongoose.Types.ObjectId(line.variantId)] },
+                { $gte: [available("$$variant.stock", "$$variant.reserved"), line.qty] },
+              ],
+            },
+          },
+        },
+      }
+    : { $gte: [available("$stock", "$reserved"), line.qty] };
+
+  const { moved, previous } = await moveStock(line, change);
+  alertSeller(previous, line, line.qty);
+
+  return moved;
+};
+
+export const releaseStock = async (line: StockLine): Promise<void> => {
+  await moveStock(line, stockUpdate(line, { reserved: -line.qty }));
+};
+
+/**
+ * Reserves every line of a cart or none of them. Returns the first line that
+ * couldn't be reserved.
+ */
+export const reserveCart = async <T extends StockLine>(lines: T[]): Promise<T | null> => {
+  const reserved: T[] = [];
+
+  for (const line of lines) {
+    if (!(await reserveStock(line))) {
+      for (const done of reserved) {
+        await releaseStock(done);
+      }
+      return line;
+    }
+    reserved.push(line);
+  }
+
+  return null;
+};
+
+/**
+ * Moves stock for one cart line. A positive quantity sells it, a negative
+ * quantity puts it back on the shelf after a refund. Lines that were
+ * reserved at checkout hand their reservation over to the sale.
+ */
+export const applyStockChange = async (line: StockLine, qty: number, fromReservation = false): Promise<void> => {
+  const fields: Record<string, number> = { stock: -qty, sold_out: qty };
+
+  if (fromReservation) {
+    fields.reserved = -qty;
+  }
+
+  const { previous } = await moveStock(line, stockUpdate(line, fields));
+  // handing over a reservation doesn't change what's left to order
+  alertSeller(previous, line, fromReservation ? 0 : qty);
+};
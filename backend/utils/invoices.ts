@@ -0,0 +1,226 @@
+import PDFDocument from "pdfkit";
+import Shop, { IShop } from "../model/shop";
+import Order, { IOrder } from "../model/order";
+import { formatMoney } from "./paymentProviders";
+import sendMail from "./sendMail";
+
+interface DocumentLine {
+  name?: string;
+  sku?: string;
+  options?: Record<string, string>;
+  qty: number;
+  discountPrice?: number;
+  lineTotal?: number;
+}
+
+interface DocumentOrder {
+  _id: unknown;
+  invoiceNumber?: string;
+  cart: DocumentLine[];
+  shippingAddress?: Record<string, unknown>;
+  user?: { name?: string; email?: string; phoneNumber?: number };
+  subTotalPrice?: number;
+  discount?: number;
+  couponCode?: string;
+  shipping?: number;
+  tax?: number;
+  totalPrice: number;
+  paymentInfo?: { type?: string; status?: string };
+  createdAt: Date;
+}
+
+const date = (value: Date) => new Date(value).toISOString().slice(0, 10);
+
+const describeLine = (line: DocumentLine) => {
+  const options = line.options ? Object.entries(line.options).map(([name, value]) => `${name}: ${value}`).join(", ") : "";
+  return [line.name || "Item", line.sku && `SKU ${line.sku}`, options].filter(Boolean).join(" - ");
+};
+
+const addressLines = (address: Record<string, unknown> = {}) =>
+  ["address1", "address2", "city", "country", "zipCode"]
+    .map((field) => address[field])
+    .filter((value) => value !== undefined && value !== null && value !== "")
+    .map(String);
+
+// collects the PDF in memory, invoices are small enough to send in one go
+const renderPdf = (draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    draw(doc);
+    doc.end();
+  });
+
+const drawParties = (doc: PDFKit.PDFDocument, shop: IShop, order: DocumentOrder, buyerTitle: string) => {
+  const top = doc.y;
+
+  doc.fontSize(10).font("Helvetica-Bold").text(shop.name, 50, top);
+  doc.font("Helvetica").text(shop.address).text(String(shop.zipCode)).text(shop.email);
+
+  doc.font("Helvetica-Bold").text(buyerTitle, 320, top);
+  doc.font("Helvetica").text(order.user?.name || "", 320);
+  for (const line of addressLines(order.shippingAddress)) {
+    doc.text(line, 320);
+  }
+  if (order.user?.email) {
+    doc.text(order.user.email, 320);
+  }
+
+  doc.x = 50;
+  doc.moveDown(2);
+};
+
+const drawRow = (doc: PDFKit.PDFDocument, cells: string[], columns: number[], bold = false) => {
+  const top = doc.y;
+  let bottom = top;
+
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+  cells.forEach((cell, index) => {
+    const width = (columns[index + 1] || 545) - columns[index] - 10;
+    doc.text(cell, columns[index], top, { width, align: index ? "right" : "left" });
+    bottom = Math.max(bottom, doc.y);
+  });
+
+  doc.x = 50;
+  doc.y = bottom + 4;
+};
+
+export const renderInvoice = (order: DocumentOrder, shop: IShop): Promise<Buffer> =>
+  renderPdf((doc) => {
+    doc.fontSize(20).font("Helvetica-Bold").text("INVOICE", { align: "right" });
+    doc.fontSize(10).font("Helvetica")
+      .text(`Invoice number: ${order.invoiceNumber || "-"}`, { align: "right" })
+      .text(`Date: ${date(order.createdAt)}`, { align: "right" })
+      .text(`Order: ${order._id}`, { align: "right" });
+    doc.moveDown(2);
+
+    drawParties(doc, shop, order, "Bill to");
+
+    const columns = [50, 330, 390, 470];
+    drawRow(doc, ["Item", "Qty", "Unit price", "Amount"], columns, true);
+    for (const line of order.cart) {
+      const unitPrice = line.discountPrice || 0;
+      drawRow(doc, [describeLine(line), String(line.qty), formatMoney(unitPrice), formatMoney(line.lineTotal ?? unitPrice * line.qty)], columns);
+    }
+    doc.moveDown();
+
+    // orders from before server-side pricing only have a total
+    const totals: [string, number][] = order.subTotalPrice === undefined
+      ? []
+      : [
+          ["Subtotal", order.subTotalPrice],
+          ...(order.discount ? [[`Discount${order.couponCode ? ` (${order.couponCode})` : ""}`, -order.discount] as [string, number]] : []),
+          ["Shipping", order.shipping || 0],
+          ["Tax", order.tax || 0],
+        ];
+
+    for (const [label, amount] of totals) {
+      drawRow(doc, [label, "", "", formatMoney(amount)], columns);
+    }
+    drawRow(doc, ["Total", "", "", formatMoney(order.totalPrice)], columns, true);
+
+    doc.moveDown(2).fontSize(9).font("Helvetica")
+      .text(`Payment: ${order.paymentInfo?.type || "-"} (${order.paymentInfo?.status || "pending"})`);
+  });
+
+export const renderPackingSlip = (order: DocumentOrder, shop: IShop): Promise<Buffer> =>
+  renderPdf((doc) => {
+    doc.fontSize(20).font("Helvetica-Bold").text("PACKING SLIP", { align: "right" });
+    doc.fontSize(10).font("Helvetica")
+      .text(`Order: ${order._id}`, { align: "right" })
+      .text(`Date: ${date(order.createdAt)}`, { align: "right" });
+    doc.moveDown(2);
+
+    drawParties(doc, shop, order, "Ship to");
+
+    const columns = [50, 470];
+    drawRow(doc, ["Item", "Qty"], columns, true);
+    for (const line of order.cart) {
+      drawRow(doc, [describeLine(line), String(line.qty)], columns);
+    }
+  });
+
+/**
+ * Gives the order the next invoice number of its shop. Numbers count up per
+ * shop without gaps, with the end of the shop id in front so they're unique
+ * across shops.
+ */
+export const assignInvoiceNumber = async (order: { _id: unknown; invoiceNumber?: string; cart: { shopId: string }[] }): Promise<string> => {
+  if (order.invoiceNumber) {
+    return order.invoiceNumber;
+  }
+
+  const shopId = order.cart[0]?.shopId;
+
+  // the sequence only moves on once its number is on the order; two orders that
+  // read the same sequence can't both take it because of the unique index
+  for (;;) {
+    const shop = await Shop.findById(shopId).select("invoiceSequence");
+
+    if (!shop) {
+      throw new Error("Shop of this order no longer exists");
+    }
+
+    const sequence = shop.invoiceSequence + 1;
+    const number = `${String(shop._id).slice(-6).toUpperCase()}-${String(sequence).padStart(6, "0")}`;
+    let numbered = false;
+
+    try {
+      const result = await Order.updateOne({ _id: order._id, invoiceNumber: { $exists: false } }, { $set: { invoiceNumber: number } });
+      numbered = result.modifiedCount > 0;
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+
+    // taken by this order, or by another one in the meantime
+    await Shop.updateOne({ _id: shop._id, invoiceSequence: { $lt: sequence } }, { $set: { invoiceSequence: sequence } });
+
+    if (numbered) {
+      order.invoiceNumber = number;
+      return number;
+    }
+
+    // another request numbered this order first
+    const saved = await Order.findById(order._id).select("invoiceNumber");
+    if (saved?.invoiceNumber) {
+      order.invoiceNumber = saved.invoiceNumber;
+      return saved.invoiceNumber;
+    }
+  }
+};
+
+/**
+ * Numbers the invoice of each order and mails it to the buyer with their
+ * confirmation, one email per shop order. Only called once an order is
+ * certain to go ahead: when it's paid, or placed to be paid on delivery.
+ */
+export const sendOrderConfirmations = async (orders: IOrder[]): Promise<void> => {
+  for (const order of orders) {
+    const shop = await Shop.findById(order.cart[0]?.shopId);
+
+    if (!shop) {
+      continue;
+    }
+
+    await assignInvoiceNumber(order);
+
+    if (!order.user?.email) {
+      continue;
+    }
+
+    await sendMail({
+      email: order.user.email,
+      subject: `Your order from ${shop.name}`,
+      message: `Hello ${order.user.name}, thank you for your order ${order._id} from ${shop.name}. ` +
+        `Your invoice ${order.invoiceNumber} for ${formatMoney(order.totalPrice)} is attached.`,
+      attachments: [{ filename: `invoice-${order.invoiceNumber}.pdf`, content: await renderInvoice(order, shop), contentType: "application/pdf" }],
+    });
+  }
+};
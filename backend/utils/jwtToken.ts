@@ -1,26 +1,46 @@
-import { Response } from 'express';
+import { Request, Response, CookieOptions } from 'express';
+import { createSession, ACCESS_TOKEN_MAX_AGE, REFRESH_TOKEN_MAX_AGE, IssuedSession } from './session';
 
 interface User {
-  getJwtToken: () => string;
+  getJwtToken: (sessionId: string) => string;
   // define other properties if necessary
 }
 
-const sendToken = (user: any, statusCode: number, res: Response): Response => {
-  const token = user.getJwtToken();
+const cookieOptions = (maxAge: number, path = "/"): CookieOptions => ({
+  expires: new Date(Date.now() + maxAge),
+  httpOnly: true,
+  sameSite: "none",
+  secure: true,
+  path,
+});
 
-  // Options for cookies
-  const options = {
-    expires: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
-    httpOnly: true,
-    sameSite: "none" as const,
-    secure: true,
-  };
+// issue a short-lived access token and a rotating refresh token for the session.
+// A new session is started unless one is handed over from a refresh.
+const sendToken = async (
+  user: any,
+  statusCode: number,
+  req: Request,
+  res: Response,
+  issued?: IssuedSession
+): Promise<Response> => {
+  const { session, refreshToken } = issued || await createSession(user._id, "User", req);
+  const token = user.getJwtToken(String(session._id));
 
-  return res.status(statusCode).cookie("token", token, options).json({
-    success: true,
-    user,
-    token,
-  });
+  return res
+    .status(statusCode)
+    .cookie("token", token, cookieOptions(ACCESS_TOKEN_MAX_AGE))
+    .cookie("refresh_token", refreshToken, cookieOptions(REFRESH_TOKEN_MAX_AGE, "/api/v2/user"))
+    .json({
+      success: true,
+      user,
+      token,
+    });
+};
+
+export const clearToken = (res: Response): Response => {
+  return res
+    .cookie("token", null, cookieOptions(0))
+    .cookie("refresh_token", null, cookieOptions(0, "/api/v2/user"));
 };
 
 export default sendToken;
@@ -0,0 +1,324 @@
+import mongoose, { ClientSession } from "mongoose";
+import LedgerEntry, { ILedgerEntry, LedgerAccount, LedgerEntryType } from "../model/ledgerEntry";
+import Shop from "../model/shop";
+import Order from "../model/order";
+import Withdraw, { IWithdraw } from "../model/withdraw";
+import { roundMoney } from "./pricing";
+
+// where the other side of each entry type is booked
+const COUNTER_ACCOUNT: Record<LedgerEntryType, LedgerAccount> = {
+  sale: "sales",
+  commission: "commission",
+  refund: "sales",
+  commission_refund: "commission",
+  withdrawal: "payouts",
+  adjustment: "adjustments",
+  opening_balance: "adjustments",
+};
+
+interface Booking {
+  shopId: string;
+  type: LedgerEntryType;
+  reference: string;
+  // positive adds to the shop's balance, negative takes off it
+  amount: number;
+  orderId?: string;
+  withdrawId?: string;
+  note?: string;
+  createdBy?: object;
+}
+
+const isDuplicate = (error: unknown) => (error as { code?: number }).code === 11000;
+
+// inserts the entry only, throws a duplicate key error when its type was already booked for the reference
+const bookEntry = async (booking: Booking, session?: ClientSession): Promise<ILedgerEntry> => {
+  const amount = roundMoney(booking.amount);
+  const [entry] = await LedgerEntry.create(
+    [
+      {
+        ...booking,
+        amount,
+        lines: [
+          { account: "seller", amount },
+          { account: COUNTER_ACCOUNT[booking.type], amount: -amount },
+        ],
+      },
+    ],
+    { session }
+  );
+
+  return entry;
+};
+
+// set once the server turned a transaction down
+let transactionsUnsupported = false;
+
+const isTransactionUnsupported = (error: unknown) =>
+  (error as { code?: number }).code === 20 || /replica set|mongos/i.test((error as Error)?.message || "");
+
+/**
+ * Runs the writes in one transaction, so the entry and the shop's balance are
+ * written together or not at all. Transactions need MongoDB to run as a
+ * replica set, as Atlas does. A standalone server, e.g. a local one in
+ * development, turns them down; the writes then run without a session and
+ * undo what they can themselves, and reconcileLedger shows anything left
+ * apart.
+ */
+const withShopBalance = async <T>(write: (session?: ClientSession) => Promise<T>): Promise<T> => {
+  if (!transactionsUnsupported) {
+    try {
+      let result: T;
+
+      await mongoose.connection.transaction(async (session) => {
+        result = await write(session);
+      });
+
+      return result!;
+    } catch (error) {
+      if (!isTransactionUnsupported(error)) {
+        throw error;
+      }
+      transactionsUnsupported = true;
+      console.log("MongoDB doesn't support transactions, ledger entries are written without them");
+    }
+  }
+
+  return write();
+};
+
+/**
+ * Books the amount on the shop's balance against the counter account of its
+ * type, and moves the shop's availableBalance, which is the running total of
+ * its entries, along with it in the same transaction. Booking the same type
+ * for the same reference again does nothing and returns null, so callers may
+ * retry.
+ */
+export const postLedgerEntry = async (booking: Booking): Promise<ILedgerEntry | null> => {
+  if (!roundMoney(booking.amount)) {
+    return null;
+  }
+
+  try {
+    return await withShopBalance(async (session) => {
+      const entry = await bookEntry(booking, session);
+
+      try {
+        await Shop.updateOne({ _id: booking.shopId }, { $inc: { availableBalance: entry.amount } }, { session });
+      } catch (error) {
+        // without a transaction the entry is taken out again, so a retry can book it
+        if (!session) {
+          await LedgerEntry.deleteOne({ _id: entry._id });
+        }
+        throw error;
+      }
+
+      return entry;
+    });
+  } catch (error) {
+    if (isDuplicate(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const saleReference = (orderId: unknown) => `order:${orderId}`;
+
+// the shop is owed the order total less the marketplace's commission once it's delivered
+export const creditSale = async (order: { _id: unknown; totalPrice: number }, shopId: string, commission: number): Promise<void> => {
+  const orderId = String(order._id);
+
+  await postLedgerEntry({ shopId, type: "sale", reference: saleReference(orderId), amount: order.totalPrice, orderId });
+  await postLedgerEntry({ shopId, type: "commission", reference: saleReference(orderId), amount: -commission, orderId });
+};
+
+export const isSaleCredited = async (orderId: unknown): Promise<boolean> =>
+  !!(await LedgerEntry.exists({ type: "sale", reference: saleReference(orderId) }));
+
+// takes a refund off the shop and gives back the commission charged on it
+export const debitRefund = async (
+  orderId: unknown,
+  shopId: string,
+  refund: { key: string; amount: number },
+  commission: number
+): Promise<void> => {
+  const reference = `refund:${refund.key}`;
+
+  await postLedgerEntry({ shopId, type: "refund", reference, amount: -refund.amount, orderId: String(orderId) });
+  await postLedgerEntry({ shopId, type: "commission_refund", reference, amount: commission, orderId: String(orderId) });
+};
+
+// gives the shop back a refund the provider turned down after it was debited
+export const reverseRefund = async (
+  orderId: unknown,
+  shopId: string,
+  refund: { key: string; amount: number },
+  commission: number
+): Promise<void> => {
+  const reference = `refund-reversal:${refund.key}`;
+
+  await postLedgerEntry({ shopId, type: "refund", reference, amount: refund.amount, orderId: String(orderId) });
+  await postLedgerEntry({ shopId, type: "commission_refund", reference, amount: -commission, orderId: String(orderId) });
+};
+
+/**
+ * Creates the shop's withdrawal and takes it off the balance if the balance
+ * covers it. The check and the change are one update, so two requests can't
+ * both spend the same money, and the withdrawal, its entry and the change
+ * to the balance are kept together or not at all. Returns null when the
+ * balance is too low.
+ */
+export const createWithdrawal = (seller: { _id?: unknown }, amount: number): Promise<IWithdraw | null> =>
+  withShopBalance(async (session) => {
+    const shopId = String(seller._id);
+    const shop = await Shop.findOneAndUpdate(
+      { _id: shopId, availableBalance: { $gte: amount } },
+      { $inc: { availableBalance: -amount } },
+      { session }
+    );
+
+    if (!shop) {
+      return null;
+    }
+
+    const withdraw = new Withdraw({ seller, amount });
+
+    try {
+      await withdraw.save({ session });
+      await bookEntry(
+        { shopId, type: "withdrawal", reference: `withdraw:${withdraw._id}`, amount: -amount, withdrawId: String(withdraw._id) },
+        session
+      );
+    } catch (error) {
+      // a transaction undoes all of it, without one it's undone here
+      if (!session) {
+        await Withdraw.deleteOne({ _id: withdraw._id });
+        await Shop.updateOne({ _id: shopId }, { $inc: { availableBalance: amount } });
+      }
+      throw error;
+    }
+
+    return withdraw;
+  });
+
+export const postAdjustment = (shopId: string, amount: number, note: string, createdBy: object) =>
+  postLedgerEntry({
+    shopId,
+    type: "adjustment",
+    reference: `adjustment:${new mongoose.Types.ObjectId()}`,
+    amount,
+    note,
+    createdBy,
+  });
+
+/**
+ * Books what a shop already had when its ledger started, so its entries add
+ * up to its availableBalance. The balance already holds the amount and isn't
+ * moved. Returns null when the shop's opening balance was booked before.
+ */
+export const postOpeningBalance = async (shopId: string, amount: number): Promise<ILedgerEntry | null> => {
+  try {
+    return await bookEntry({
+      shopId,
+      type: "opening_balance",
+      reference: `opening:${shopId}`,
+      amount,
+      note: "Balance before the ledger",
+    });
+  } catch (error) {
+    if (isDuplicate(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const balanceOf = async (shopId: string, before?: Date): Promise<number> => {
+  const [result] = await LedgerEntry.aggregate<{ balance: number }>([
+    { $match: { shopId, ...(before && { createdAt: { $lt: before } }) } },
+    { $group: { _id: null, balance: { $sum: "$amount" } } },
+  ]);
+
+  return roundMoney(result?.balance || 0);
+};
+
+/**
+ * The shop's entries between the dates, oldest first, each with the balance
+ * it left the shop at.
+ */
+export const ledgerStatement = async (shopId: string, from?: Date, to?: Date) => {
+  const openingBalance = from ? await balanceOf(shopId, from) : 0;
+  const entries = await LedgerEntry.find({
+    shopId,
+    ...((from || to) && { createdAt: { ...(from && { $gte: from }), ...(to && { $lte: to }) } }),
+  })
+    .sort({ createdAt: 1, _id: 1 })
+    .lean();
+
+  let balance = openingBalance;
+  const lines = entries.map((entry) => {
+    balance = roundMoney(balance + entry.amount);
+    return { ...entry, balance };
+  });
+
+  return { openingBalance, entries: lines, closingBalance: balance };
+};
+
+/**
+ * Checks the ledger against itself and the shops: every entry has to
+ * balance, every shop's availableBalance has to match its entries, and
+ * every delivered order should have its sale booked.
+ */
+export const reconcileLedger = async () => {
+  const balances = await LedgerEntry.aggregate<{ _id: string; balance: number; entries: number }>([
+    { $group: { _id: "$shopId", balance: { $sum: "$amount" }, entries: { $sum: 1 } } },
+  ]);
+  const byShop = new Map(balances.map((balance) => [balance._id, balance]));
+
+  const shops = (await Shop.find().select("name availableBalance")).map((shop) => {
+    const ledger = byShop.get(String(shop._id));
+    const ledgerBalance = roundMoney(ledger?.balance || 0);
+
+    return {
+      shopId: String(shop._id),
+      name: shop.name,
+      entries: ledger?.entries || 0,
+      ledgerBalance,
+      availableBalance: roundMoney(shop.availableBalance || 0),
+      difference: roundMoney((shop.availableBalance || 0) - ledgerBalance),
+    };
+  });
+
+  const accounts = await LedgerEntry.aggregate<{ _id: LedgerAccount; total: number }>([
+    { $unwind: "$lines" },
+    { $group: { _id: "$lines.account", total: { $sum: "$lines.amount" } } },
+  ]);
+
+  const unbalancedEntries = await LedgerEntry.aggregate([
+    { $addFields: { total: { $sum: "$lines.amount" } } },
+    { $match: { $expr: { $gt: [{ $abs: "$total" }, 0.005] } } },
+  ]);
+
+  // orders from before the ledger were paid out without entries
+  const unbookedSales: { _id: unknown; totalPrice: number; deliveredAt: Date }[] = await Order.aggregate([
+    { $match: { deliveredAt: { $exists: true } } },
+    {
+      $lookup: {
+        from: LedgerEntry.collection.name,
+        let: { reference: { $concat: ["order:", { $toString: "$_id" }] } },
+        pipeline: [{ $match: { $expr: { $and: [{ $eq: ["$type", "sale"] }, { $eq: ["$reference", "$$reference"] }] } } }],
+        as: "sale",
+      },
+    },
+    { $match: { sale: { $size: 0 } } },
+    { $project: { totalPrice: 1, deliveredAt: 1, shopId: { $arrayElemAt: ["$cart.shopId", 0] } } },
+  ]);
+
+  return {
+    accounts: accounts.map((account) => ({ account: account._id, total: roundMoney(account.total) })),
+    shops: shops.filter((shop) => shop.difference !== 0),
+    shopsChecked: shops.length,
+    unbalancedEntries,
+    unbookedSales,
+  };
+};
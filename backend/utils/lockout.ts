@@ -0,0 +1,57 @@
+import sendMail from "./sendMail";
+
+export const MAX_FAILED_LOGINS = 5;
+const LOCK_DURATION = 30 * 60 * 1000;
+
+export interface LockableAccount {
+  name?: string;
+  email: string;
+  failedLoginAttempts?: number;
+  lockUntil?: Date;
+  save: (options?: { validateBeforeSave?: boolean }) => Promise<unknown>;
+}
+
+export const isAccountLocked = (account: LockableAccount): boolean => {
+  return !!account.lockUntil && account.lockUntil > new Date();
+};
+
+export const lockedMessage = (account: LockableAccount): string => {
+  return `Account is locked after too many failed login attempts. Please try again after ${account.lockUntil?.toISOString()}`;
+};
+
+// count a failed login and lock the account once the limit is reached,
+// then tell the owner by email
+export const registerFailedLogin = async (account: LockableAccount): Promise<boolean> => {
+  account.failedLoginAttempts = (account.failedLoginAttempts || 0) + 1;
+
+  if (account.failedLoginAttempts < MAX_FAILED_LOGINS) {
+    await account.save({ validateBeforeSave: false });
+    return false;
+  }
+
+  account.failedLoginAttempts = 0;
+  account.lockUntil = new Date(Date.now() + LOCK_DURATION);
+  await account.save({ validateBeforeSave: false });
+
+  try {
+    await sendMail({
+      email: account.email,
+      subject: "Your account has been locked",
+      message: `Hello ${account.name || account.email}, your account was locked after ${MAX_FAILED_LOGINS} failed login attempts. It will unlock automatically at ${account.lockUntil.toISOString()}. If this wasn't you, please reset your password.`,
+    });
+  } catch (error) {
+    console.error(`Failed to send lockout email to ${account.email}`);
+  }
+
+  return true;
+};
+
+export const clearFailedLogins = async (account: LockableAccount): Promise<void> => {
+  if (!account.failedLoginAttempts && !account.lockUntil) {
+    return;
+  }
+
+  account.failedLoginAttempts = 0;
+  account.lockUntil = undefined;
+  await account.save({ validateBeforeSave: false });
+};
@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { ZodTypeAny, ZodOptional, ZodDefault } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { RouteSchema } from '../middleware/validate';
+import { isAuthenticated, isSeller } from '../middleware/auth';
+
+export interface MountedRouter {
+  path: string;
+  router: Router;
+}
+
+// the parts of express' router internals the spec is read from
+interface RouteLayer {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: { handle: ((...args: never[]) => unknown) & { routeSchema?: RouteSchema } }[];
+  };
+}
+
+const toJsonSchema = (schema: ZodTypeAny): object => {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: "openApi3",
+    $refStrategy: "none",
+    // unknown keys are stripped by validate(), not rejected
+    removeAdditionalStrategy: "strict",
+  }) as Record<string, unknown>;
+  return jsonSchema;
+};
+
+const toParameters = (location: "path" | "query", schema?: RouteSchema["params"]) => {
+  if (!schema) {
+    return [];
+  }
+
+  return Object.entries(schema.shape as Record<string, ZodTypeAny>).map(([name, field]) => ({
+    name,
+    in: location,
+    required: location === "path" || !(field instanceof ZodOptional || field instanceof ZodDefault),
+    description: field.description,
+    schema: toJsonSchema(field),
+  }));
+};
+
+// build the paths of the spec from the validate() middleware of every route
+export const buildOpenApiSpec = (definition: object, mounts: MountedRouter[]) => {
+  const paths: Record<string, Record<string, object>> = {};
+
+  for (const { path, router } of mounts) {
+    const layers: RouteLayer[] = router.stack;
+
+    for (const { route } of layers) {
+      if (!route) {
+        continue;
+      }
+
+      const handles = route.stack.map((routeLayer) => routeLayer.handle);
+      const schema = handles.find((handle) => handle.routeSchema)?.routeSchema;
+
+      if (!schema) {
+        continue;
+      }
+
+      const openApiPath = `${path}${route.path}`
+        .replace(/\/$/, "")
+        .replace(/:(\w+)/g, "{$1}");
+
+      const security = [];
+      if (handles.includes(isAuthenticated)) {
+        security.push({ bearerAuth: [] });
+      }
+      if (handles.includes(isSeller)) {
+        security.push({ sellerAuth: [] });
+      }
+
+      const responses: Record<string, object> = {};
+      for (const [status, description] of Object.entries(schema.responses)) {
+        responses[status] = { description };
+      }
+      if (schema.params || schema.query || schema.body) {
+        responses["422"] = {
+          description: schema.responses[422] || "Request validation failed",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ValidationError" },
+            },
+          },
+        };
+      }
+
+      for (const method of Object.keys(route.methods)) {
+        paths[openApiPath] = paths[openApiPath] || {};
+        paths[openApiPath][method] = {
+          summary: schema.summary,
+          description: schema.description,
+          tags: schema.tags,
+          ...(security.length && { security }),
+          parameters: [
+            ...toParameters("path", schema.params),
+            ...toParameters("query", schema.query),
+          ],
+          ...(schema.body && {
+            requestBody: {
+              required: true,
+              content: {
+                "application/json": { schema: toJsonSchema(schema.body) },
+              },
+            },
+          }),
+          responses,
+        };
+      }
+    }
+  }
+
+  return { ...definition, paths };
+};
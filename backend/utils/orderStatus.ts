@@ -0,0 +1,115 @@
+import ErrorHandler from "./ErrorHandler";
+
+export const ORDER_STATUSES = [
+  "Processing",
+  "Transferred to delivery partner",
+  "Shipping",
+  "Received",
+  "On the way",
+  "Delivered",
+  "Processing refund",
+  "Refund Success",
+  "Cancelled",
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export type OrderActorRole = "buyer" | "seller" | "admin" | "system";
+
+export interface StatusActor {
+  role: OrderActorRole;
+  id?: string;
+  name?: string;
+  // set when a staff member acted for the shop
+  staffId?: string;
+}
+
+export interface StatusChange {
+  status: string;
+  from?: string;
+  at: Date;
+  actor: StatusActor;
+  note?: string;
+}
+
+export const SYSTEM_ACTOR: StatusActor = { role: "system" };
+
+export const sellerStatusActor = (actor: { shopId: string; staffId?: string; name: string }): StatusActor => ({
+  role: "seller",
+  id: actor.shopId,
+  staffId: actor.staffId,
+  name: actor.name,
+});
+
+// the seller, or carrier updates, move an order along these steps and may skip some of them
+export const FULFILMENT: OrderStatus[] = [
+  "Processing",
+  "Transferred to delivery partner",
+  "Shipping",
+  "Received",
+  "On the way",
+  "Delivered",
+];
+
+// every move that isn't a step forward in fulfilment
+const TRANSITIONS: { from: OrderStatus; to: OrderStatus; by: OrderActorRole[] }[] = [
+  { from: "Processing", to: "Cancelled", by: ["buyer", "seller", "admin", "system"] },
+  { from: "Delivered", to: "Processing refund", by: ["buyer"] },
+  { from: "Processing refund", to: "Refund Success", by: ["seller", "admin"] },
+];
+
+// past "Processing" the order has left the shop
+export const hasShipped = (status: string): boolean => FULFILMENT.indexOf(status as OrderStatus) > 0;
+
+const isOrderStatus = (status: string): status is OrderStatus =>
+  (ORDER_STATUSES as readonly string[]).includes(status);
+
+export const allowedRoles = (from: string, to: OrderStatus): OrderActorRole[] => {
+  // orders from before the state machine can have any text, only admins fix those
+  if (!isOrderStatus(from)) {
+    return ["admin"];
+  }
+
+  const fromStep = FULFILMENT.indexOf(from);
+  const toStep = FULFILMENT.indexOf(to);
+  if (fromStep !== -1 && toStep > fromStep) {
+    return ["seller", "admin", "system"];
+  }
+
+  return TRANSITIONS.find((transition) => transition.from === from && transition.to === to)?.by || [];
+};
+
+/**
+ * Whether the actor may move the order to the status. Returns the error to
+ * pass on to `next` when they may not.
+ */
+export const checkTransition = (from: string, to: OrderStatus, role: OrderActorRole): ErrorHandler | null => {
+  const roles = allowedRoles(from, to);
+
+  if (!roles.length) {
+    return new ErrorHandler(`An order can't go from "${from}" to "${to}"`, 400);
+  }
+
+  if (!roles.includes(role)) {
+    return new ErrorHandler(`Only the ${roles.join(" or ")} can move an order from "${from}" to "${to}"`, 403);
+  }
+
+  return null;
+};
+
+// sets the status and adds it to the order's timeline
+export const recordStatus = (
+  order: { status: string; statusHistory: StatusChange[] },
+  status: OrderStatus,
+  actor: StatusActor,
+  note?: string
+): void => {
+  order.statusHistory.push({ status, from: order.status, at: new Date(), actor, note });
+  order.status = status;
+};
+
+// orders from before the history existed start with their creation
+export const orderTimeline = (order: { status: string; createdAt: Date; statusHistory?: StatusChange[] }): StatusChange[] =>
+  order.statusHistory?.length
+    ? order.statusHistory
+    : [{ status: order.status, at: order.createdAt, actor: SYSTEM_ACTOR }];
@@ -0,0 +1,327 @@
+import Order, { IOrder } from "../model/order";
+import Shop from "../model/shop";
+import ReturnRequest from "../model/returnRequest";
+import CouponCode from "../model/couponCode";
+import Notification from "../model/notification";
+import ErrorHandler from "./ErrorHandler";
+import sendMail from "./sendMail";
+import {
+  OrderRefund,
+  NOT_PAID,
+  PAYMENT_EXPIRED,
+  captureOrderPayment,
+  isPaid,
+  refundOrderPayment,
+  refundableAmount,
+  refundWentThrough,
+} from "./payments";
+import { providerFor } from "./paymentProviders";
+import { creditSale, debitRefund, reverseRefund, isSaleCredited } from "./ledger";
+import { commissionShare, orderCommission } from "./commission";
+import { roundMoney } from "./pricing";
+import { OPEN_RETURN_STATUSES, returnableQuantities } from "./returns";
+import { commitOrderStock, releaseOrderStock, releaseHeldStock, isAwaitingPayment } from "./reservations";
+import { checkTransition, recordStatus, hasShipped, OrderStatus, StatusActor, SYSTEM_ACTOR } from "./orderStatus";
+
+// every line of an order is from the same shop
+export const orderShopId = (order: { cart: { shopId: string }[] }): string | undefined => order.cart[0]?.shopId;
+
+// waits twice as long after every failed attempt, up to an hour
+const nextRetry = (attempts: number, now = new Date()) =>
+  new Date(now.getTime() + Math.min(2 ** attempts, 60) * 60 * 1000);
+
+// about four hours of retries, after that someone has to look at the refund
+export const MAX_REFUND_ATTEMPTS = 8;
+
+/**
+ * Books the refund against the shop once the money went back to the buyer,
+ * and books it back when the provider turns the refund down afterwards. Pass
+ * the refund's status from before the change, if it had one.
+ */
+export const settleShopRefund = async (order: IOrder, refund: OrderRefund, previousStatus?: string): Promise<void> => {
+  const wasRefunded = previousStatus !== undefined && refundWentThrough(previousStatus);
+  const isRefunded = refundWentThrough(refund.status);
+
+  if (refund.sellerAmount === undefined || !refund.key || wasRefunded === isRefunded) {
+    return;
+  }
+
+  const booking = { key: refund.key, amount: refund.amount };
+  const commission = roundMoney(refund.amount - refund.sellerAmount);
+
+  if (isRefunded) {
+    await debitRefund(order._id, orderShopId(order)!, booking, commission);
+  } else {
+    await reverseRefund(order._id, orderShopId(order)!, booking, commission);
+  }
+};
+
+/**
+ * Gives the buyer the amount back through the provider that took the payment
+ * and, once it went through, books it against the shop if the sale was
+ * credited to it, with the commission of the returned lines when the refund
+ * is for a return. When the provider fails, the refund is kept as
+ * "retrying" for retryFailedRefunds. Orders paid on delivery are paid back by the seller
+ * outside the app. Returns null for orders that weren't paid.
+ */
+export const refundOrder = async (
+  order: IOrder,
+  amount: number,
+  reason: string,
+  lines?: { line: number; qty: number }[]
+): Promise<OrderRefund | null> => {
+  if (!isPaid(order.paymentInfo) || amount <= 0) {
+    return null;
+  }
+
+  const key = `refund-${order._id}-${order.refunds.length}`;
+  let refund: OrderRefund;
+
+  try {
+    refund = await refundOrderPayment(order, amount, reason, key) ||
+      { provider: "manual", amount, status: "succeeded", reason, key, createdAt: new Date() };
+  } catch (error) {
+    refund = {
+      provider: providerFor(order.paymentInfo).name,
+      amount: roundMoney(amount),
+      status: "retrying",
+      reason,
+      key,
+      error: error instanceof Error ? error.message : String(error),
+      attempts: 1,
+      retryAt: nextRetry(1),
+      createdAt: new Date(),
+    };
+  }
+
+  // the shop was credited the order total less commission, so that's what comes back off it
+  if (await isSaleCredited(order._id)) {
+    refund.sellerAmount = roundMoney(refund.amount - commissionShare(order, refund.amount, lines));
+  }
+  await settleShopRefund(order, refund);
+
+  order.refunds.push(refund);
+  return refund;
+};
+
+// tries refunds the provider failed on again, up to MAX_REFUND_ATTEMPTS, returns how many went through
+export const retryFailedRefunds = async (now = new Date()): Promise<number> => {
+  const orders = await Order.find({
+    refunds: { $elemMatch: { status: "retrying", retryAt: { $lte: now } } },
+  });
+
+  let retried = 0;
+
+  for (const order of orders) {
+    const due = (order.refunds as OrderRefund[]).filter(
+      (refund) => refund.status === "retrying" && refund.retryAt && refund.retryAt <= now
+    );
+
+    for (const refund of due) {
+      let result;
+      try {
+        // the same key makes the provider hand back the refund if an earlier attempt did go through
+        result = await providerFor(order.paymentInfo).refund(order.paymentInfo?.id, refund.amount, String(order._id), refund.key);
+      } catch (error) {
+        refund.attempts = (refund.attempts || 0) + 1;
+        refund.error = error instanceof Error ? error.message : String(error);
+
+        if (refund.attempts >= MAX_REFUND_ATTEMPTS) {
+          // the amount counts as refundable again, so it can be refunded another way
+          refund.status = "failed";
+          refund.retryAt = undefined;
+          console.log(`Giving up on refund ${refund.key} of order ${order._id} after ${refund.attempts} attempts: ${refund.error}`);
+        } else {
+          refund.retryAt = nextRetry(refund.attempts, now);
+        }
+        continue;
+      }
+
+      refund.id = result?.id;
+      refund.status = result?.status || "succeeded";
+      refund.error = undefined;
+      refund.retryAt = undefined;
+      await settleShopRefund(order, refund, "retrying");
+      retried++;
+    }
+
+    await order.save({ validateBeforeSave: false });
+  }
+
+  return retried;
+};
+
+// tells whoever didn't cancel the order
+const notifyCancellation = async (order: IOrder, actor: StatusActor, reason?: string) => {
+  const because = reason ? ` Reason: ${reason}` : "";
+
+  if (actor.role === "buyer") {
+    const shop = await Shop.findById(orderShopId(order));
+    if (!shop) {
+      return;
+    }
+
+    const message = `Order ${order._id} was cancelled by the buyer.${because}`;
+
+    await Notification.create({ shopId: String(shop._id), type: "order_cancelled", message, orderId: String(order._id) });
+    await sendMail({
+      email: shop.email,
+      subject: "An order was cancelled",
+      message: `Hello ${shop.name}, ${message} Its stock is available again.`,
+    });
+  } else if (order.user?.email) {
+    await sendMail({
+      email: order.user.email,
+      subject: "Your order was cancelled",
+      message: `Hello ${order.user.name}, your order ${order._id} was cancelled.${because} Any payment is refunded to your original payment method.`,
+    });
+  }
+};
+
+// stock, money and payout changes that come with a new status
+const applyStatusEffects = async (
+  order: IOrder,
+  status: OrderStatus,
+  actor: StatusActor,
+  note?: string,
+  refundAmount?: number
+) => {
+  if (hasShipped(status)) {
+    await commitOrderStock(order);
+  }
+
+  if (status === "Cancelled") {
+    // a refund the provider fails on is retried, the cancellation goes ahead
+    await refundOrder(order, refundableAmount(order), note || "Order cancelled");
+
+    if (order.couponCode) {
+      await CouponCode.updateOne({ name: order.couponCode, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+    }
+  }
+
+  if (status === "Refund Success") {
+    await refundOrder(order, refundAmount ?? refundableAmount(order), note || "Refund approved");
+  }
+
+  if (status === "Cancelled") {
+    await releaseOrderStock(order);
+  }
+
+  if (status === "Refund Success") {
+    // units that came back through a return were restocked by its inspection
+    const returns = await ReturnRequest.find({ orderId: String(order._id), status: "refunded" });
+    await releaseOrderStock(order, returnableQuantities(order, returns));
+  }
+
+  if (status === "Cancelled") {
+    notifyCancellation(order, actor, note).catch((error: Error) => {
+      console.log(`Error sending cancellation notice: ${error.message}`);
+    });
+  }
+
+  if (status === "Delivered") {
+    order.deliveredAt = new Date();
+
+    // a provider that's down mustn't hold up the delivery, its webhook catches up
+    const captured = await captureOrderPayment(order).catch((error: Error) => {
+      console.log(`Error capturing payment of order ${order._id}: ${error.message}`);
+      return false;
+    });
+    if (captured && !isPaid(order.paymentInfo)) {
+      order.paidAt = new Date();
+      order.paymentInfo.status = "Succeeded";
+    }
+
+    // the shop is only owed money that came in
+    if (isPaid(order.paymentInfo)) {
+      await creditSale(order, orderShopId(order)!, orderCommission(order));
+    }
+  }
+};
+
+// moves the stored status only if nobody moved it since the order was read,
+// so of two requests racing on the same order only one runs the side effects
+const claimStatus = async (order: IOrder, status: OrderStatus): Promise<boolean> =>
+  Boolean(await Order.findOneAndUpdate({ _id: order._id, status: order.status }, { $set: { status } }));
+
+/**
+ * Moves the order to the status if the actor may, with the stock and payout
+ * changes that come with it. An approved refund pays back refundAmount, or
+ * all that's left of the order. The caller saves the order. Returns the
+ * error for `next` when the change isn't allowed.
+ */
+export const advanceOrder = async (
+  order: IOrder,
+  status: OrderStatus,
+  actor: StatusActor,
+  note?: string,
+  refundAmount?: number
+): Promise<ErrorHandler | null> => {
+  const invalid = checkTransition(order.status, status, actor.role);
+  if (invalid) {
+    return invalid;
+  }
+
+  // only orders paid on delivery may leave the shop unpaid
+  if (hasShipped(status) && isAwaitingPayment(order.paymentInfo) && !isPaid(order.paymentInfo)) {
+    return new ErrorHandler("The order can't ship before it's paid", 400);
+  }
+
+  // the buyer is told why the shop called off their order
+  if (status === "Cancelled" && (actor.role === "seller" || actor.role === "admin") && !note) {
+    return new ErrorHandler("Please give a reason for cancelling the order", 400);
+  }
+
+  // a return that's still open would be refunded and restocked a second time
+  if (
+    (status === "Processing refund" || status === "Refund Success") &&
+    (await ReturnRequest.exists({ orderId: String(order._id), status: { $in: OPEN_RETURN_STATUSES } }))
+  ) {
+    return new ErrorHandler("This order has a return in progress, please finish it first", 400);
+  }
+
+  if (status === "Refund Success" && refundAmount !== undefined && refundAmount > refundableAmount(order)) {
+    return new ErrorHandler(`Only ${refundableAmount(order).toFixed(2)} of this order can still be refunded`, 400);
+  }
+
+  if (!(await claimStatus(order, status))) {
+    return new ErrorHandler("The order was changed in the meantime, please reload it", 400);
+  }
+
+  await applyStatusEffects(order, status, actor, note, refundAmount);
+  recordStatus(order, status, actor, note);
+
+  return null;
+};
+
+// cancels unpaid orders whose reservation ran out, returns how many
+export const cancelExpiredOrders = async (now = new Date()): Promise<number> => {
+  const expired = await Order.find(
+    {
+      "reservation.status": "held",
+      "reservation.expiresAt": { $lte: now },
+    },
+    "_id"
+  );
+
+  let cancelled = 0;
+
+  for (const { _id } of expired) {
+    // claimed in one update, like the payment webhook does: a payment that came
+    // in first keeps the order, one that comes in after this is refunded
+    const order = await Order.findOneAndUpdate(
+      { _id, "reservation.status": "held", "paymentInfo.status": NOT_PAID },
+      { $set: { "paymentInfo.status": PAYMENT_EXPIRED } },
+      { new: true }
+    );
+
+    // an order that shipped in the meantime is no longer "held" and stays as it is
+    if (order && (await releaseHeldStock(order))) {
+      await advanceOrder(order, "Cancelled", SYSTEM_ACTOR, "Payment wasn't completed in time");
+      await order.save({ validateBeforeSave: false });
+      cancelled++;
+    }
+  }
+
+  return cancelled;
+};
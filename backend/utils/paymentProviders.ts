@@ -0,0 +1,280 @@
+import { IncomingHttpHeaders } from "http";
+import Stripe from "stripe";
+import { roundMoney } from "./pricing";
+
+export interface PaymentOrder {
+  _id: unknown;
+  totalPrice: number;
+}
+
+// what the buyer needs to pay, e.g. the client secret of a Stripe intent
+export interface PaymentSession {
+  id: string;
+  amount: number;
+  currency: string;
+  clientSecret?: string;
+}
+
+export interface ProviderRefund {
+  id?: string;
+  amount: number;
+  status: string;
+  // set on refunds we made, dashboard refunds don't have it
+  orderId?: string;
+  createdAt: Date;
+}
+
+// a provider's webhook event, in our terms
+export type ProviderEvent =
+  | { id: string; type: "payment_succeeded" | "payment_failed"; paymentId: string; orderIds: string[] }
+  | { id: string; type: "refunded"; paymentId: string; refunds: ProviderRefund[] }
+  | { id: string; type: "ignored" };
+
+export interface PaymentProvider {
+  name: string;
+  label: string;
+  // the paymentInfo.type values that pick this provider
+  types: string[];
+  // paid when the order is delivered, so its stock is held until then
+  payLater?: boolean;
+  // for local development, refused in production
+  devOnly?: boolean;
+  // providers without one take nothing at checkout
+  createPayment?: (orders: PaymentOrder[]) => Promise<PaymentSession>;
+  // settles the payment once the order is delivered, true when the money is in
+  capture: (paymentId?: string) => Promise<boolean>;
+  // null when the money can't go back through the provider; a repeated key gives back the first refund
+  refund: (paymentId: string | undefined, amount: number, orderId: string, key?: string) => Promise<ProviderRefund | null>;
+  // throws when the request wasn't signed by the provider
+  parseWebhook?: (payload: Buffer, headers: IncomingHttpHeaders) => Promise<ProviderEvent>;
+}
+
+// read on use, so a currency set after this module loaded still counts
+export const paymentCurrency = (): string => (process.env.PAYMENT_CURRENCY || "usd").toLowerCase();
+
+// an amount in the currency payments are taken in, e.g. "$12.50" or "€12.50"
+export const formatMoney = (amount = 0): string =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: paymentCurrency() }).format(amount);
+
+const checkoutTotal = (orders: PaymentOrder[]) =>
+  roundMoney(orders.reduce((total, order) => total + order.totalPrice, 0));
+
+const orderIdsOf = (orders: PaymentOrder[]) => orders.map((order) => String(order._id));
+
+// created on first use, once the secret key is set
+let stripe: Stripe | null = null;
+const stripeClient = (): Stripe => {
+  if (!stripe) {
+    stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+      apiVersion: "2022-11-15",
+    });
+  }
+  return stripe;
+};
+
+const toCents = (amount: number) => Math.round(roundMoney(amount) * 100);
+
+const stripeRefund = (refund: Stripe.Refund): ProviderRefund => ({
+  id: refund.id,
+  amount: roundMoney(refund.amount / 100),
+  status: refund.status || "pending",
+  orderId: refund.metadata?.orderId,
+  createdAt: new Date(refund.created * 1000),
+});
+
+/**
+ * Card payments. One payment intent pays for the orders of every shop in the
+ * checkout and names them in its metadata; the webhook marks them paid.
+ */
+const stripeProvider: PaymentProvider = {
+  name: "stripe",
+  label: "Card",
+  types: ["stripe", "Credit Card"],
+  createPayment: async (orders) => {
+    const intent = await stripeClient().paymentIntents.create({
+      amount: toCents(checkoutTotal(orders)),
+      currency: paymentCurrency(),
+      metadata: {
+        company: "oshop",
+        orderIds: orderIdsOf(orders).join(","),
+      },
+    });
+
+    return {
+      id: intent.id,
+      amount: roundMoney(intent.amount / 100),
+      currency: intent.currency,
+      clientSecret: intent.client_secret || undefined,
+    };
+  },
+  capture: async (paymentId) => {
+    if (!paymentId) {
+      return false;
+    }
+
+    let intent = await stripeClient().paymentIntents.retrieve(paymentId);
+    if (intent.status === "requires_capture") {
+      intent = await stripeClient().paymentIntents.capture(paymentId);
+    }
+
+    return intent.status === "succeeded";
+  },
+  refund: async (paymentId, amount, orderId, key) => {
+    if (!paymentId) {
+      return null;
+    }
+
+    const refund = await stripeClient().refunds.create(
+      {
+        payment_intent: paymentId,
+        amount: toCents(amount),
+        metadata: { orderId },
+      },
+      key ? { idempotencyKey: key } : undefined
+    );
+
+    return stripeRefund(refund);
+  },
+  parseWebhook: async (payload, headers) => {
+    const event = stripeClient().webhooks.constructEvent(
+      payload,
+      String(headers["stripe-signature"] || ""),
+      process.env.STRIPE_WEBHOOK_SECRET || ""
+    );
+
+    if (event.type === "payment_intent.succeeded" || event.type === "payment_intent.payment_failed") {
+      const intent = event.data.object as Stripe.PaymentIntent;
+
+      return {
+        id: event.id,
+        type: event.type === "payment_intent.succeeded" ? "payment_succeeded" : "payment_failed",
+        paymentId: intent.id,
+        orderIds: (intent.metadata?.orderIds || "").split(",").filter(Boolean),
+      };
+    }
+
+    if (event.type === "charge.refunded") {
+      const charge = event.data.object as Stripe.Charge;
+      const paymentId = typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id;
+
+      if (paymentId) {
+        // since API version 2022-11-15 a charge doesn't come with its refunds
+        const refunds = await stripeClient().refunds.list({ charge: charge.id, limit: 100 });
+        return { id: event.id, type: "refunded", paymentId, refunds: refunds.data.map(stripeRefund) };
+      }
+    }
+
+    return { id: event.id, type: "ignored" };
+  },
+};
+
+const cashOnDelivery: PaymentProvider = {
+  name: "cod",
+  label: "Cash on delivery",
+  types: ["cod", "Cash On Delivery"],
+  payLater: true,
+  // the courier collects the cash
+  capture: async () => true,
+  // cash goes back by hand and is recorded as a manual refund
+  refund: async () => null,
+};
+
+interface MockPayment {
+  id: string;
+  amount: number;
+  orderIds: string[];
+  status: "pending" | "succeeded" | "failed";
+  refunded: number;
+}
+
+// kept in memory, gone on restart
+const mockPayments = new Map<string, MockPayment>();
+const mockRefunds = new Map<string, ProviderRefund>();
+let mockSequence = 0;
+
+// ids count up, so a run with the same steps gives the same ids
+const mockId = (prefix: string) => `${prefix}_${String(++mockSequence).padStart(6, "0")}`;
+
+/**
+ * Stands in for a card provider during development. Payments stay pending
+ * until completeMockPayment says how they went.
+ */
+const mockProvider: PaymentProvider = {
+  name: "mock",
+  label: "Mock payments",
+  types: ["mock"],
+  devOnly: true,
+  createPayment: async (orders) => {
+    const payment: MockPayment = {
+      id: mockId("mock_pay"),
+      amount: checkoutTotal(orders),
+      orderIds: orderIdsOf(orders),
+      status: "pending",
+      refunded: 0,
+    };
+    mockPayments.set(payment.id, payment);
+
+    return { id: payment.id, amount: payment.amount, currency: paymentCurrency(), clientSecret: `${payment.id}_secret` };
+  },
+  capture: async (paymentId) => mockPayments.get(paymentId || "")?.status === "succeeded",
+  refund: async (paymentId, amount, orderId, key) => {
+    const payment = mockPayments.get(paymentId || "");
+    const repeated = key && mockRefunds.get(key);
+
+    if (repeated) {
+      return repeated;
+    }
+
+    if (!payment || payment.status !== "succeeded") {
+      throw new Error("Mock payment wasn't made, there's nothing to refund");
+    }
+
+    if (roundMoney(payment.refunded + amount) > payment.amount) {
+      throw new Error(`Only ${roundMoney(payment.amount - payment.refunded)} of the mock payment is left to refund`);
+    }
+
+    payment.refunded = roundMoney(payment.refunded + amount);
+
+    const refund = { id: mockId("mock_re"), amount, status: "succeeded", orderId, createdAt: new Date() };
+    if (key) {
+      mockRefunds.set(key, refund);
+    }
+
+    return refund;
+  },
+};
+
+// what the mock provider's webhook would send once the buyer paid, or didn't
+export const completeMockPayment = (
+  paymentId: string,
+  outcome: "succeeded" | "failed"
+): ProviderEvent | null => {
+  const payment = mockPayments.get(paymentId);
+
+  if (!payment || payment.status === "succeeded") {
+    return null;
+  }
+
+  payment.status = outcome;
+
+  return {
+    id: mockId("mock_evt"),
+    type: outcome === "succeeded" ? "payment_succeeded" : "payment_failed",
+    paymentId,
+    orderIds: payment.orderIds,
+  };
+};
+
+export const PAYMENT_PROVIDERS: Record<string, PaymentProvider> = {
+  stripe: stripeProvider,
+  cod: cashOnDelivery,
+  mock: mockProvider,
+};
+
+export const PAYMENT_PROVIDER_NAMES = Object.keys(PAYMENT_PROVIDERS) as [string, ...string[]];
+
+export const PAYMENT_TYPES = Object.values(PAYMENT_PROVIDERS).flatMap((provider) => provider.types) as [string, ...string[]];
+
+// orders from before the type picked a provider were paid by card
+export const providerFor = (paymentInfo?: { type?: string }): PaymentProvider =>
+  Object.values(PAYMENT_PROVIDERS).find((provider) => provider.types.includes(paymentInfo?.type || "")) || stripeProvider;
@@ -0,0 +1,170 @@
+import Order, { IOrder } from "../model/order";
+import PaymentEvent from "../model/paymentEvent";
+import { PaymentProvider, ProviderEvent, ProviderRefund } from "./paymentProviders";
+import { OrderRefund, NOT_PAID, PAYMENT_EXPIRED, isPaid, refundableAmount } from "./payments";
+import { isSaleCredited } from "./ledger";
+import { commissionShare } from "./commission";
+import { refundOrder, settleShopRefund } from "./orders";
+import { sendOrderConfirmations } from "./invoices";
+import { roundMoney } from "./pricing";
+
+// a failed attempt doesn't undo a payment, nor the expiry sweep's claim on the order
+const AWAITING_PAYMENT = { $not: /^(succeeded|expired)$/i };
+
+// a payment that came through after the order was cancelled goes back to the buyer,
+// a refund the provider fails on is retried like any other
+const refundCancelledOrder = async (order: IOrder) => {
+  if (await refundOrder(order, refundableAmount(order), "Paid after the order was cancelled")) {
+    await order.save({ validateBeforeSave: false });
+  }
+};
+
+const paymentSucceeded = async (provider: PaymentProvider, paymentId: string, orderIds: string[]) => {
+  for (const orderId of orderIds) {
+    // claimed in one update, the expiry sweep claims the order the same way:
+    // a payment that comes first keeps the order, one that comes later is refunded
+    const previous = await Order.findOneAndUpdate(
+      { _id: orderId, "paymentInfo.status": NOT_PAID },
+      {
+        $set: { "paymentInfo.id": paymentId, "paymentInfo.status": "Succeeded", paidAt: new Date() },
+        $unset: { "reservation.expiresAt": 1 },
+      }
+    );
+
+    if (previous) {
+      const order = await Order.findById(orderId);
+
+      // the order was cancelled, or is being cancelled, before the payment came through
+      if (order && (previous.status === "Cancelled" || previous.paymentInfo.status === PAYMENT_EXPIRED)) {
+        await refundCancelledOrder(order);
+      } else if (order) {
+        // the order goes ahead now, so the buyer gets its invoice
+        sendOrderConfirmations([order]).catch((error: Error) => {
+          console.log(`Error sending order confirmation: ${error.message}`);
+        });
+      }
+      continue;
+    }
+
+    const paid = await Order.findById(orderId);
+    if (!paid || !isPaid(paid.paymentInfo)) {
+      continue;
+    }
+
+    if (paid.paymentInfo.id !== paymentId) {
+      // paid twice, e.g. the buyer started checkout again in another tab,
+      // the key makes a retried event get back the same refund instead of a second one
+      const key = `refund-dup-${paymentId}-${orderId}`;
+      const refund = await provider.refund(paymentId, paid.totalPrice, orderId, key);
+      if (refund && !paid.refunds.some((existing) => existing.key === key)) {
+        paid.refunds.push({ ...refund, provider: provider.name, reason: "Order was already paid", key });
+        await paid.save({ validateBeforeSave: false });
+      }
+    } else if (paid.status === "Cancelled" && refundableAmount(paid) > 0) {
+      // the event came again because handling it failed before the refund was recorded
+      await refundCancelledOrder(paid);
+    }
+  }
+};
+
+// the buyer may try again with another card until the reservation runs out
+const paymentFailed = async (paymentId: string, orderIds: string[]) => {
+  await Order.updateMany(
+    { _id: { $in: orderIds }, "paymentInfo.status": AWAITING_PAYMENT },
+    { $set: { "paymentInfo.id": paymentId, "paymentInfo.status": "Failed" } }
+  );
+};
+
+/**
+ * Brings the orders' refunds in line with the provider's, including refunds
+ * made from its dashboard. Refunds we made name their order.
+ */
+const refunded = async (provider: PaymentProvider, paymentId: string, refunds: ProviderRefund[]) => {
+  const orders = await Order.find({ "paymentInfo.id": paymentId });
+
+  for (const order of orders) {
+    const own = refunds.filter((refund) =>
+      refund.orderId
+        ? refund.orderId === String(order._id)
+        // a dashboard refund can only be told apart when the payment was for one order
+        : orders.length === 1
+    );
+
+    for (const refund of own) {
+      const known = order.refunds.find((existing) =>
+        existing.id
+          ? existing.id === refund.id
+          // one of ours that went through before we heard back, it's still being retried
+          : existing.status === "retrying" && refund.orderId === String(order._id) && existing.amount === refund.amount
+      );
+
+      if (known) {
+        const previousStatus = known.status;
+        known.id = refund.id;
+        known.status = refund.status;
+        await settleShopRefund(order, known, previousStatus);
+        continue;
+      }
+
+      const added: OrderRefund = {
+        provider: provider.name,
+        id: refund.id,
+        amount: refund.amount,
+        status: refund.status,
+        reason: `Refunded in ${provider.label}`,
+        createdAt: refund.createdAt,
+      };
+
+      // the shop was credited the sale, so a refund made outside the app comes off it too
+      if (refund.id && (await isSaleCredited(order._id))) {
+        added.key = refund.id;
+        added.sellerAmount = roundMoney(refund.amount - commissionShare(order, refund.amount));
+        await settleShopRefund(order, added);
+      }
+
+      order.refunds.push(added);
+    }
+
+    if (refundableAmount(order) <= 0) {
+      order.set("paymentInfo.status", "Refunded");
+    }
+
+    await order.save({ validateBeforeSave: false });
+  }
+};
+
+/**
+ * Applies a verified provider event to its orders. Providers deliver events
+ * at least once, so each event id is only handled once; returns false for
+ * one that was handled before.
+ */
+export const handlePaymentEvent = async (provider: PaymentProvider, event: ProviderEvent): Promise<boolean> => {
+  try {
+    await PaymentEvent.create({ provider: provider.name, eventId: event.id, type: event.type });
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+
+  try {
+    switch (event.type) {
+      case "payment_succeeded":
+        await paymentSucceeded(provider, event.paymentId, event.orderIds);
+        break;
+      case "payment_failed":
+        await paymentFailed(event.paymentId, event.orderIds);
+        break;
+      case "refunded":
+        await refunded(provider, event.paymentId, event.refunds);
+        break;
+    }
+  } catch (error) {
+    // forget the event so the provider's retry handles it again
+    await PaymentEvent.deleteOne({ provider: provider.name, eventId: event.id });
+    throw error;
+  }
+
+  return true;
+};
@@ -0,0 +1,108 @@
+import { PaymentSession, providerFor } from "./paymentProviders";
+import { roundMoney } from "./pricing";
+
+export interface OrderRefund {
+  provider: string;
+  id?: string;
+  amount: number;
+  status: string;
+  reason?: string;
+  // sent with every attempt, so a retry can't refund twice
+  key?: string;
+  // what came off the shop's balance for it
+  sellerAmount?: number;
+  // set while the provider keeps failing, see retryFailedRefunds
+  error?: string;
+  attempts?: number;
+  retryAt?: Date;
+  createdAt: Date;
+}
+
+// refunds the provider turned down gave nothing back
+export const NOT_REFUNDED = ["failed", "canceled"];
+
+// the provider took the refund, it isn't turned down or still being retried
+export const refundWentThrough = (status?: string): boolean =>
+  status !== "retrying" && !NOT_REFUNDED.includes(status || "");
+
+interface PaidOrder {
+  _id: unknown;
+  totalPrice: number;
+  paymentInfo?: { id?: string; status?: string; type?: string };
+}
+
+// matches the orders whose payment didn't go through
+export const NOT_PAID = { $not: /^succeeded$/i };
+
+// set by the expiry sweep when it takes an unpaid order to cancel it, a
+// payment that comes in after that is refunded
+export const PAYMENT_EXPIRED = "Expired";
+
+export const isPaid = (paymentInfo?: { status?: string }): boolean =>
+  paymentInfo?.status?.toLowerCase() === "succeeded";
+
+// what's left of the order total after the refunds so far, including ones still being retried
+export const refundableAmount = (order: { totalPrice: number; refunds?: { amount: number; status?: string }[] }): number =>
+  roundMoney(
+    order.totalPrice -
+      (order.refunds || [])
+        .filter((refund) => !NOT_REFUNDED.includes(refund.status || ""))
+        .reduce((total, refund) => total + refund.amount, 0)
+  );
+
+/**
+ * Starts the payment for the orders of a checkout with the provider their
+ * payment type picks. They're only marked paid once the provider's webhook
+ * says the payment went through. Returns null when the provider takes
+ * nothing at checkout.
+ */
+export const createOrderPayment = async (orders: PaidOrder[]): Promise<PaymentSession | null> => {
+  const provider = providerFor(orders[0]?.paymentInfo);
+
+  if (!provider.createPayment) {
+    return null;
+  }
+
+  return provider.createPayment(orders);
+};
+
+// settles the payment on delivery, true when the money is in
+export const captureOrderPayment = async (order: PaidOrder): Promise<boolean> =>
+  isPaid(order.paymentInfo) || providerFor(order.paymentInfo).capture(order.paymentInfo?.id);
+
+/**
+ * Gives the buyer their money back for the order, or part of it, through the
+ * provider that took it. Orders that weren't paid yet have nothing to refund,
+ * and neither do providers that can't send money back, like cash on
+ * delivery; both return null.
+ */
+export const refundOrderPayment = async (
+  order: PaidOrder,
+  amount: number = order.totalPrice,
+  reason?: string,
+  key?: string
+): Promise<OrderRefund | null> => {
+  if (!isPaid(order.paymentInfo) || amount <= 0) {
+    return null;
+  }
+
+  const provider = providerFor(order.paymentInfo);
+
+  // one payment pays for the orders of every shop in the checkout,
+  // so each order only refunds its own share
+  const refund = await provider.refund(order.paymentInfo?.id, roundMoney(amount), String(order._id), key);
+
+  if (!refund) {
+    return null;
+  }
+
+  return {
+    provider: provider.name,
+    id: refund.id,
+    amount: refund.amount,
+    status: refund.status,
+    reason,
+    key,
+    createdAt: refund.createdAt,
+  };
+};
@@ -0,0 +1,63 @@
+import Role from "../model/role";
+
+export const PERMISSIONS = {
+  USERS_VIEW: "users:view",
+  USERS_DELETE: "users:delete",
+  SELLERS_VIEW: "sellers:view",
+  SELLERS_DELETE: "sellers:delete",
+  ORDERS_VIEW: "orders:view",
+  ORDERS_REFUND: "orders:refund",
+  ORDERS_MANAGE: "orders:manage",
+  CATALOG_VIEW: "catalog:view",
+  CATALOG_MODERATE: "catalog:moderate",
+  CATEGORIES_MANAGE: "categories:manage",
+  WITHDRAW_VIEW: "withdraw:view",
+  WITHDRAW_APPROVE: "withdraw:approve",
+  LEDGER_VIEW: "ledger:view",
+  LEDGER_ADJUST: "ledger:adjust",
+  COMMISSION_MANAGE: "commission:manage",
+  ACCOUNTS_UNLOCK: "accounts:unlock",
+  ROLES_MANAGE: "roles:manage",
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+export const isPermission = (value: string): value is Permission => {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+};
+
+// roles every deployment starts with. "Admin" always holds every permission.
+const SYSTEM_ROLES = [
+  {
+    name: "Admin",
+    description: "Full access to every admin route",
+    permissions: ALL_PERMISSIONS,
+  },
+  {
+    name: "user",
+    description: "Regular customer account",
+    permissions: [],
+  },
+];
+
+export const ensureSystemRoles = async (): Promise<void> => {
+  for (const role of SYSTEM_ROLES) {
+    await Role.updateOne(
+      { name: role.name },
+      { $set: { ...role, system: true } },
+      { upsert: true }
+    );
+  }
+};
+
+export const getRolePermissions = async (roleName?: string): Promise<string[]> => {
+  if (!roleName) {
+    return [];
+  }
+
+  const role = await Role.findOne({ name: roleName });
+
+  return role ? role.permissions : [];
+};
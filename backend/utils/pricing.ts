@@ -0,0 +1,144 @@
+import Product from "../model/product";
+import Event from "../model/event";
+import { ICouponCode } from "../model/couponCode";
+import { StockLine } from "./inventory";
+
+export interface CartLine {
+  _id: string;
+  qty: number;
+  variantId?: string;
+}
+
+// a cart line as stored on the order, with what the server charged for it
+export interface PricedLine extends StockLine {
+  shopId: string;
+  name: string;
+  discountPrice: number;
+  lineTotal: number;
+  sku?: string;
+  options?: Record<string, string>;
+  images?: { public_id: string; url: string }[];
+}
+
+export interface ShopTotals {
+  shopId: string;
+  cart: PricedLine[];
+  subTotalPrice: number;
+  discount: number;
+  couponCode?: string;
+  shipping: number;
+  tax: number;
+  totalPrice: number;
+}
+
+const SHIPPING_RATE = Number(process.env.SHIPPING_RATE ?? 0.1);
+const TAX_RATE = Number(process.env.TAX_RATE ?? 0);
+
+export const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const imageLinks = (images: { public_id: string; url: string }[]) => images.map(({ public_id, url }) => ({ public_id, url }));
+
+/**
+ * Reloads every cart line from its product or event, so the order is priced
+ * with what's in the database and not with what the client sent. Returns an
+ * error message for the first line that can't be ordered.
+ */
+export const priceCart = async (cart: CartLine[]): Promise<{ lines: PricedLine[]; error?: string }> => {
+  const lines: PricedLine[] = [];
+
+  for (const item of cart) {
+    const product = await Product.findById(item._id);
+
+    if (product) {
+      const variant = item.variantId ? product.variants.id(item.variantId) : null;
+
+      if (product.variants.length && !variant) {
+        return { lines, error: `Please choose a variant of ${product.name}` };
+      }
+
+      const unitPrice = variant ? variant.price : product.discountPrice;
+
+      // only what the server knows about the line is stored, nothing the client added
+      lines.push({
+        _id: String(product._id),
+        qty: item.qty,
+        shopId: product.shopId,
+        name: product.name,
+        discountPrice: unitPrice,
+        lineTotal: roundMoney(unitPrice * item.qty),
+        images: imageLinks(variant?.images.length ? variant.images : product.images),
+        // name the chosen variant on the cart line so the order keeps it
+        ...(variant ? { variantId: String(variant._id), sku: variant.sku, options: variant.options } : { sku: product.sku }),
+      });
+      continue;
+    }
+
+    const event = await Event.findById(item._id);
+
+    if (!event) {
+      return { lines, error: "A product in your cart is no longer available" };
+    }
+
+    if (event.status !== "Running" || event.Finish_Date < new Date()) {
+      return { lines, error: `The event ${event.name} has ended` };
+    }
+
+    lines.push({
+      _id: String(event._id),
+      qty: item.qty,
+      kind: "event",
+      shopId: event.shopId,
+      name: event.name,
+      discountPrice: event.discountPrice,
+      lineTotal: roundMoney(event.discountPrice * item.qty),
+      images: imageLinks(event.images),
+    });
+  }
+
+  return { lines };
+};
+
+// percentage off the lines the coupon is for, within its minimum and maximum
+const couponDiscount = (coupon: ICouponCode, lines: PricedLine[]): number => {
+  const eligible = lines.filter((line) =>
+    !coupon.selectedProduct || coupon.selectedProduct === line._id || coupon.selectedProduct === line.name
+  );
+  const amount = eligible.reduce((total, line) => total + line.lineTotal, 0);
+
+  if (!amount || (coupon.minAmount && amount < coupon.minAmount)) {
+    return 0;
+  }
+
+  const discount = (amount * coupon.value) / 100;
+  return roundMoney(coupon.maxAmount ? Math.min(discount, coupon.maxAmount) : discount);
+};
+
+/**
+ * Splits priced lines into one total per shop. A coupon only discounts the
+ * order of the shop it belongs to.
+ */
+export const priceOrders = (lines: PricedLine[], coupon?: ICouponCode | null): ShopTotals[] => {
+  const byShop = new Map<string, PricedLine[]>();
+
+  for (const line of lines) {
+    byShop.set(line.shopId, [...(byShop.get(line.shopId) || []), line]);
+  }
+
+  return [...byShop].map(([shopId, cart]) => {
+    const subTotalPrice = roundMoney(cart.reduce((total, line) => total + line.lineTotal, 0));
+    const discount = coupon && coupon.shopId === shopId ? couponDiscount(coupon, cart) : 0;
+    const shipping = roundMoney(subTotalPrice * SHIPPING_RATE);
+    const tax = roundMoney((subTotalPrice - discount) * TAX_RATE);
+
+    return {
+      shopId,
+      cart,
+      subTotalPrice,
+      discount,
+      couponCode: discount ? coupon!.name : undefined,
+      shipping,
+      tax,
+      totalPrice: roundMoney(subTotalPrice - discount + shipping + tax),
+    };
+  });
+};
@@ -0,0 +1,53 @@
+import ProductRevision, { ProductChange } from "../model/productRevision";
+
+// fields sellers can edit directly, images are diffed separately
+export const EDITABLE_PRODUCT_FIELDS = [
+  "sku",
+  "name",
+  "description",
+  "category",
+  "tags",
+  "originalPrice",
+  "discountPrice",
+  "stock",
+  "lowStockThreshold",
+] as const;
+
+export const diffProductFields = (
+  current: { get: (field: string) => unknown },
+  updates: Record<string, unknown>
+): ProductChange[] => {
+  const changes: ProductChange[] = [];
+
+  for (const field of EDITABLE_PRODUCT_FIELDS) {
+    // ids are compared as strings
+    if (updates[field] === undefined || String(updates[field]) === String(current.get(field))) {
+      continue;
+    }
+    changes.push({ field, from: current.get(field), to: updates[field] });
+  }
+
+  return changes;
+};
+
+// what the revision log keeps of each variant, without its images
+export const summarizeVariants = (
+  variants: { sku: string; options: Record<string, string>; originalPrice?: number; price: number; stock: number }[]
+) => variants.map(({ sku, options, originalPrice, price, stock }) => ({ sku, options, originalPrice, price, stock }));
+
+export const recordProductRevision = async (
+  product: { _id?: unknown; shopId: string },
+  changes: ProductChange[],
+  actor?: object
+): Promise<void> => {
+  if (!changes.length) {
+    return;
+  }
+
+  await ProductRevision.create({
+    productId: String(product._id),
+    shopId: product.shopId,
+    changes,
+    actor,
+  });
+};
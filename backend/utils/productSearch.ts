@@ -0,0 +1,157 @@
+import mongoose, { PipelineStage } from "mongoose";
+
+export const PRODUCT_SORTS = ["relevance", "price_asc", "price_desc", "rating", "newest", "best_selling"] as const;
+
+export type ProductSort = typeof PRODUCT_SORTS[number];
+
+// upper bounds of the price facet buckets, anything above the last one is "1000+"
+export const PRICE_BUCKETS = [0, 25, 50, 100, 250, 500, 1000];
+
+export interface ProductSearchQuery {
+  q?: string;
+  // the chosen categories, already expanded to their subcategories
+  category?: mongoose.Types.ObjectId[];
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  shopId?: string;
+  inStock?: boolean;
+  sort: ProductSort;
+  limit: number;
+  cursor?: ProductCursor;
+}
+
+export interface ProductCursor {
+  sortValue: unknown;
+  id: mongoose.Types.ObjectId;
+}
+
+interface SortKey {
+  value: unknown;
+  direction: 1 | -1;
+}
+
+const sortKey = (sort: ProductSort, hasText: boolean): SortKey => {
+  switch (sort) {
+    case "price_asc":
+      return { value: "$discountPrice", direction: 1 };
+    case "price_desc":
+      return { value: "$discountPrice", direction: -1 };
+    case "rating":
+      return { value: { $ifNull: ["$ratings", 0] }, direction: -1 };
+    case "best_selling":
+      return { value: { $ifNull: ["$sold_out", 0] }, direction: -1 };
+    case "relevance":
+      // without search terms there is nothing to rank, so show the newest first
+      if (hasText) {
+        return { value: { $meta: "textScore" }, direction: -1 };
+      }
+      return { value: "$createdAt", direction: -1 };
+    case "newest":
+      return { value: "$createdAt", direction: -1 };
+  }
+};
+
+// cursors carry the sort value and _id of the last product of the previous page
+export const encodeCursor = (sortValue: unknown, id: unknown): string => {
+  const value = sortValue instanceof Date ? { date: sortValue.toISOString() } : sortValue;
+  return Buffer.from(JSON.stringify([value, String(id)])).toString("base64url");
+};
+
+export const decodeCursor = (cursor: string): ProductCursor | null => {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    const sortValue = value && typeof value === "object" && "date" in value ? new Date(value.date) : value;
+    return { sortValue, id: new mongoose.Types.ObjectId(id) };
+  } catch {
+    return null;
+  }
+};
+
+const categoryMatch = (query: ProductSearchQuery) =>
+  query.category?.length ? { category: { $in: query.category } } : {};
+
+const priceMatch = (query: ProductSearchQuery) => {
+  const discountPrice: Record<string, number> = {};
+  if (query.minPrice !== undefined) {
+    discountPrice.$gte = query.minPrice;
+  }
+  if (query.maxPrice !== undefined) {
+    discountPrice.$lte = query.maxPrice;
+  }
+  return Object.keys(discountPrice).length ? { discountPrice } : {};
+};
+
+/**
+ * One aggregation for a page of results, the total and the facet counts.
+ * Each facet ignores its own filter so the storefront can show the counts
+ * of the other categories and price ranges next to the selected one.
+ */
+export const buildProductSearch = (query: ProductSearchQuery): PipelineStage[] => {
+  const base: Record<string, unknown> = {};
+
+  if (query.q) {
+    base.$text = { $search: query.q };
+  }
+  if (query.minRating !== undefined) {
+    base.ratings = { $gte: query.minRating };
+  }
+  if (query.shopId) {
+    base.shopId = query.shopId;
+  }
+  if (query.inStock !== undefined) {
+    // reserved units are already promised to other buyers
+    const available = { $subtract: ["$stock", { $ifNull: ["$reserved", 0] }] };
+    base.$expr = query.inStock ? { $gt: [available, 0] } : { $lte: [available, 0] };
+  }
+
+  const { value, direction } = sortKey(query.sort, Boolean(query.q));
+  const comparison = direction === 1 ? "$gt" : "$lt";
+
+  const page: PipelineStage.FacetPipelineStage[] = [];
+
+  if (query.cursor) {
+    const { sortValue, id } = query.cursor;
+    page.push({
+      $match: {
+        $or: [
+          { sortValue: { [comparison]: sortValue } },
+          { sortValue, _id: { [comparison]: id } },
+        ],
+      },
+    });
+  }
+
+  page.push(
+    { $sort: { sortValue: direction, _id: direction } },
+    // one extra product tells us whether there is a next page
+    { $limit: query.limit + 1 }
+  );
+
+  return [
+    { $match: base },
+    { $addFields: { sortValue: value } },
+    {
+      $facet: {
+        products: [{ $match: { ...categoryMatch(query), ...priceMatch(query) } }, ...page],
+        total: [{ $match: { ...categoryMatch(query), ...priceMatch(query) } }, { $count: "count" }],
+        categories: [
+          { $match: priceMatch(query) },
+          { $group: { _id: "$category", count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+        ],
+        prices: [
+          { $match: categoryMatch(query) },
+          {
+            $bucket: {
+              groupBy: "$discountPrice",
+              boundaries: PRICE_BUCKETS,
+              default: "1000+",
+              output: { count: { $sum: 1 } },
+            },
+          },
+        ],
+      },
+    },
+  ];
+};
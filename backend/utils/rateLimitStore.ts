@@ -0,0 +1,78 @@
+import RateLimit from "../model/rateLimit";
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+// a store counts hits per key inside a fixed window
+export interface RateLimitStore {
+  increment: (key: string, windowMs: number) => Promise<RateLimitHit>;
+  reset: (key: string) => Promise<void>;
+}
+
+// per-process counters, enough for a single server
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.prune(now);
+
+    const current = this.hits.get(key);
+    if (current && current.resetAt.getTime() > now) {
+      current.count += 1;
+      return current;
+    }
+
+    const hit = { count: 1, resetAt: new Date(now + windowMs) };
+    this.hits.set(key, hit);
+    return hit;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  private prune(now: number) {
+    if (this.hits.size < 10000) {
+      return;
+    }
+    for (const [key, hit] of this.hits) {
+      if (hit.resetAt.getTime() <= now) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+// counters shared by every server through the database
+export class MongoRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date();
+
+    const current = await RateLimit.findOneAndUpdate(
+      { key, resetAt: { $gt: now } },
+      { $inc: { count: 1 } },
+      { new: true }
+    );
+    if (current) {
+      return { count: current.count, resetAt: current.resetAt };
+    }
+
+    const fresh = await RateLimit.findOneAndUpdate(
+      { key },
+      { count: 1, resetAt: new Date(now.getTime() + windowMs) },
+      { new: true, upsert: true }
+    );
+    return { count: fresh.count, resetAt: fresh.resetAt };
+  }
+
+  async reset(key: string): Promise<void> {
+    await RateLimit.deleteOne({ key });
+  }
+}
+
+export const defaultRateLimitStore: RateLimitStore = process.env.RATE_LIMIT_STORE === "mongo"
+  ? new MongoRateLimitStore()
+  : new MemoryRateLimitStore();
@@ -0,0 +1,89 @@
+import Order from "../model/order";
+import { providerFor } from "./paymentProviders";
+import { StockLine, ReservationStatus, releaseStock, applyStockChange } from "./inventory";
+
+export interface OrderStock {
+  _id: unknown;
+  cart: StockLine[];
+  reservation?: {
+    status?: ReservationStatus;
+    expiresAt?: Date;
+  };
+  set(path: string, value: unknown): unknown;
+}
+
+// orders paid after delivery never expire
+export const isAwaitingPayment = (paymentInfo: { type?: string }): boolean =>
+  !providerFor(paymentInfo).payLater;
+
+// moves the reservation to its next status, at most once per order even if
+// two requests (or a request and the expiry sweep) race for it
+const claimReservation = async (
+  order: OrderStock,
+  from: (ReservationStatus | null)[],
+  to: ReservationStatus
+): Promise<ReservationStatus | null | false> => {
+  const previous = await Order.findOneAndUpdate(
+    { _id: order._id, "reservation.status": { $in: from } },
+    { $set: { "reservation.status": to } }
+  );
+
+  if (!previous) {
+    return false;
+  }
+
+  order.set("reservation.status", to);
+  return previous.reservation?.status || null;
+};
+
+/**
+ * Takes the order's stock off the shelf when it ships. Orders from before
+ * reservations existed only have their stock taken here.
+ */
+export const commitOrderStock = async (order: OrderStock): Promise<void> => {
+  const previous = await claimReservation(order, ["held", null], "committed");
+
+  if (previous === false) {
+    return;
+  }
+
+  for (const line of order.cart) {
+    await applyStockChange(line, line.qty, previous === "held");
+  }
+};
+
+const returnStock = async (order: OrderStock, from: (ReservationStatus | null)[], quantities?: number[]): Promise<boolean> => {
+  const previous = await claimReservation(order, from, "released");
+
+  if (previous === false) {
+    return false;
+  }
+
+  for (const [index, line] of order.cart.entries()) {
+    const qty = quantities ? quantities[index] : line.qty;
+
+    if (qty <= 0) {
+      continue;
+    }
+
+    if (previous === "held") {
+      await releaseStock({ ...line, qty });
+    } else {
+      await applyStockChange({ ...line, qty }, -qty);
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Gives the order's stock back after a cancellation or refund: a held
+ * reservation is released, shipped stock goes back on the shelf. quantities
+ * are the units of each cart line to give back, all of them by default.
+ */
+export const releaseOrderStock = (order: OrderStock, quantities?: number[]): Promise<boolean> =>
+  returnStock(order, ["held", "committed", null], quantities);
+
+// only gives back a reservation that's still held, false if the order got further
+export const releaseHeldStock = (order: OrderStock): Promise<boolean> =>
+  returnStock(order, ["held"]);
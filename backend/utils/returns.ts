@@ -0,0 +1,96 @@
+import ErrorHandler from "./ErrorHandler";
+import { roundMoney } from "./pricing";
+import { ReturnItem, ReturnStatus } from "../model/returnRequest";
+
+interface OrderLike {
+  cart: { qty: number; name?: string; sku?: string; discountPrice?: number }[];
+  subTotalPrice?: number;
+  discount?: number;
+  tax?: number;
+  totalPrice: number;
+}
+
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected"],
+  approved: ["received"],
+  received: ["refunded"],
+  rejected: [],
+  refunded: [],
+};
+
+// returns that haven't been refunded or rejected yet
+export const OPEN_RETURN_STATUSES: ReturnStatus[] = ["requested", "approved", "received"];
+
+export const checkReturnTransition = (from: ReturnStatus, to: ReturnStatus): ErrorHandler | null =>
+  RETURN_TRANSITIONS[from].includes(to) ? null : new ErrorHandler(`A return can't go from "${from}" to "${to}"`, 400);
+
+// what the buyer paid per unit: the line price less its share of the coupon, plus its share of the tax
+const unitPaid = (order: OrderLike, price: number) => {
+  if (!order.subTotalPrice) {
+    return price;
+  }
+  const paidShare = (order.subTotalPrice - (order.discount || 0) + (order.tax || 0)) / order.subTotalPrice;
+  return roundMoney(price * paidShare);
+};
+
+// units of each cart line that aren't part of another return yet
+export const returnableQuantities = (order: OrderLike, returns: { status: ReturnStatus; items: ReturnItem[] }[]): number[] =>
+  order.cart.map((line, index) =>
+    line.qty - returns
+      .filter((existing) => existing.status !== "rejected")
+      .flatMap((existing) => existing.items)
+      .filter((item) => item.line === index)
+      .reduce((total, item) => total + item.qty, 0)
+  );
+
+/**
+ * Checks the requested items against what's left to return. Returns an
+ * error message when they don't fit.
+ */
+export const returnItems = (
+  order: OrderLike,
+  returns: { status: ReturnStatus; items: ReturnItem[] }[],
+  requested: { line: number; qty: number }[]
+): { items: ReturnItem[]; error?: string } => {
+  const remaining = returnableQuantities(order, returns);
+  const items: ReturnItem[] = [];
+
+  for (const { line, qty } of requested) {
+    const cartLine = order.cart[line];
+
+    if (!cartLine) {
+      return { items: [], error: `The order has no line ${line}` };
+    }
+
+    remaining[line] -= qty;
+    if (remaining[line] < 0) {
+      return { items: [], error: `Only ${remaining[line] + qty} of ${cartLine.name || `line ${line}`} can still be returned` };
+    }
+
+    items.push({ line, qty, name: cartLine.name, sku: cartLine.sku, unitPrice: unitPaid(order, cartLine.discountPrice || 0) });
+  }
+
+  return { items };
+};
+
+// the value of what the seller got back
+export const receivedValue = (items: ReturnItem[]): number =>
+  roundMoney(items.reduce((total, item) => total + item.unitPrice * (item.receivedQty ?? item.qty), 0));
+
+// sets the status and adds it to the return's history
+export const moveReturn = (
+  returnRequest: { status: ReturnStatus; history: { status: ReturnStatus; at: Date; actor?: object; note?: string }[] },
+  status: ReturnStatus,
+  actor?: object,
+  note?: string
+): ErrorHandler | null => {
+  const invalid = checkReturnTransition(returnRequest.status, status);
+  if (invalid) {
+    return invalid;
+  }
+
+  returnRequest.history.push({ status, at: new Date(), actor, note });
+  returnRequest.status = status;
+
+  return null;
+};
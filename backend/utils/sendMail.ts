@@ -4,6 +4,7 @@ interface MailOptions {
   email: string;
   subject: string;
   message: string;
+  attachments?: { filename: string; content: Buffer; contentType?: string }[];
 }
 
 const sendMail = async (options: MailOptions): Promise<void> => {
@@ -27,6 +28,7 @@ const sendMail = async (options: MailOptions): Promise<void> => {
     to: options.email,
     subject: options.subject,
     text: options.message,
+    attachments: options.attachments,
   };
 
   await transporter.sendMail(mailOptions);
@@ -0,0 +1,130 @@
+import { Request } from "express";
+import crypto from "crypto";
+import Session, { ISession, SessionOwnerType } from "../model/session";
+
+export const ACCESS_TOKEN_MAX_AGE = Number(process.env.ACCESS_TOKEN_EXPIRES_MINUTES || 15) * 60 * 1000;
+
+export const REFRESH_TOKEN_MAX_AGE = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+export interface IssuedSession {
+  session: ISession;
+  refreshToken: string;
+}
+
+export const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const generateRefreshToken = (): string => {
+  return crypto.randomBytes(40).toString("hex");
+};
+
+// start a new session for a user or shop after a successful login
+export const createSession = async (
+  ownerId: string,
+  ownerType: SessionOwnerType,
+  req: Request
+): Promise<IssuedSession> => {
+  const refreshToken = generateRefreshToken();
+
+  const session = await Session.create({
+    owner: String(ownerId),
+    ownerType,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: req.headers["user-agent"],
+    ip: req.ip,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_MAX_AGE),
+  });
+
+  return { session, refreshToken };
+};
+
+// swap a refresh token for a new one. Presenting an already rotated token
+// means it was copied, so the whole session is revoked.
+export const rotateSession = async (
+  refreshToken: string,
+  ownerType: SessionOwnerType | SessionOwnerType[]
+): Promise<IssuedSession | null> => {
+  const tokenHash = hashToken(refreshToken);
+  const ownerTypes = Array.isArray(ownerType) ? ownerType : [ownerType];
+
+  const reused = await Session.findOne({
+    previousRefreshTokenHash: tokenHash,
+    ownerType: { $in: ownerTypes },
+  });
+  if (reused) {
+    reused.revokedAt = reused.revokedAt || new Date();
+    await reused.save();
+    return null;
+  }
+
+  const session = await Session.findOne({
+    refreshTokenHash: tokenHash,
+    ownerType: { $in: ownerTypes },
+  });
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+  session.previousRefreshTokenHash = session.refreshTokenHash;
+  session.refreshTokenHash = hashToken(nextRefreshToken);
+  session.lastUsedAt = new Date();
+  session.expiresAt = new Date(Date.now() + REFRESH_TOKEN_MAX_AGE);
+  await session.save();
+
+  return { session, refreshToken: nextRefreshToken };
+};
+
+export const isSessionActive = async (sessionId: string, ownerId: string): Promise<boolean> => {
+  const session = await Session.findOne({
+    _id: sessionId,
+    owner: String(ownerId),
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+
+  return !!session;
+};
+
+export const revokeSessionByRefreshToken = async (refreshToken: string): Promise<void> => {
+  await Session.updateOne(
+    { refreshTokenHash: hashToken(refreshToken), revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+};
+
+export const revokeSession = async (sessionId: string, ownerId: string): Promise<boolean> => {
+  const result = await Session.updateOne(
+    { _id: sessionId, owner: String(ownerId), revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+
+  return result.modifiedCount > 0;
+};
+
+export const revokeAllSessions = async (
+  ownerId: string,
+  ownerType: SessionOwnerType
+): Promise<number> => {
+  const result = await Session.updateMany(
+    { owner: String(ownerId), ownerType, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+
+  return result.modifiedCount;
+};
+
+export const getActiveSessions = async (
+  ownerId: string,
+  ownerType: SessionOwnerType
+): Promise<ISession[]> => {
+  return Session.find({
+    owner: String(ownerId),
+    ownerType,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  })
+    .select("-refreshTokenHash -previousRefreshTokenHash")
+    .sort({ lastUsedAt: -1 });
+};
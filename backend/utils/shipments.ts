@@ -0,0 +1,144 @@
+import Order from "../model/order";
+import { Carrier, ShipmentStatus, TrackingEvent } from "./carriers";
+import { FULFILMENT, OrderStatus, SYSTEM_ACTOR } from "./orderStatus";
+import { advanceOrder } from "./orders";
+
+export interface ShipmentItem {
+  line: number;
+  qty: number;
+  name?: string;
+  sku?: string;
+}
+
+interface ShipmentLike {
+  carrier: string;
+  trackingNumber: string;
+  status: ShipmentStatus;
+  items: ShipmentItem[];
+  events: { status: string; at: Date; description?: string; location?: string }[];
+}
+
+interface OrderLike {
+  status: string;
+  cart: { qty: number; name?: string; sku?: string }[];
+  shipments: ShipmentLike[];
+}
+
+// where the order stands once every parcel is at least this far
+const ORDER_STATUS_OF: Record<Exclude<ShipmentStatus, "exception">, OrderStatus> = {
+  pre_transit: "Transferred to delivery partner",
+  in_transit: "Shipping",
+  at_hub: "Received",
+  out_for_delivery: "On the way",
+  delivered: "Delivered",
+};
+
+// statuses the seller can still add parcels in
+export const canShip = (status: string): boolean =>
+  FULFILMENT.includes(status as OrderStatus) && status !== "Delivered";
+
+// units of each cart line that haven't been put in a shipment yet
+export const unshippedQuantities = (order: OrderLike): number[] =>
+  order.cart.map((line, index) =>
+    line.qty - order.shipments
+      .flatMap((shipment) => shipment.items)
+      .filter((item) => item.line === index)
+      .reduce((total, item) => total + item.qty, 0)
+  );
+
+/**
+ * Checks the requested items against what's left to ship. Without items the
+ * shipment takes everything that's left. Returns an error message when the
+ * items don't fit.
+ */
+export const shipmentItems = (
+  order: OrderLike,
+  requested?: { line: number; qty: number }[]
+): { items: ShipmentItem[]; error?: string } => {
+  const remaining = unshippedQuantities(order);
+  const wanted = requested || remaining.map((qty, line) => ({ line, qty })).filter((item) => item.qty > 0);
+
+  if (!wanted.length) {
+    return { items: [], error: "Every item of this order has already shipped" };
+  }
+
+  const items: ShipmentItem[] = [];
+
+  for (const { line, qty } of wanted) {
+    if (!order.cart[line]) {
+      return { items: [], error: `The order has no line ${line}` };
+    }
+
+    remaining[line] -= qty;
+    if (remaining[line] < 0) {
+      return { items: [], error: `Only ${remaining[line] + qty} of ${order.cart[line].name || `line ${line}`} are left to ship` };
+    }
+
+    items.push({ line, qty, name: order.cart[line].name, sku: order.cart[line].sku });
+  }
+
+  return { items };
+};
+
+/**
+ * The furthest status every parcel has reached. An order with items still to
+ * ship or a parcel in trouble isn't delivered, however far the rest got.
+ */
+export const orderStatusForShipments = (order: OrderLike): OrderStatus | null => {
+  if (!order.shipments.length) {
+    return null;
+  }
+
+  const steps = order.shipments.map((shipment) =>
+    shipment.status === "exception" ? 0 : FULFILMENT.indexOf(ORDER_STATUS_OF[shipment.status])
+  );
+  let step = Math.min(...steps);
+
+  if (unshippedQuantities(order).some((qty) => qty > 0)) {
+    step = Math.min(step, FULFILMENT.indexOf("On the way"));
+  }
+
+  return step > 0 ? FULFILMENT[step] : null;
+};
+
+/**
+ * Adds a tracking event to its shipment and moves the order forward when all
+ * of its parcels have got further. Events the shipment already has are
+ * ignored, so carriers may retry. Returns false for unknown tracking numbers.
+ */
+export const applyTrackingEvent = async (carrier: Carrier, event: TrackingEvent): Promise<boolean> => {
+  const order = await Order.findOne({
+    shipments: { $elemMatch: { carrier: carrier.name, trackingNumber: event.trackingNumber } },
+  });
+
+  if (!order) {
+    return false;
+  }
+
+  const shipment = (order.shipments as ShipmentLike[]).find(
+    (candidate) => candidate.carrier === carrier.name && candidate.trackingNumber === event.trackingNumber
+  )!;
+
+  const known = shipment.events.some(
+    (existing) => existing.status === event.status && existing.at.getTime() === event.at.getTime()
+  );
+
+  if (known) {
+    return true;
+  }
+
+  shipment.events.push({ status: event.status, at: event.at, description: event.description, location: event.location });
+  shipment.events.sort((a, b) => a.at.getTime() - b.at.getTime());
+  // events can arrive out of order, the latest one says where the parcel is
+  shipment.status = shipment.events[shipment.events.length - 1].status as ShipmentStatus;
+
+  const status = orderStatusForShipments(order);
+  if (status && FULFILMENT.indexOf(status) > FULFILMENT.indexOf(order.status as OrderStatus)) {
+    // cancelled or refunded orders stay as they are
+    await advanceOrder(order, status, SYSTEM_ACTOR, `Tracking update from ${carrier.label}`);
+  }
+
+  await order.save({ validateBeforeSave: false });
+
+  return true;
+};
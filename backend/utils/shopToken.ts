@@ -1,30 +1,70 @@
 import { Request, Response, CookieOptions } from 'express';
+import { createSession, ACCESS_TOKEN_MAX_AGE, REFRESH_TOKEN_MAX_AGE, IssuedSession } from './session';
+import { IStaff } from '../model/staff';
 
 interface User {
-  getJwtToken: () => string;
+  _id: unknown;
+  getJwtToken: (sessionId: string) => string;
   // add any other properties the User has that you need to use
 }
 
-const sendShopToken = (user: User, statusCode: number, res: Response): void => {
-  const token: string = user.getJwtToken();
+const cookieOptions = (maxAge: number, path = "/"): CookieOptions => ({
+  expires: new Date(Date.now() + maxAge),
+  httpOnly: true,
+  sameSite: "none",
+  secure: true,
+  path,
+});
 
-  // Options for cookies
-  const options: CookieOptions = {
-    expires: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
-    httpOnly: true,
-    sameSite: "none",
-    secure: true,
-  };
-
-  res
+const setSellerCookies = (res: Response, statusCode: number, token: string, refreshToken: string): Response => {
+  return res
     .status(statusCode)
-    .cookie('seller_token', token, options)
-    .json({
-      success: true,
-      user,
-      token,
-    });
+    .cookie('seller_token', token, cookieOptions(ACCESS_TOKEN_MAX_AGE))
+    .cookie('seller_refresh_token', refreshToken, cookieOptions(REFRESH_TOKEN_MAX_AGE, "/api/v2/shop"));
 };
 
-export default sendShopToken;
+const sendShopToken = async (
+  user: User,
+  statusCode: number,
+  req: Request,
+  res: Response,
+  issued?: IssuedSession
+): Promise<void> => {
+  const { session, refreshToken } = issued || await createSession(String(user._id), "Shop", req);
+  const token: string = user.getJwtToken(String(session._id));
+
+  setSellerCookies(res, statusCode, token, refreshToken).json({
+    success: true,
+    user,
+    token,
+  });
+};
+
+// staff members log in to the seller dashboard with the same cookies as the
+// owner, but the session belongs to the staff member
+export const sendStaffToken = async (
+  staff: IStaff,
+  shop: unknown,
+  statusCode: number,
+  req: Request,
+  res: Response,
+  issued?: IssuedSession
+): Promise<void> => {
+  const { session, refreshToken } = issued || await createSession(String(staff._id), "Staff", req);
+  const token: string = staff.getJwtToken(String(session._id));
 
+  setSellerCookies(res, statusCode, token, refreshToken).json({
+    success: true,
+    user: shop,
+    staff,
+    token,
+  });
+};
+
+export const clearShopToken = (res: Response): Response => {
+  return res
+    .cookie('seller_token', null, cookieOptions(0))
+    .cookie('seller_refresh_token', null, cookieOptions(0, "/api/v2/shop"));
+};
+
+export default sendShopToken;
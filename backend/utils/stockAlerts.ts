@@ -0,0 +1,120 @@
+import Shop from "../model/shop";
+import Order from "../model/order";
+import Notification, { NotificationType } from "../model/notification";
+import { IProduct } from "../model/product";
+import sendMail from "./sendMail";
+
+// used when neither the product nor the shop sets a threshold
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+// orders that never took stock, or gave it back, don't count as sales
+const UNSOLD_STATUSES = ["Cancelled", "Refund Success"];
+
+export const lowStockThreshold = (
+  product: { lowStockThreshold?: number | null },
+  shop?: { lowStockThreshold?: number | null } | null
+): number => product.lowStockThreshold ?? shop?.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+
+export const availableOf = (stock: { stock: number; reserved?: number }): number =>
+  stock.stock - (stock.reserved || 0);
+
+const alertType = (before: number, after: number, threshold: number): NotificationType | null => {
+  if (after <= 0 && before > 0) {
+    return "out_of_stock";
+  }
+  if (after <= threshold && before > threshold) {
+    return "low_stock";
+  }
+  return null;
+};
+
+/**
+ * Tells the seller, on the dashboard and by email, when a stock movement
+ * takes a product or variant to or below its low-stock threshold. Only the
+ * movement that crosses the threshold alerts, not every sale below it.
+ */
+export const checkStockAlert = async (previous: IProduct, drop: number, variantId?: string): Promise<void> => {
+  if (drop <= 0) {
+    return;
+  }
+
+  const variant = variantId ? previous.variants.id(variantId) : null;
+  if (variantId && !variant) {
+    return;
+  }
+
+  const before = availableOf(variant || previous);
+  const after = before - drop;
+
+  const shop = await Shop.findById(previous.shopId);
+  const threshold = lowStockThreshold(previous, shop);
+  const type = alertType(before, after, threshold);
+
+  if (!shop || !type) {
+    return;
+  }
+
+  const name = variant ? `${previous.name} (${variant.sku})` : previous.name;
+  const message = type === "out_of_stock"
+    ? `${name} is out of stock.`
+    : `${name} is running low, ${Math.max(after, 0)} left in stock.`;
+
+  await Notification.create({
+    shopId: String(shop._id),
+    type,
+    message,
+    productId: String(previous._id),
+    variantId,
+  });
+
+  await sendMail({
+    email: shop.email,
+    subject: type === "out_of_stock" ? `Out of stock: ${name}` : `Low stock: ${name}`,
+    message: `Hello ${shop.name}, ${message} Restock it from your dashboard so customers can keep ordering.`,
+  });
+};
+
+/**
+ * Alerts for stock the seller set by hand, from the dashboard or an import.
+ * Takes the product as it was before the change and the new stock of the
+ * product, or of its variants; new variants have nothing to compare with.
+ */
+export const checkStockEdit = async (
+  previous: IProduct,
+  stock?: number,
+  variants?: { _id?: unknown; stock: number }[]
+): Promise<void> => {
+  if (variants?.length) {
+    for (const variant of variants) {
+      const before = variant._id ? previous.variants.id(variant._id) : null;
+      if (before) {
+        await checkStockAlert(previous, before.stock - variant.stock, String(variant._id));
+      }
+    }
+  } else if (stock !== undefined && !previous.variants.length) {
+    await checkStockAlert(previous, previous.stock - stock);
+  }
+};
+
+export interface LineSales {
+  productId: string;
+  variantId?: string;
+  sold: number;
+}
+
+// units sold per product and variant of the shop since the given date
+export const salesSince = async (shopId: string, since: Date): Promise<LineSales[]> => {
+  const sales: { _id: { productId: string; variantId?: string }; sold: number }[] = await Order.aggregate([
+    { $match: { "cart.shopId": shopId, createdAt: { $gte: since }, status: { $nin: UNSOLD_STATUSES } } },
+    { $unwind: "$cart" },
+    { $match: { "cart.shopId": shopId } },
+    {
+      $group: {
+        _id: { productId: { $toString: "$cart._id" }, variantId: "$cart.variantId" },
+        sold: { $sum: "$cart.qty" },
+      },
+    },
+  ]);
+
+  return sales.map(({ _id, sold }) => ({ productId: _id.productId, variantId: _id.variantId || undefined, sold }));
+};
@@ -0,0 +1,173 @@
+import crypto from "crypto";
+import jwt, { JwtPayload } from "jsonwebtoken";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_PERIOD = 30;
+const TOTP_DIGITS = 6;
+// accept one step of clock drift either side
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorAccount {
+  email: string;
+  twoFactorEnabled?: boolean;
+  twoFactorSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastStep?: number;
+}
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.replace(/=+$/, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+const generateCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, "0");
+};
+
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+export const buildOtpauthUrl = (secret: string, accountName: string): string => {
+  const issuer = process.env.TOTP_ISSUER || "Oshop";
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD}`;
+};
+
+// returns the matched time step, or null. Steps at or before lastStep are
+// rejected so a code can't be replayed.
+export const verifyTotp = (secret: string, code: string, lastStep = 0): number | null => {
+  if (!/^\d{6}$/.test(String(code))) {
+    return null;
+  }
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const step = currentStep + drift;
+    if (step <= lastStep) {
+      continue;
+    }
+    const expected = Buffer.from(generateCode(secret, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(String(code)))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+export const hashRecoveryCode = (code: string): string => {
+  return crypto.createHash("sha256").update(code.replace(/-/g, "").toLowerCase()).digest("hex");
+};
+
+// plain codes are shown to the owner once, only the hashes are stored
+export const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes: string[] = [];
+
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = crypto.randomBytes(5).toString("hex");
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+// check a TOTP code or a recovery code against the account. The account is
+// updated in place (last step or consumed recovery code) and must be saved.
+export const verifySecondFactor = (
+  account: TwoFactorAccount,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string }
+): boolean => {
+  if (!account.twoFactorEnabled || !account.twoFactorSecret) {
+    return false;
+  }
+
+  if (code) {
+    const step = verifyTotp(account.twoFactorSecret, code, account.twoFactorLastStep);
+    if (step === null) {
+      return false;
+    }
+    account.twoFactorLastStep = step;
+    return true;
+  }
+
+  if (recoveryCode) {
+    const hash = hashRecoveryCode(recoveryCode);
+    const codes = account.twoFactorRecoveryCodes || [];
+    if (!codes.includes(hash)) {
+      return false;
+    }
+    account.twoFactorRecoveryCodes = codes.filter((stored) => stored !== hash);
+    return true;
+  }
+
+  return false;
+};
+
+// short-lived token proving the password step of a two-step login passed
+export const createTwoFactorLoginToken = (id: string, type: "User" | "Shop"): string => {
+  return jwt.sign({ id, type, purpose: "2fa-login" }, process.env.JWT_SECRET_KEY as string, {
+    expiresIn: "5m",
+  });
+};
+
+export const verifyTwoFactorLoginToken = (token: string, type: "User" | "Shop"): string | null => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET_KEY as string) as JwtPayload;
+    if (decoded.purpose !== "2fa-login" || decoded.type !== type) {
+      return null;
+    }
+    return decoded.id;
+  } catch (error) {
+    return null;
+  }
+};
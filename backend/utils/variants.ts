@@ -0,0 +1,107 @@
+import mongoose from "mongoose";
+import Product, { ProductOption } from "../model/product";
+
+interface VariantOptions {
+  sku: string;
+  options: Record<string, string>;
+}
+
+// every variant picks one value of each product option, and no two variants
+// share a SKU or the same combination of values
+export const checkVariantOptions = (options: ProductOption[], variants: VariantOptions[]): string | null => {
+  if (variants.length && !options.length) {
+    return "Please add the product options before its variants";
+  }
+
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+
+  for (const variant of variants) {
+    for (const option of options) {
+      const value = variant.options[option.name];
+      if (value === undefined || !option.values.includes(value)) {
+        return `Variant ${variant.sku} needs one of ${option.values.join(", ")} for ${option.name}`;
+      }
+    }
+
+    const unknown = Object.keys(variant.options).filter((name) => !options.some((option) => option.name === name));
+    if (unknown.length) {
+      return `Variant ${variant.sku} uses unknown options: ${unknown.join(", ")}`;
+    }
+
+    const combination = options.map((option) => variant.options[option.name]).join("/");
+    if (skus.has(variant.sku) || combinations.has(combination)) {
+      return `Variant ${variant.sku} repeats the SKU or options of another variant`;
+    }
+
+    skus.add(variant.sku);
+    combinations.add(combination);
+  }
+
+  return null;
+};
+
+export interface VariantFields {
+  // left out for new variants
+  _id?: unknown;
+  sku: string;
+  options: Record<string, string>;
+  originalPrice?: number;
+  price: number;
+  stock: number;
+  images: { public_id: string; url: string }[];
+}
+
+/**
+ * Replaces the product's variants with these, one update per step: variants
+ * left out are removed, kept ones have their fields set in place and new ones
+ * are added. reserved and sold_out are only ever moved by orders, so stock a
+ * checkout holds in the meantime stays counted. The product's stock, reserved
+ * and price are then worked out again from what's stored.
+ */
+export const saveVariants = async (productId: unknown, variants: VariantFields[]): Promise<void> => {
+  const kept = variants.filter((variant) => variant._id);
+  const added = variants.filter((variant) => !variant._id);
+
+  await Product.updateOne(
+    { _id: productId },
+    { $pull: { variants: { _id: { $nin: kept.map((variant) => variant._id) } } } }
+  );
+
+  if (kept.length) {
+    const set: Record<string, unknown> = {};
+    const unset: Record<string, 1> = {};
+    const arrayFilters: Record<string, unknown>[] = [];
+
+    kept.forEach(({ _id, ...fields }, index) => {
+      for (const [field, value] of Object.entries(fields)) {
+        if (value === undefined) {
+          unset[`variants.$[v${index}].${field}`] = 1;
+        } else {
+          set[`variants.$[v${index}].${field}`] = value;
+        }
+      }
+      arrayFilters.push({ [`v${index}._id`]: new mongoose.Types.ObjectId(String(_id)) });
+    });
+
+    await Product.updateOne(
+      { _id: productId },
+      Object.keys(unset).length ? { $set: set, $unset: unset } : { $set: set },
+      { arrayFilters }
+    );
+  }
+
+  if (added.length) {
+    await Product.updateOne({ _id: productId }, { $push: { variants: { $each: added } } });
+  }
+
+  await Product.updateOne({ _id: productId, "variants.0": { $exists: true } }, [
+    {
+      $set: {
+        stock: { $sum: "$variants.stock" },
+        reserved: { $sum: "$variants.reserved" },
+        discountPrice: { $min: "$variants.price" },
+      },
+    },
+  ]);
+};